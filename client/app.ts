@@ -4,16 +4,41 @@
  */
 
 import L from "leaflet";
-import type { ProcessedGPS } from "../shared/gps-pipeline.js";
+import type {
+  PositionPrediction,
+  ProcessedGPS,
+} from "../shared/gps-pipeline.js";
+import type { StayEvent } from "../shared/events.js";
+import type { MovementPhase } from "../shared/movement.js";
 
 // Map and layers
 let map: L.Map;
 let darkTileLayer: L.TileLayer;
 let lightTileLayer: L.TileLayer;
 let isDarkMode = true;
-const rawTraces = new Map<string, L.Polyline>();
-const filteredTraces = new Map<string, L.Polyline>();
+const rawTraces = new Map<string, L.Polyline[]>(); // one polyline per track segment
+const filteredTraces = new Map<string, L.Polyline[]>();
 const markers = new Map<string, L.CircleMarker>();
+const confidenceCircles = new Map<string, L.Circle>(); // horizontal error around the marker
+const stayCircles = new Map<string, L.Circle>(); // key: sensorId:startTime
+
+// Overdue sensors: when a sensor misses a few updates its marker is moved to
+// the pipeline's dead-reckoned prediction and drawn in the "predicted" style
+const OVERDUE_CHECK_MS = 1000;
+const OVERDUE_MIN_MS = 5000; // never overdue sooner than this
+const OVERDUE_INTERVALS = 3; // ... or than 3 typical update intervals
+const MAX_PREDICT_SECONDS = 300; // server limit
+const lastSeen = new Map<string, { receivedAt: number; interval: number }>();
+const predictedSensors = new Set<string>();
+let predicting = false; // one round of prediction requests at a time
+
+// Status labels for the movement state machine
+const MOVEMENT_LABELS: Record<MovementPhase, string> = {
+  STOPPED: "🅿️ Stopped",
+  STARTING: "🚦 Starting",
+  MOVING: "🚗 Moving",
+  STOPPING: "⏳ Stopping",
+};
 
 // State
 let pointsProcessed = 0;
@@ -38,6 +63,10 @@ const avgVelocityEl = document.getElementById("avg-velocity") as HTMLElement;
 const movementStatusEl = document.getElementById(
   "movement-status"
 ) as HTMLElement;
+const odometerEl = document.getElementById("odometer") as HTMLElement;
+const transportModeEl = document.getElementById(
+  "transport-mode"
+) as HTMLElement;
 const themeToggleBtn = document.getElementById(
   "theme-toggle"
 ) as HTMLButtonElement;
@@ -111,9 +140,56 @@ function connectToPubSub() {
     }
   };
 
+  // Stay-point events (named SSE events from gps:events)
+  const onStayEvent = (event: MessageEvent) => {
+    try {
+      handleStayEvent(
+        JSON.parse(event.data) as StayEvent & { sensorId: string }
+      );
+    } catch (err) {
+      console.error("Failed to parse stay event:", err);
+    }
+  };
+  eventSource.addEventListener("stay.started", onStayEvent);
+  eventSource.addEventListener("stay.ended", onStayEvent);
+
   return eventSource;
 }
 
+/**
+ * Draw (or close) a stay region on the map
+ */
+function handleStayEvent(data: StayEvent & { sensorId: string }) {
+  const { sensorId } = data;
+
+  if (currentSensor && currentSensor !== sensorId) {
+    return;
+  }
+
+  const key = `${sensorId}:${data.startTime}`;
+  let circle = stayCircles.get(key);
+
+  if (!circle) {
+    circle = L.circle([data.centroidLat, data.centroidLon], {
+      radius: Math.max(data.radius, 20), // Keep tight stays visible
+      color: "#cc9933",
+      weight: 2,
+      fillOpacity: 0.2,
+    }).addTo(map);
+    stayCircles.set(key, circle);
+  }
+
+  const minutes = (data.durationMs / 60000).toFixed(0);
+  const since = new Date(data.startTime).toLocaleTimeString();
+
+  if (data.type === "stay.ended") {
+    circle.setStyle({ dashArray: "4 4", fillOpacity: 0.1 });
+    circle.bindPopup(`${sensorId}: stayed ${minutes} min (from ${since})`);
+  } else {
+    circle.bindPopup(`${sensorId}: staying since ${since} (${minutes} min)`);
+  }
+}
+
 /**
  * Handle incoming GPS data point
  */
@@ -137,18 +213,32 @@ function handleGPSData(data: ProcessedGPS & { sensorId: string }) {
     sensorSelect.appendChild(option);
   }
 
-  // Update raw trace
-  if (showRawCheckbox.checked) {
-    updateTrace(sensorId, "raw", data.lat, data.lon);
+  // Update raw trace (measured fixes only, not TimeAlignment interpolation)
+  // A segment start (first fix after a long gap) begins a new polyline
+  if (showRawCheckbox.checked && !data.interpolated) {
+    updateTrace(sensorId, "raw", data.lat, data.lon, data.segmentStart);
   }
 
   // Update filtered trace
   if (showFilteredCheckbox.checked) {
-    updateTrace(sensorId, "filtered", data.smoothedLat, data.smoothedLon);
+    updateTrace(
+      sensorId,
+      "filtered",
+      data.smoothedLat,
+      data.smoothedLon,
+      data.segmentStart
+    );
   }
 
-  // Update current position marker
+  // Update current position marker and its confidence circle
+  trackUpdate(sensorId);
   updateMarker(sensorId, data.smoothedLat, data.smoothedLon, data.isMoving);
+  updateConfidenceCircle(
+    sensorId,
+    data.smoothedLat,
+    data.smoothedLon,
+    data.horizontalError
+  );
 
   // Update statistics
   pointsProcessed++;
@@ -157,22 +247,38 @@ function handleGPSData(data: ProcessedGPS & { sensorId: string }) {
 
   pointsCountEl.textContent = pointsProcessed.toString();
   avgVelocityEl.textContent = `${(velocitySum / velocityCount).toFixed(2)} m/s`;
-  movementStatusEl.textContent = data.isMoving ? "🚗 Moving" : "🅿️ Stopped";
+  movementStatusEl.textContent = MOVEMENT_LABELS[data.movementState];
+  odometerEl.textContent = `${(data.totalDistance / 1000).toFixed(2)} km`;
+  transportModeEl.textContent =
+    data.transportMode === "unknown"
+      ? "—"
+      : `${data.transportMode} (${Math.round(
+          data.transportModeConfidence * 100
+        )}%)`;
 }
 
 /**
  * Update trace polyline for sensor
+ * newSegment starts a separate polyline so segments are not joined across gaps
  */
 function updateTrace(
   sensorId: string,
   type: "raw" | "filtered",
   lat: number,
-  lon: number
+  lon: number,
+  newSegment: boolean
 ) {
   const traces = type === "raw" ? rawTraces : filteredTraces;
-  let trace = traces.get(sensorId);
+  let segments = traces.get(sensorId);
+
+  if (!segments) {
+    segments = [];
+    traces.set(sensorId, segments);
+  }
 
-  if (!trace) {
+  let trace = segments[segments.length - 1];
+
+  if (!trace || (newSegment && trace.getLatLngs().length > 0)) {
     // Create new polyline
     const color = type === "raw" ? "#cc3333" : "#33cc33";
     trace = L.polyline([], {
@@ -181,14 +287,14 @@ function updateTrace(
       opacity: 0.8,
       smoothFactor: 1,
     }).addTo(map);
-    traces.set(sensorId, trace);
+    segments.push(trace);
   }
 
   // Add point to trace
   trace.addLatLng([lat, lon]);
 
-  // Auto-fit map bounds if first point
-  if (trace.getLatLngs().length === 1) {
+  // Auto-fit map bounds if first point of the sensor's first segment
+  if (segments.length === 1 && trace.getLatLngs().length === 1) {
     map.setView([lat, lon], 15);
   }
 }
@@ -222,10 +328,138 @@ function updateMarker(
   // Update position
   marker.setLatLng([lat, lon]);
 
-  // Update color based on movement
+  // Update color based on movement (a live fix ends any predicted style)
+  if (predictedSensors.delete(sensorId)) {
+    marker.bindPopup(`Sensor: ${sensorId}`);
+  }
   marker.setStyle({
     fillColor: isMoving ? "#33cc33" : "#cc9933",
+    fillOpacity: 0.8,
+    dashArray: "",
+  });
+}
+
+/**
+ * Record when a sensor last reported (wall clock) and its typical interval
+ */
+function trackUpdate(sensorId: string) {
+  const now = Date.now();
+  const seen = lastSeen.get(sensorId);
+  const interval = seen
+    ? 0.8 * seen.interval + 0.2 * (now - seen.receivedAt)
+    : OVERDUE_MIN_MS / OVERDUE_INTERVALS;
+  lastSeen.set(sensorId, { receivedAt: now, interval });
+}
+
+/**
+ * Move overdue sensors' markers to their predicted position
+ */
+async function updateOverdueSensors() {
+  if (predicting) {
+    return;
+  }
+  predicting = true;
+  const now = Date.now();
+
+  for (const [sensorId, seen] of lastSeen) {
+    if (currentSensor && currentSensor !== sensorId) {
+      continue;
+    }
+
+    const overdueAfter = Math.max(
+      OVERDUE_MIN_MS,
+      OVERDUE_INTERVALS * seen.interval
+    );
+    // Past the longest horizon the marker stays at the last prediction
+    const elapsedMs = now - seen.receivedAt;
+    if (elapsedMs < overdueAfter || elapsedMs / 1000 > MAX_PREDICT_SECONDS) {
+      continue;
+    }
+
+    const seconds = elapsedMs / 1000;
+    try {
+      const response = await fetch(
+        `/api/sensors/${encodeURIComponent(
+          sensorId
+        )}/predict?seconds=${seconds.toFixed(1)}`
+      );
+      if (!response.ok) {
+        continue;
+      }
+      const prediction = (await response.json()) as PositionPrediction;
+
+      // A live fix may have arrived while the request was in flight
+      if (lastSeen.get(sensorId)?.receivedAt !== seen.receivedAt) {
+        continue;
+      }
+      showPrediction(sensorId, prediction);
+    } catch (err) {
+      console.error(`Failed to predict ${sensorId}:`, err);
+    }
+  }
+
+  predicting = false;
+}
+
+/**
+ * Draw a marker in the "predicted" style (hollow, dashed) at the
+ * dead-reckoned position, with the prediction's growing uncertainty
+ */
+function showPrediction(sensorId: string, prediction: PositionPrediction) {
+  const marker = markers.get(sensorId);
+  if (!marker) {
+    return;
+  }
+
+  predictedSensors.add(sensorId);
+  marker.setLatLng([prediction.lat, prediction.lon]);
+  marker.setStyle({
+    fillColor: "#888888",
+    fillOpacity: 0.3,
+    dashArray: "3 3",
   });
+  marker.bindPopup(
+    `Sensor: ${sensorId} (predicted +${prediction.horizonSeconds.toFixed(
+      0
+    )} s, ±${prediction.horizontalError.toFixed(0)} m)`
+  );
+
+  updateConfidenceCircle(
+    sensorId,
+    prediction.lat,
+    prediction.lon,
+    prediction.horizontalError
+  );
+}
+
+/**
+ * Update the confidence circle (estimated horizontal error, metres)
+ */
+function updateConfidenceCircle(
+  sensorId: string,
+  lat: number,
+  lon: number,
+  radius: number
+) {
+  if (!radius || !isFinite(radius)) {
+    return;
+  }
+
+  let circle = confidenceCircles.get(sensorId);
+
+  if (!circle) {
+    circle = L.circle([lat, lon], {
+      radius,
+      color: "#0066cc",
+      weight: 1,
+      fillOpacity: 0.15,
+      interactive: false,
+    }).addTo(map);
+    confidenceCircles.set(sensorId, circle);
+  }
+
+  circle.setLatLng([lat, lon]);
+  circle.setRadius(radius);
 }
 
 /**
@@ -233,16 +467,28 @@ function updateMarker(
  */
 function clearMap() {
   // Clear raw traces
-  rawTraces.forEach((trace) => trace.remove());
+  rawTraces.forEach((segments) => segments.forEach((trace) => trace.remove()));
   rawTraces.clear();
 
   // Clear filtered traces
-  filteredTraces.forEach((trace) => trace.remove());
+  filteredTraces.forEach((segments) =>
+    segments.forEach((trace) => trace.remove())
+  );
   filteredTraces.clear();
 
   // Clear markers
   markers.forEach((marker) => marker.remove());
   markers.clear();
+  lastSeen.clear();
+  predictedSensors.clear();
+
+  // Clear confidence circles
+  confidenceCircles.forEach((circle) => circle.remove());
+  confidenceCircles.clear();
+
+  // Clear stay regions
+  stayCircles.forEach((circle) => circle.remove());
+  stayCircles.clear();
 
   // Clear sensor dropdown (except "All Sensors")
   while (sensorSelect.options.length > 1) {
@@ -256,6 +502,8 @@ function clearMap() {
   pointsCountEl.textContent = "0";
   avgVelocityEl.textContent = "0.0 m/s";
   movementStatusEl.textContent = "—";
+  odometerEl.textContent = "—";
+  transportModeEl.textContent = "—";
 }
 
 /**
@@ -265,21 +513,25 @@ function updateTraceVisibility() {
   const showRaw = showRawCheckbox.checked;
   const showFiltered = showFilteredCheckbox.checked;
 
-  rawTraces.forEach((trace) => {
-    if (showRaw) {
-      trace.addTo(map);
-    } else {
-      trace.remove();
-    }
-  });
+  rawTraces.forEach((segments) =>
+    segments.forEach((trace) => {
+      if (showRaw) {
+        trace.addTo(map);
+      } else {
+        trace.remove();
+      }
+    })
+  );
 
-  filteredTraces.forEach((trace) => {
-    if (showFiltered) {
-      trace.addTo(map);
-    } else {
-      trace.remove();
-    }
-  });
+  filteredTraces.forEach((segments) =>
+    segments.forEach((trace) => {
+      if (showFiltered) {
+        trace.addTo(map);
+      } else {
+        trace.remove();
+      }
+    })
+  );
 }
 
 /**
@@ -327,5 +579,6 @@ themeToggleBtn.addEventListener("click", toggleTheme);
 // Initialize
 initMap();
 eventSource = connectToPubSub();
+setInterval(updateOverdueSensors, OVERDUE_CHECK_MS);
 
 console.log("🗺️ GPS Visualization Client ready");
@@ -30,6 +30,15 @@
 
 import express from "express";
 import Redis from "ioredis";
+import { randomUUID } from "crypto";
+import { GPSStateManager } from "../shared/state-manager.js";
+import { createStateStore } from "../shared/state-store.js";
+import { predictPosition } from "../shared/gps-pipeline.js";
+import {
+  loadConfigFile,
+  resolveSensorConfig,
+} from "../shared/pipeline-config.js";
+import { parseGeofence } from "../shared/geofence.js";
 
 const app = express();
 const PORT = 3002;
@@ -37,6 +46,16 @@ const PORT = 3002;
 // Redis configuration
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
 const OUTPUT_CHANNEL = "gps:processed";
+const EVENTS_CHANNEL = "gps:events"; // stay / trip / geofence / anomaly events, sent as named SSE events
+
+// Regular connection for API reads (the subscriber connection is in
+// subscribe mode and cannot run other commands)
+const redis = new Redis(REDIS_URL);
+const stateManager = new GPSStateManager(createStateStore(redis));
+const configFile = loadConfigFile();
+
+// Longest prediction horizon served (s) - dead reckoning degrades quickly
+const MAX_PREDICT_SECONDS = 300;
 
 // Store active SSE connections mapped by sensorId
 // Map<sensorId, Set<Response>> - allows filtering by tracking ID
@@ -131,6 +150,271 @@ app.get("/api/stats", (req, res) => {
   res.json(stats);
 });
 
+/**
+ * Trips endpoint - closed trip summaries for a sensor, newest first
+ * GET /api/sensors/128-20070414005628/trips?limit=20
+ */
+app.get("/api/sensors/:id/trips", async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
+  if (isNaN(limit) || limit <= 0) {
+    res.status(400).json({ error: "limit must be a positive integer" });
+    return;
+  }
+
+  try {
+    const trips = await stateManager.listTrips(req.params.id, limit);
+    res.json({ sensorId: req.params.id, trips });
+  } catch (err) {
+    console.error("❌ Error listing trips:", err);
+    res.status(500).json({ error: "Failed to load trips" });
+  }
+});
+
+/**
+ * Predict endpoint - dead-reckoned position and uncertainty N seconds past
+ * the sensor's last fix, from its Kalman state in Redis
+ * GET /api/sensors/128-20070414005628/predict?seconds=10
+ */
+app.get("/api/sensors/:id/predict", async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  const seconds = req.query.seconds
+    ? parseFloat(req.query.seconds as string)
+    : 0;
+  if (isNaN(seconds) || seconds < 0 || seconds > MAX_PREDICT_SECONDS) {
+    res.status(400).json({
+      error: `seconds must be between 0 and ${MAX_PREDICT_SECONDS}`,
+    });
+    return;
+  }
+
+  try {
+    const snapshot = await stateManager.loadPositionSnapshot(req.params.id);
+    if (!snapshot) {
+      res.status(404).json({ error: "No state for sensor" });
+      return;
+    }
+
+    const config = await stateManager.loadConfig(req.params.id, (sensorId) =>
+      resolveSensorConfig(configFile, sensorId)
+    );
+    const prediction = predictPosition(snapshot, seconds, config);
+    if (!prediction) {
+      res.status(404).json({ error: "No position fix for sensor yet" });
+      return;
+    }
+
+    res.json({ sensorId: req.params.id, ...prediction });
+  } catch (err) {
+    console.error("❌ Error predicting position:", err);
+    res.status(500).json({ error: "Failed to predict position" });
+  }
+});
+
+/**
+ * Anomalies endpoint - flagged fixes per anomaly type for a sensor
+ * (spoofing / device fault alerts, kept for a week)
+ * GET /api/sensors/128-20070414005628/anomalies
+ */
+app.get("/api/sensors/:id/anomalies", async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  try {
+    const counts = await stateManager.getAnomalyCounts(req.params.id);
+    res.json({ sensorId: req.params.id, counts });
+  } catch (err) {
+    console.error("❌ Error loading anomaly counts:", err);
+    res.status(500).json({ error: "Failed to load anomaly counts" });
+  }
+});
+
+/**
+ * State metrics endpoint - app state blobs migrated from an older format
+ * version and decode failures per reason (header, version, migration, field)
+ * GET /api/metrics/state
+ */
+app.get("/api/metrics/state", async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  try {
+    const counts = await stateManager.getStateDecodeCounts();
+    res.json({ counts });
+  } catch (err) {
+    console.error("❌ Error loading state metrics:", err);
+    res.status(500).json({ error: "Failed to load state metrics" });
+  }
+});
+
+/**
+ * Odometer reset - zeroes a sensor's running totals (distance, moving /
+ * stopped time, max speed); the next processed sample reports from zero
+ * POST /api/sensors/128-20070414005628/odometer/reset
+ */
+app.post("/api/sensors/:id/odometer/reset", async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  try {
+    const found = await stateManager.resetOdometer(req.params.id);
+    if (!found) {
+      res.status(404).json({ error: "No state for sensor" });
+      return;
+    }
+    res.json({ sensorId: req.params.id, reset: true });
+  } catch (err) {
+    console.error("❌ Error resetting odometer:", err);
+    res.status(500).json({ error: "Failed to reset odometer" });
+  }
+});
+
+/**
+ * Geofences - list all
+ * GET /api/geofences
+ */
+app.get("/api/geofences", async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  try {
+    const geofences = await stateManager.listGeofences();
+    res.json({ geofences });
+  } catch (err) {
+    console.error("❌ Error listing geofences:", err);
+    res.status(500).json({ error: "Failed to load geofences" });
+  }
+});
+
+/**
+ * Geofences - get one
+ * GET /api/geofences/depot
+ */
+app.get("/api/geofences/:id", async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  try {
+    const geofence = await stateManager.getGeofence(req.params.id);
+    if (!geofence) {
+      res.status(404).json({ error: "No such geofence" });
+      return;
+    }
+    res.json(geofence);
+  } catch (err) {
+    console.error("❌ Error loading geofence:", err);
+    res.status(500).json({ error: "Failed to load geofence" });
+  }
+});
+
+/**
+ * Geofences - create (id generated unless given in the body)
+ * POST /api/geofences
+ * { "name": "Depot", "type": "circle", "center": { "lat": 39.98, "lon": 116.31 }, "radius": 150 }
+ * { "name": "Campus", "type": "polygon", "points": [{ "lat": ..., "lon": ... }, ...], "dwellSeconds": 600 }
+ */
+app.post("/api/geofences", express.json(), async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  const id = typeof req.body?.id === "string" ? req.body.id : randomUUID();
+  const parsed = parseGeofence(id, req.body);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    if (await stateManager.getGeofence(id)) {
+      res.status(409).json({ error: "Geofence already exists" });
+      return;
+    }
+    await stateManager.saveGeofence(parsed.geofence);
+    res.status(201).json(parsed.geofence);
+  } catch (err) {
+    console.error("❌ Error creating geofence:", err);
+    res.status(500).json({ error: "Failed to create geofence" });
+  }
+});
+
+/**
+ * Geofences - create or replace
+ * PUT /api/geofences/depot (same body as POST)
+ */
+app.put("/api/geofences/:id", express.json(), async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  const parsed = parseGeofence(req.params.id, req.body);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    await stateManager.saveGeofence(parsed.geofence);
+    res.json(parsed.geofence);
+  } catch (err) {
+    console.error("❌ Error saving geofence:", err);
+    res.status(500).json({ error: "Failed to save geofence" });
+  }
+});
+
+/**
+ * Geofences - delete (sensors inside it leave without an exit event)
+ * DELETE /api/geofences/depot
+ */
+app.delete("/api/geofences/:id", async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  try {
+    const found = await stateManager.deleteGeofence(req.params.id);
+    if (!found) {
+      res.status(404).json({ error: "No such geofence" });
+      return;
+    }
+    res.json({ id: req.params.id, deleted: true });
+  } catch (err) {
+    console.error("❌ Error deleting geofence:", err);
+    res.status(500).json({ error: "Failed to delete geofence" });
+  }
+});
+
+/**
+ * Send an SSE message to clients of this sensor and to unfiltered clients
+ * Returns the number of clients written to
+ */
+function broadcast(sensorId: string, sseMessage: string): number {
+  // Send to clients filtering for this specific sensor
+  const sensorClients = clients.get(sensorId);
+  let sentCount = 0;
+
+  if (sensorClients && sensorClients.size > 0) {
+    sensorClients.forEach((client) => {
+      try {
+        client.write(sseMessage);
+        sentCount++;
+      } catch (err) {
+        // Remove dead connection
+        sensorClients.delete(client);
+        if (sensorClients.size === 0) {
+          clients.delete(sensorId);
+        }
+      }
+    });
+  }
+
+  // Send to clients listening to all sensors
+  if (allClients.size > 0) {
+    allClients.forEach((client) => {
+      try {
+        client.write(sseMessage);
+        sentCount++;
+      } catch (err) {
+        // Remove dead connection
+        allClients.delete(client);
+      }
+    });
+  }
+
+  return sentCount;
+}
+
 /**
  * Subscribe to Redis and broadcast to all SSE clients
  * Filters messages by sensorId to only send to interested clients
@@ -138,67 +422,52 @@ app.get("/api/stats", (req, res) => {
 async function startRedisSubscription() {
   const subscriber = new Redis(REDIS_URL);
 
-  await subscriber.subscribe(OUTPUT_CHANNEL);
-  console.log(`📡 Subscribed to Redis channel: ${OUTPUT_CHANNEL}`);
+  await subscriber.subscribe(OUTPUT_CHANNEL, EVENTS_CHANNEL);
+  console.log(
+    `📡 Subscribed to Redis channels: ${OUTPUT_CHANNEL}, ${EVENTS_CHANNEL}`
+  );
   console.log(`🎯 Broadcasting with client-side filtering enabled\n`);
 
   subscriber.on("message", (channel, messageBuffer) => {
-    if (channel === OUTPUT_CHANNEL) {
-      try {
-        // Parse message to get sensorId
-        const messageStr = messageBuffer.toString();
-        const data = JSON.parse(messageStr);
-        const sensorId = data.sensorId;
-
-        if (!sensorId) {
-          console.warn("⚠️  Message missing sensorId, skipping");
-          return;
-        }
+    if (channel !== OUTPUT_CHANNEL && channel !== EVENTS_CHANNEL) {
+      return;
+    }
 
-        const sseMessage = `data: ${messageStr}\n\n`;
-
-        // Send to clients filtering for this specific sensor
-        const sensorClients = clients.get(sensorId);
-        let sentCount = 0;
-
-        if (sensorClients && sensorClients.size > 0) {
-          sensorClients.forEach((client) => {
-            try {
-              client.write(sseMessage);
-              sentCount++;
-            } catch (err) {
-              // Remove dead connection
-              sensorClients.delete(client);
-              if (sensorClients.size === 0) {
-                clients.delete(sensorId);
-              }
-            }
-          });
-        }
+    try {
+      // Parse message to get sensorId
+      const messageStr = messageBuffer.toString();
+      const data = JSON.parse(messageStr);
+      const sensorId = data.sensorId;
 
-        // Send to clients listening to all sensors
-        if (allClients.size > 0) {
-          allClients.forEach((client) => {
-            try {
-              client.write(sseMessage);
-              sentCount++;
-            } catch (err) {
-              // Remove dead connection
-              allClients.delete(client);
-            }
-          });
-        }
+      if (!sensorId) {
+        console.warn("⚠️  Message missing sensorId, skipping");
+        return;
+      }
 
-        // Log every 100 messages to avoid spam
-        if (Math.random() < 0.01) {
-          console.log(
-            `📤 Sent ${sensorId} update to ${sentCount} client(s) ` +
-              `(${clients.size} tracked sensors, ${allClients.size} unfiltered)`
-          );
-        }
-      } catch (err) {
-        console.error("❌ Error processing message:", err);
+      // Processed points use the default "message" event;
+      // pipeline events are named by their type (e.g. "stay.started")
+      if (channel === EVENTS_CHANNEL) {
+        const sentCount = broadcast(
+          sensorId,
+          `event: ${data.type}\ndata: ${messageStr}\n\n`
+        );
+        console.log(
+          `📌 Sent ${data.type} for ${sensorId} to ${sentCount} client(s)`
+        );
+        return;
+      }
+
+      const sentCount = broadcast(sensorId, `data: ${messageStr}\n\n`);
+
+      // Log every 100 messages to avoid spam
+      if (Math.random() < 0.01) {
+        console.log(
+          `📤 Sent ${sensorId} update to ${sentCount} client(s) ` +
+            `(${clients.size} tracked sensors, ${allClients.size} unfiltered)`
+        );
       }
+    } catch (err) {
+      console.error("❌ Error processing message:", err);
     }
   });
 
@@ -0,0 +1,294 @@
+/**
+ * Accuracy Metrics
+ * Runs synthetic trajectories through GPSPipeline offline (no Redis) and
+ * scores the output against the ground truth, or scores real-time output
+ * against an RTS-smoothed reference track of the same fixes:
+ *
+ *   rawRmse         noisy fixes vs truth, outliers excluded (the noise floor)
+ *   positionRmse    smoothed position vs truth at the sample's timestamp
+ *   speedMae/Rmse   smoothedVelocity vs truth speed
+ *   lagSeconds      delay τ for which the smoothed track best matches the
+ *                   truth τ earlier (while moving; 0 when none)
+ *   movingAccuracy  share of samples whose isMoving matches the truth
+ *
+ * Shared by the accuracy evaluation and tuning commands
+ */
+
+import { haversineDistance } from "../shared/geo.js";
+import {
+  GPSPipeline,
+  type GPSPoint,
+  type ProcessedGPS,
+} from "../shared/gps-pipeline.js";
+import type { GPSPipelineConfig } from "../shared/pipeline-config.js";
+import { createAppState } from "../shared/state-manager.js";
+import { truthAt, type SyntheticRun } from "./synthetic.js";
+
+// Lag search range and resolution (s)
+const MAX_LAG = 10;
+const LAG_STEP = 0.1;
+
+// Objective weights: metres of position RMSE worth 1 m/s of speed RMSE, and
+// 100% of isMoving mismatches
+const SPEED_WEIGHT = 5;
+const MOVING_WEIGHT = 20;
+
+// Reference position, speed and movement at a timestamp (null = not covered)
+export interface TruthPoint {
+  lat: number;
+  lon: number;
+  speed: number;
+  isMoving: boolean;
+}
+
+export type Truth = (timestamp: number) => TruthPoint | null;
+
+export interface AccuracyMetrics {
+  fixes: number; // noisy fixes fed in
+  samples: number; // processed samples scored
+
+  rawRmse: number; // m
+  positionRmse: number; // m
+  speedMae: number; // m/s
+  speedRmse: number; // m/s
+  lagSeconds: number;
+  movingAccuracy: number; // 0-1
+}
+
+export interface ScenarioMetrics extends AccuracyMetrics {
+  scenario: string;
+}
+
+const rms = (sumSq: number, count: number) =>
+  count > 0 ? Math.sqrt(sumSq / count) : 0;
+
+/**
+ * Delay of the smoothed track behind the truth (s)
+ */
+function estimateLag(results: ProcessedGPS[], truth: Truth): number {
+  const moving = results.filter((result) => truth(result.timestamp)?.isMoving);
+  if (moving.length === 0) {
+    return 0;
+  }
+
+  let bestLag = 0;
+  let bestError = Infinity;
+  for (let step = 0; step * LAG_STEP <= MAX_LAG; step++) {
+    const lag = step * LAG_STEP;
+    let sumSq = 0;
+    let count = 0;
+    for (const result of moving) {
+      const earlier = truth(result.timestamp - lag * 1000);
+      if (!earlier) continue;
+      const error = haversineDistance(
+        result.smoothedLat,
+        result.smoothedLon,
+        earlier.lat,
+        earlier.lon
+      );
+      sumSq += error * error;
+      count++;
+    }
+    if (count > 0 && sumSq / count < bestError) {
+      bestError = sumSq / count;
+      bestLag = lag;
+    }
+  }
+
+  return bestLag;
+}
+
+/**
+ * Score pipeline output against a truth (samples it does not cover are
+ * skipped; fixes flagged by excludeFix do not count towards rawRmse)
+ */
+function scoreResults(
+  fixes: GPSPoint[],
+  results: ProcessedGPS[],
+  truth: Truth,
+  excludeFix: (index: number) => boolean = () => false
+): AccuracyMetrics {
+  let rawSumSq = 0;
+  let rawCount = 0;
+  fixes.forEach((fix, i) => {
+    const reference = truth(fix.timestamp);
+    if (!reference || excludeFix(i)) return;
+    const error = haversineDistance(
+      fix.lat,
+      fix.lon,
+      reference.lat,
+      reference.lon
+    );
+    rawSumSq += error * error;
+    rawCount++;
+  });
+
+  let samples = 0;
+  let positionSumSq = 0;
+  let speedSumAbs = 0;
+  let speedSumSq = 0;
+  let movingCorrect = 0;
+  for (const result of results) {
+    const reference = truth(result.timestamp);
+    if (!reference) continue;
+    const error = haversineDistance(
+      result.smoothedLat,
+      result.smoothedLon,
+      reference.lat,
+      reference.lon
+    );
+    const speedError = result.smoothedVelocity - reference.speed;
+
+    samples++;
+    positionSumSq += error * error;
+    speedSumAbs += Math.abs(speedError);
+    speedSumSq += speedError * speedError;
+    if (result.isMoving === reference.isMoving) movingCorrect++;
+  }
+
+  return {
+    fixes: fixes.length,
+    samples,
+    rawRmse: rms(rawSumSq, rawCount),
+    positionRmse: rms(positionSumSq, samples),
+    speedMae: samples > 0 ? speedSumAbs / samples : 0,
+    speedRmse: rms(speedSumSq, samples),
+    lagSeconds: estimateLag(results, truth),
+    movingAccuracy: samples > 0 ? movingCorrect / samples : 0,
+  };
+}
+
+/**
+ * Score pipeline output for one synthetic run
+ */
+export function scoreRun(
+  run: SyntheticRun,
+  results: ProcessedGPS[]
+): AccuracyMetrics {
+  return scoreResults(
+    run.fixes,
+    results,
+    (timestamp) => truthAt(run.truth, timestamp),
+    (i) => run.outliers[i]
+  );
+}
+
+/**
+ * Truth from an RTS-smoothed batch (linear interpolation between samples)
+ */
+export function referenceTruth(reference: ProcessedGPS[]): Truth {
+  return (timestamp) => {
+    if (
+      reference.length === 0 ||
+      timestamp < reference[0].timestamp ||
+      timestamp > reference[reference.length - 1].timestamp
+    ) {
+      return null;
+    }
+
+    // Last sample at or before the timestamp
+    let low = 0;
+    let high = reference.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (reference[mid].timestamp <= timestamp) low = mid;
+      else high = mid - 1;
+    }
+
+    const a = reference[low];
+    const b = reference[Math.min(low + 1, reference.length - 1)];
+    const t =
+      b.timestamp > a.timestamp
+        ? (timestamp - a.timestamp) / (b.timestamp - a.timestamp)
+        : 0;
+    return {
+      lat: a.smoothedLat + t * (b.smoothedLat - a.smoothedLat),
+      lon: a.smoothedLon + t * (b.smoothedLon - a.smoothedLon),
+      speed: a.smoothedVelocity + t * (b.smoothedVelocity - a.smoothedVelocity),
+      isMoving: t < 0.5 ? a.isMoving : b.isMoving,
+    };
+  };
+}
+
+/**
+ * Score real-time output against an RTS-smoothed reference of the same fixes
+ */
+export function scoreAgainstReference(
+  fixes: GPSPoint[],
+  reference: ProcessedGPS[],
+  results: ProcessedGPS[]
+): AccuracyMetrics {
+  return scoreResults(fixes, results, referenceTruth(reference));
+}
+
+/**
+ * Single objective for tuning (lower is better): position RMSE plus
+ * weighted speed RMSE and isMoving mismatch rate, in metres
+ */
+export function objectiveScore(metrics: AccuracyMetrics): number {
+  return (
+    metrics.positionRmse +
+    SPEED_WEIGHT * metrics.speedRmse +
+    MOVING_WEIGHT * (1 - metrics.movingAccuracy)
+  );
+}
+
+/**
+ * Pool per-scenario metrics into an overall row (weighted by samples)
+ */
+export function combineMetrics(metrics: AccuracyMetrics[]): AccuracyMetrics {
+  const fixes = metrics.reduce((sum, m) => sum + m.fixes, 0);
+  const samples = metrics.reduce((sum, m) => sum + m.samples, 0);
+  const mean = (
+    value: (m: AccuracyMetrics) => number,
+    weight: (m: AccuracyMetrics) => number,
+    total: number
+  ) =>
+    total > 0
+      ? metrics.reduce((sum, m) => sum + value(m) * weight(m), 0) / total
+      : 0;
+  const bySamples = (value: (m: AccuracyMetrics) => number) =>
+    mean(value, (m) => m.samples, samples);
+
+  return {
+    fixes,
+    samples,
+    rawRmse: Math.sqrt(
+      mean(
+        (m) => m.rawRmse ** 2,
+        (m) => m.fixes,
+        fixes
+      )
+    ),
+    positionRmse: Math.sqrt(bySamples((m) => m.positionRmse ** 2)),
+    speedMae: bySamples((m) => m.speedMae),
+    speedRmse: Math.sqrt(bySamples((m) => m.speedRmse ** 2)),
+    lagSeconds: bySamples((m) => m.lagSeconds),
+    movingAccuracy: bySamples((m) => m.movingAccuracy),
+  };
+}
+
+/**
+ * Run every synthetic run through a fresh pipeline and score it
+ * rts = true scores the offline RTS-smoothed batch instead of the causal filter
+ */
+export async function evaluateConfig(
+  config: GPSPipelineConfig,
+  runs: SyntheticRun[],
+  rts = false
+): Promise<ScenarioMetrics[]> {
+  const metrics: ScenarioMetrics[] = [];
+
+  for (const run of runs) {
+    const pipeline = new GPSPipeline(config);
+    const results = await pipeline.processBatch(
+      run.fixes,
+      createAppState(0, 0, 0, config.velocityWindowSize),
+      `synthetic-${run.scenario}`,
+      rts ? { smoothing: "rts" } : {}
+    );
+    metrics.push({ scenario: run.scenario, ...scoreRun(run, results) });
+  }
+
+  return metrics;
+}
@@ -0,0 +1,142 @@
+/**
+ * Accuracy Evaluation
+ * Generates synthetic ground-truth trajectories (straight lines, curves,
+ * stops), injects GPS noise, dropouts and outliers, runs them through
+ * GPSPipeline offline (no Redis) and reports position RMSE, speed error, lag
+ * and isMoving accuracy per profile, so configurations can be compared
+ *
+ * Usage: npm run evaluate:accuracy -- [--profiles default,car] [--scenarios line,curve]
+ *          [--sigma 5] [--interval 1] [--dropout 0.01] [--outliers 0.01]
+ *          [--seed 1] [--rts] [--json report.json]
+ */
+
+import fs from "fs";
+import { loadConfigFile, resolveProfile } from "../shared/pipeline-config.js";
+import {
+  combineMetrics,
+  evaluateConfig,
+  type AccuracyMetrics,
+  type ScenarioMetrics,
+} from "./accuracy.js";
+import { listOption, numberOption, option } from "./options.js";
+import {
+  DEFAULT_NOISE,
+  SCENARIOS,
+  generateRuns,
+  type NoiseOptions,
+} from "./synthetic.js";
+
+interface ProfileReport {
+  profile: string;
+  scenarios: ScenarioMetrics[];
+  overall: AccuracyMetrics;
+}
+
+interface EvaluationReport {
+  smoothing: "filter" | "rts";
+  noise: NoiseOptions;
+  profiles: ProfileReport[];
+}
+
+// Parse command-line arguments
+const args = process.argv.slice(2);
+const JSON_FILE = option(args, "json");
+const RTS = args.includes("--rts");
+const SCENARIO_NAMES = listOption(args, "scenarios") ?? Object.keys(SCENARIOS);
+const NOISE: NoiseOptions = {
+  sampleInterval: numberOption(args, "interval", DEFAULT_NOISE.sampleInterval),
+  sigma: numberOption(args, "sigma", DEFAULT_NOISE.sigma),
+  dropoutRate: numberOption(args, "dropout", DEFAULT_NOISE.dropoutRate),
+  dropoutSeconds: DEFAULT_NOISE.dropoutSeconds,
+  outlierRate: numberOption(args, "outliers", DEFAULT_NOISE.outlierRate),
+  outlierDistance: DEFAULT_NOISE.outlierDistance,
+  seed: numberOption(args, "seed", DEFAULT_NOISE.seed),
+};
+
+// Table columns after the scenario name
+const COLUMNS = [
+  "fixes",
+  "raw (m)",
+  "rmse (m)",
+  "speed MAE",
+  "lag (s)",
+  "isMoving",
+];
+const COLUMN_WIDTH = 11;
+
+/**
+ * Print one row per scenario plus the overall row for a profile
+ */
+function printProfile(report: ProfileReport): void {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const line = (name: string, cells: string[]) =>
+    name.padEnd(10) + cells.map((cell) => cell.padStart(COLUMN_WIDTH)).join("");
+  const row = (name: string, m: AccuracyMetrics) =>
+    line(name, [
+      m.fixes.toString(),
+      m.rawRmse.toFixed(2),
+      m.positionRmse.toFixed(2),
+      m.speedMae.toFixed(2),
+      m.lagSeconds.toFixed(1),
+      percent(m.movingAccuracy),
+    ]);
+
+  console.log(`\n📊 Profile: ${report.profile}`);
+  console.log(line("scenario", COLUMNS));
+  for (const scenario of report.scenarios) {
+    console.log(row(scenario.scenario, scenario));
+  }
+  console.log(row("overall", report.overall));
+}
+
+async function main() {
+  console.log("🎯 Accuracy Evaluation");
+  console.log("======================\n");
+
+  const runs = generateRuns(NOISE, SCENARIO_NAMES);
+  for (const run of runs) {
+    console.log(
+      `   ✓ ${run.scenario}: ${run.description} (${run.fixes.length} fixes)`
+    );
+  }
+
+  const configFile = loadConfigFile();
+  const profileNames = listOption(args, "profiles") ?? [
+    configFile.defaultProfile,
+  ];
+  console.log(
+    `\n⚙️  Noise: σ=${NOISE.sigma} m every ${NOISE.sampleInterval} s, ${
+      NOISE.dropoutRate * 100
+    }% dropouts, ${NOISE.outlierRate * 100}% outliers (seed ${NOISE.seed})`
+  );
+  console.log(`⚙️  Smoothing: ${RTS ? "RTS (offline)" : "filter (real-time)"}`);
+
+  const report: EvaluationReport = {
+    smoothing: RTS ? "rts" : "filter",
+    noise: NOISE,
+    profiles: [],
+  };
+
+  for (const profile of profileNames) {
+    const config = resolveProfile(configFile, profile);
+    const scenarios = await evaluateConfig(config, runs, RTS);
+    const profileReport: ProfileReport = {
+      profile,
+      scenarios,
+      overall: combineMetrics(scenarios),
+    };
+    report.profiles.push(profileReport);
+    printProfile(profileReport);
+  }
+
+  if (JSON_FILE) {
+    fs.writeFileSync(JSON_FILE, JSON.stringify(report, null, 2));
+    console.log(`\n💾 Report written to ${JSON_FILE}`);
+  }
+}
+
+// Run
+main().catch((err) => {
+  console.error("💥 Fatal error:", err);
+  process.exit(1);
+});
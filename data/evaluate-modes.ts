@@ -0,0 +1,280 @@
+/**
+ * Transport Mode Evaluation
+ * Runs labelled Geolife trajectories through GPSPipeline offline (no Redis)
+ * and scores the online transportMode against the users' labels.txt
+ *
+ * Usage: npm run evaluate:modes -- [user/sensor IDs as for replay] [--json report.json]
+ */
+
+import fs from "fs";
+import { GPSPipeline, type ProcessedGPS } from "../shared/gps-pipeline.js";
+import { createAppState } from "../shared/state-manager.js";
+import {
+  loadConfigFile,
+  resolveSensorConfig,
+} from "../shared/pipeline-config.js";
+import {
+  TRANSPORT_MODES,
+  type TransportMode,
+} from "../shared/transport-mode.js";
+import {
+  labelAt,
+  loadLabels,
+  parsePltFile,
+  parseTrajectoryArgs,
+  scanTrajectories,
+  type ModeLabel,
+} from "./geolife.js";
+
+// Geolife label -> classifier mode (labels without a counterpart, such as
+// train, airplane or boat, are not scored)
+const LABEL_MODES: Record<string, TransportMode> = {
+  walk: "walk",
+  run: "walk",
+  bike: "bike",
+  bus: "bus",
+  car: "car",
+  taxi: "car",
+  subway: "subway",
+};
+
+type Prediction = TransportMode | "unknown";
+
+interface ModeScore {
+  points: number; // labelled points of this mode
+  predicted: number; // points classified as this mode
+  correct: number;
+  precision: number;
+  recall: number;
+}
+
+interface EvaluationReport {
+  trajectories: number;
+
+  // Fixes inside a supported label / classified (not "unknown")
+  labelledPoints: number;
+  classifiedPoints: number;
+  unsupportedPoints: number; // inside a label with no classifier mode
+
+  coverage: number; // classified / labelled
+  accuracy: number; // correct / classified
+
+  modes: Record<TransportMode, ModeScore>;
+
+  // confusion[actual][predicted]
+  confusion: Record<TransportMode, Record<Prediction, number>>;
+}
+
+// Parse command-line arguments (--json <file> plus the replay selection)
+const args = process.argv.slice(2);
+const jsonIndex = args.indexOf("--json");
+const JSON_FILE = jsonIndex >= 0 ? args[jsonIndex + 1] : undefined;
+const selection = parseTrajectoryArgs(
+  jsonIndex >= 0
+    ? [...args.slice(0, jsonIndex), ...args.slice(jsonIndex + 2)]
+    : args
+);
+
+function emptyConfusion(): EvaluationReport["confusion"] {
+  const predictions: Prediction[] = [...TRANSPORT_MODES, "unknown"];
+  return Object.fromEntries(
+    TRANSPORT_MODES.map((actual) => [
+      actual,
+      Object.fromEntries(predictions.map((predicted) => [predicted, 0])),
+    ])
+  ) as EvaluationReport["confusion"];
+}
+
+/**
+ * Whether any label overlaps the trajectory's time range
+ */
+function isLabelled(
+  labels: ModeLabel[],
+  startTime: number,
+  endTime: number
+): boolean {
+  return labels.some(
+    (label) => label.endTime >= startTime && label.startTime <= endTime
+  );
+}
+
+/**
+ * Build the report from the confusion matrix
+ */
+function buildReport(
+  confusion: EvaluationReport["confusion"],
+  trajectories: number,
+  unsupportedPoints: number
+): EvaluationReport {
+  const sumRow = (row: Record<Prediction, number>) =>
+    Object.values(row).reduce((a, b) => a + b, 0);
+
+  let labelledPoints = 0;
+  let classifiedPoints = 0;
+  let correctPoints = 0;
+  const modes = {} as Record<TransportMode, ModeScore>;
+
+  for (const mode of TRANSPORT_MODES) {
+    const points = sumRow(confusion[mode]);
+    const predicted = TRANSPORT_MODES.reduce(
+      (sum, actual) => sum + confusion[actual][mode],
+      0
+    );
+    const correct = confusion[mode][mode];
+
+    labelledPoints += points;
+    classifiedPoints += points - confusion[mode].unknown;
+    correctPoints += correct;
+    modes[mode] = {
+      points,
+      predicted,
+      correct,
+      precision: predicted > 0 ? correct / predicted : 0,
+      recall: points > 0 ? correct / points : 0,
+    };
+  }
+
+  return {
+    trajectories,
+    labelledPoints,
+    classifiedPoints,
+    unsupportedPoints,
+    coverage: labelledPoints > 0 ? classifiedPoints / labelledPoints : 0,
+    accuracy: classifiedPoints > 0 ? correctPoints / classifiedPoints : 0,
+    modes,
+    confusion,
+  };
+}
+
+/**
+ * Print the per-mode scores and the confusion matrix
+ */
+function printReport(report: EvaluationReport): void {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const predictions: Prediction[] = [...TRANSPORT_MODES, "unknown"];
+
+  console.log("\n📊 Transport mode evaluation");
+  console.log(`   Trajectories: ${report.trajectories}`);
+  console.log(
+    `   Labelled points: ${report.labelledPoints} (${report.unsupportedPoints} more with unsupported labels)`
+  );
+  console.log(`   Coverage: ${percent(report.coverage)} classified`);
+  console.log(`   Accuracy: ${percent(report.accuracy)} of classified\n`);
+
+  console.log(
+    `${"mode".padEnd(8)}${"points".padStart(9)}${"precision".padStart(
+      11
+    )}${"recall".padStart(9)}`
+  );
+  for (const mode of TRANSPORT_MODES) {
+    const score = report.modes[mode];
+    console.log(
+      `${mode.padEnd(8)}${score.points.toString().padStart(9)}${percent(
+        score.precision
+      ).padStart(11)}${percent(score.recall).padStart(9)}`
+    );
+  }
+
+  console.log("\nConfusion (rows = label, columns = prediction)");
+  console.log(
+    "".padEnd(8) + predictions.map((mode) => mode.padStart(9)).join("")
+  );
+  for (const actual of TRANSPORT_MODES) {
+    console.log(
+      actual.padEnd(8) +
+        predictions
+          .map((predicted) =>
+            report.confusion[actual][predicted].toString().padStart(9)
+          )
+          .join("")
+    );
+  }
+}
+
+async function main() {
+  console.log("🧭 Transport Mode Evaluation");
+  console.log("============================\n");
+
+  const trajectoryFiles = scanTrajectories(
+    selection.userIds,
+    selection.sensorIds
+  );
+  if (trajectoryFiles.length === 0) {
+    console.error("❌ No trajectories found. Exiting.");
+    process.exit(1);
+  }
+
+  const configFile = loadConfigFile();
+  const labelsByUser = new Map<string, ModeLabel[]>();
+  const confusion = emptyConfusion();
+  let trajectories = 0;
+  let unsupportedPoints = 0;
+
+  for (const { userId, trajectoryId, filePath } of trajectoryFiles) {
+    let labels = labelsByUser.get(userId);
+    if (!labels) {
+      labels = loadLabels(userId);
+      labelsByUser.set(userId, labels);
+    }
+
+    const points = parsePltFile(filePath);
+    if (
+      points.length === 0 ||
+      !isLabelled(
+        labels,
+        points[0].timestamp,
+        points[points.length - 1].timestamp
+      )
+    ) {
+      continue;
+    }
+
+    // Same profile resolution as the workers, fresh pipeline per trajectory
+    const sensorId = `${userId}-${trajectoryId}`;
+    const config = resolveSensorConfig(configFile, sensorId);
+    const pipeline = new GPSPipeline(config);
+    const results: ProcessedGPS[] = await pipeline.processBatch(
+      points.map((point) => ({
+        lat: point.lat,
+        lon: point.lon,
+        altitude: isNaN(point.altitude) ? undefined : point.altitude,
+        timestamp: point.timestamp,
+      })),
+      createAppState(0, 0, 0, config.velocityWindowSize),
+      sensorId
+    );
+    trajectories++;
+
+    // Score the samples carrying a fix (interpolated ones repeat them)
+    let scored = 0;
+    for (const result of results) {
+      if (result.interpolated) continue;
+
+      const label = labelAt(labels, result.timestamp);
+      if (!label) continue;
+
+      const actual = LABEL_MODES[label.mode];
+      if (!actual) {
+        unsupportedPoints++;
+        continue;
+      }
+      confusion[actual][result.transportMode]++;
+      scored++;
+    }
+    console.log(`   ✓ ${sensorId}: ${scored} labelled points scored`);
+  }
+
+  const report = buildReport(confusion, trajectories, unsupportedPoints);
+  printReport(report);
+
+  if (JSON_FILE) {
+    fs.writeFileSync(JSON_FILE, JSON.stringify(report, null, 2));
+    console.log(`\n💾 Report written to ${JSON_FILE}`);
+  }
+}
+
+// Run
+main().catch((err) => {
+  console.error("💥 Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,304 @@
+/**
+ * Geolife Dataset Access
+ * Trajectory discovery and PLT / labels.txt parsing for the ./archive copy
+ * of Geolife, shared by the replay and evaluation commands
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { dirname } from "path";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const ARCHIVE_DIR = path.join(__dirname, "../archive");
+
+/**
+ * Parse trajectory selection arguments
+ * --users 000,001,002 or --sensors 20081023025304,20081024020959, or bare IDs
+ * (3 digits = user ID, 14 digits = sensor ID)
+ */
+export function parseTrajectoryArgs(args: string[]): {
+  userIds: string[];
+  sensorIds: string[];
+} {
+  const userIds: string[] = [];
+  const sensorIds: string[] = [];
+
+  // Parse arguments: --users 000,001,002 or --sensors 20081023025304,20081024020959
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--users" || args[i] === "-u") {
+      i++;
+      while (i < args.length && !args[i].startsWith("-")) {
+        // Split comma-separated values and spaces
+        const ids = args[i]
+          .split(/[,\s]+/)
+          .map((id) => id.trim())
+          .filter((id) => id);
+        userIds.push(...ids);
+        i++;
+      }
+      i--; // Back up one since loop will increment
+    } else if (args[i] === "--sensors" || args[i] === "-s") {
+      i++;
+      while (i < args.length && !args[i].startsWith("-")) {
+        // Split comma-separated values and spaces
+        const ids = args[i]
+          .split(/[,\s]+/)
+          .map((id) => id.trim())
+          .filter((id) => id);
+        sensorIds.push(...ids);
+        i++;
+      }
+      i--; // Back up one since loop will increment
+    } else if (!args[i].startsWith("-")) {
+      // Auto-detect: 3 digits = user ID, 14 digits = sensor ID
+      // Also handle space-separated values within a single argument
+      const ids = args[i].split(/[,\s]+/).filter((id) => id.trim());
+      for (const id of ids) {
+        const trimmedId = id.trim();
+        if (/^\d{3}$/.test(trimmedId)) {
+          userIds.push(trimmedId);
+        } else if (/^\d{14}$/.test(trimmedId)) {
+          sensorIds.push(trimmedId);
+        } else {
+          console.warn(
+            `⚠️  Unknown argument format: ${trimmedId} (expected 3-digit user ID or 14-digit sensor ID)`
+          );
+        }
+      }
+    }
+  }
+
+  return { userIds, sensorIds };
+}
+
+/**
+ * Directory holding the user folders ("Geolife Trajectories 1.3/Data" if the
+ * archive was extracted as shipped, otherwise the archive itself)
+ */
+export function geolifeDataDir(): string {
+  const geolifeDataDir = path.join(
+    ARCHIVE_DIR,
+    "Geolife Trajectories 1.3",
+    "Data"
+  );
+  return fs.existsSync(geolifeDataDir) ? geolifeDataDir : ARCHIVE_DIR;
+}
+
+// Geolife altitude is in feet, -777 when not valid
+const FEET_TO_METERS = 0.3048;
+const INVALID_ALTITUDE = -777;
+
+export interface GPSPoint {
+  lat: number;
+  lon: number;
+  altitude: number; // meters (NaN when not valid)
+  timestamp: number;
+  dateTime: string;
+}
+
+export interface Trajectory {
+  userId: string;
+  trajectoryId: string;
+  points: GPSPoint[];
+}
+
+export interface TrajectoryFile {
+  userId: string;
+  trajectoryId: string;
+  filePath: string;
+  pointCount: number;
+}
+
+/**
+ * Parse Geolife PLT file
+ * Format: lat,lon,0,altitude(feet),days,date,time
+ */
+export function parsePltFile(filePath: string): GPSPoint[] {
+  const content = fs.readFileSync(filePath, "utf-8");
+  const lines = content.split("\n");
+  const points: GPSPoint[] = [];
+
+  // Skip header lines (first 6 lines)
+  for (let i = 6; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const parts = line.split(",");
+    if (parts.length < 7) continue;
+
+    const lat = parseFloat(parts[0]);
+    const lon = parseFloat(parts[1]);
+    const altitudeFeet = parseFloat(parts[3]);
+    const altitude =
+      altitudeFeet === INVALID_ALTITUDE ? NaN : altitudeFeet * FEET_TO_METERS;
+    const date = parts[5];
+    const time = parts[6];
+
+    // Parse datetime to Unix timestamp
+    const dateTime = `${date} ${time}`;
+    const timestamp = new Date(dateTime).getTime();
+
+    if (!isNaN(lat) && !isNaN(lon) && !isNaN(timestamp)) {
+      points.push({ lat, lon, altitude, timestamp, dateTime });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Scan trajectories from archive directory (returns file paths, not loaded data)
+ */
+export function scanTrajectories(
+  userIds: string[] = [],
+  sensorIds: string[] = []
+): TrajectoryFile[] {
+  const trajectoryFiles: TrajectoryFile[] = [];
+
+  try {
+    // Check if archive directory exists
+    if (!fs.existsSync(ARCHIVE_DIR)) {
+      console.error(`❌ Archive directory not found: ${ARCHIVE_DIR}`);
+      console.log("📥 Please download Geolife dataset and place in ./archive/");
+      return [];
+    }
+
+    const dataDir = geolifeDataDir();
+
+    console.log(`📂 Scanning: ${dataDir}`);
+
+    // Find user directories (000, 001, 002, etc.)
+    const entries = fs.readdirSync(dataDir);
+    let userDirs = entries.filter((entry) => {
+      const fullPath = path.join(dataDir, entry);
+      return fs.statSync(fullPath).isDirectory() && /^\d{3}$/.test(entry);
+    });
+
+    // Filter by specified user IDs if provided
+    if (userIds.length > 0) {
+      userDirs = userDirs.filter((dir) => userIds.includes(dir));
+      console.log(`🎯 Filtering to users: ${userIds.join(", ")}`);
+
+      if (userDirs.length === 0) {
+        console.error(
+          `❌ No matching user directories found for: ${userIds.join(", ")}`
+        );
+        return [];
+      }
+    }
+
+    console.log(`📂 Found ${userDirs.length} user directories`);
+
+    if (sensorIds.length > 0) {
+      console.log(`🎯 Filtering to sensors: ${sensorIds.join(", ")}\n`);
+    } else {
+      console.log(`📊 Loading all available sensors\n`);
+    }
+
+    for (const userId of userDirs) {
+      const trajectoryDir = path.join(dataDir, userId, "Trajectory");
+      if (!fs.existsSync(trajectoryDir)) {
+        console.warn(`⚠️  No Trajectory folder found for user ${userId}`);
+        continue;
+      }
+
+      let pltFiles = fs
+        .readdirSync(trajectoryDir)
+        .filter((file) => file.endsWith(".plt"));
+
+      // Filter by sensor IDs if specified
+      if (sensorIds.length > 0) {
+        pltFiles = pltFiles.filter((file) => {
+          const sensorId = file.replace(".plt", "");
+          return sensorIds.includes(sensorId);
+        });
+      }
+
+      console.log(`📁 User ${userId}: Found ${pltFiles.length} sensor files`);
+
+      for (const pltFile of pltFiles) {
+        const filePath = path.join(trajectoryDir, pltFile);
+
+        // Quick count of points without parsing full data
+        const content = fs.readFileSync(filePath, "utf-8");
+        const lineCount = content.split("\n").length - 7; // Subtract 6 header lines + 1
+        const pointCount = Math.max(0, lineCount);
+
+        if (pointCount > 10) {
+          // Only include trajectories with enough points
+          trajectoryFiles.push({
+            userId,
+            trajectoryId: pltFile.replace(".plt", ""),
+            filePath,
+            pointCount,
+          });
+          console.log(
+            `   ✓ Found ${pltFile.replace(".plt", "")} (${pointCount} points)`
+          );
+        } else {
+          console.log(
+            `   ⚠ Skipped ${pltFile.replace(
+              ".plt",
+              ""
+            )} (only ${pointCount} points)`
+          );
+        }
+      }
+    }
+
+    console.log(`\n✅ Found ${trajectoryFiles.length} trajectories total`);
+  } catch (err) {
+    console.error("❌ Error scanning trajectories:", err);
+  }
+
+  return trajectoryFiles;
+}
+
+export interface ModeLabel {
+  startTime: number; // ms
+  endTime: number; // ms
+  mode: string; // walk, bike, bus, car, taxi, subway, train, ...
+}
+
+/**
+ * Parse a user's labels.txt (transportation mode intervals)
+ * Format: Start Time<TAB>End Time<TAB>Transportation Mode, one header line
+ * Returns an empty list for users without labels
+ */
+export function loadLabels(userId: string): ModeLabel[] {
+  const filePath = path.join(geolifeDataDir(), userId, "labels.txt");
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const labels: ModeLabel[] = [];
+  const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+  for (let i = 1; i < lines.length; i++) {
+    const parts = lines[i].trim().split("\t");
+    if (parts.length < 3) continue;
+
+    // Same local-time parsing as the PLT timestamps, so the two line up
+    const startTime = new Date(parts[0]).getTime();
+    const endTime = new Date(parts[1]).getTime();
+    if (!isNaN(startTime) && !isNaN(endTime)) {
+      labels.push({ startTime, endTime, mode: parts[2].trim() });
+    }
+  }
+
+  return labels.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Label covering a timestamp (undefined if the time is unlabelled)
+ */
+export function labelAt(
+  labels: ModeLabel[],
+  timestamp: number
+): ModeLabel | undefined {
+  return labels.find(
+    (label) => timestamp >= label.startTime && timestamp <= label.endTime
+  );
+}
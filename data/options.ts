@@ -0,0 +1,60 @@
+/**
+ * Command-line Options
+ * "--name value" option parsing shared by the evaluation and tuning commands
+ */
+
+/**
+ * Value following --name (undefined when absent)
+ */
+export function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Non-negative numeric option (exits with an error on anything else)
+ */
+export function numberOption(
+  args: string[],
+  name: string,
+  fallback: number
+): number {
+  const value = option(args, name);
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.error(`❌ --${name} must be a non-negative number`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Comma-separated option (undefined when absent)
+ */
+export function listOption(args: string[], name: string): string[] | undefined {
+  return option(args, name)?.split(",").filter(Boolean);
+}
+
+/**
+ * Arguments with the given options (and their values) and flags removed,
+ * e.g. to pass the rest on to parseTrajectoryArgs
+ */
+export function withoutOptions(
+  args: string[],
+  names: string[],
+  flags: string[] = []
+): string[] {
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const name = args[i].startsWith("--") ? args[i].slice(2) : undefined;
+    if (name && names.includes(name)) {
+      i++; // skip the value
+    } else if (!(name && flags.includes(name))) {
+      rest.push(args[i]);
+    }
+  }
+  return rest;
+}
@@ -3,248 +3,28 @@
  * Loads GPS trajectories and streams them to Redis for real-time processing
  */
 
-import fs from "fs";
-import path from "path";
 import Redis from "ioredis";
-import { fileURLToPath } from "url";
-import { dirname } from "path";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import {
+  parsePltFile,
+  parseTrajectoryArgs,
+  scanTrajectories,
+  type TrajectoryFile,
+} from "./geolife.js";
 
 // Configuration
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
 const INPUT_STREAM = "gps:raw";
-const ARCHIVE_DIR = path.join(__dirname, "../archive");
 const REPLAY_SPEED = parseFloat(process.env.REPLAY_SPEED || "30"); // 30x real-time
 const BATCH_SIZE = 10; // Process N trajectories at a time to avoid memory overflow
 
 // Parse command-line arguments
 const args = process.argv.slice(2);
-const USER_IDS: string[] = [];
-const SENSOR_IDS: string[] = [];
-
-// Parse arguments: --users 000,001,002 or --sensors 20081023025304,20081024020959
-for (let i = 0; i < args.length; i++) {
-  if (args[i] === "--users" || args[i] === "-u") {
-    i++;
-    while (i < args.length && !args[i].startsWith("-")) {
-      // Split comma-separated values and spaces
-      const ids = args[i]
-        .split(/[,\s]+/)
-        .map((id) => id.trim())
-        .filter((id) => id);
-      USER_IDS.push(...ids);
-      i++;
-    }
-    i--; // Back up one since loop will increment
-  } else if (args[i] === "--sensors" || args[i] === "-s") {
-    i++;
-    while (i < args.length && !args[i].startsWith("-")) {
-      // Split comma-separated values and spaces
-      const ids = args[i]
-        .split(/[,\s]+/)
-        .map((id) => id.trim())
-        .filter((id) => id);
-      SENSOR_IDS.push(...ids);
-      i++;
-    }
-    i--; // Back up one since loop will increment
-  } else if (!args[i].startsWith("-")) {
-    // Auto-detect: 3 digits = user ID, 14 digits = sensor ID
-    // Also handle space-separated values within a single argument
-    const ids = args[i].split(/[,\s]+/).filter((id) => id.trim());
-    for (const id of ids) {
-      const trimmedId = id.trim();
-      if (/^\d{3}$/.test(trimmedId)) {
-        USER_IDS.push(trimmedId);
-      } else if (/^\d{14}$/.test(trimmedId)) {
-        SENSOR_IDS.push(trimmedId);
-      } else {
-        console.warn(
-          `⚠️  Unknown argument format: ${trimmedId} (expected 3-digit user ID or 14-digit sensor ID)`
-        );
-      }
-    }
-  }
-}
+const { userIds: USER_IDS, sensorIds: SENSOR_IDS } = parseTrajectoryArgs(args);
 
 // Debug output
 console.log(`🔍 Parsed USER_IDS: [${USER_IDS.join(", ")}]`);
 console.log(`🔍 Parsed SENSOR_IDS: [${SENSOR_IDS.join(", ")}]\n`);
 
-interface GPSPoint {
-  lat: number;
-  lon: number;
-  altitude: number;
-  timestamp: number;
-  dateTime: string;
-}
-
-interface Trajectory {
-  userId: string;
-  trajectoryId: string;
-  points: GPSPoint[];
-}
-
-interface TrajectoryFile {
-  userId: string;
-  trajectoryId: string;
-  filePath: string;
-  pointCount: number;
-}
-
-/**
- * Parse Geolife PLT file
- * Format: lat,lon,0,altitude,days,date,time
- */
-function parsePltFile(filePath: string): GPSPoint[] {
-  const content = fs.readFileSync(filePath, "utf-8");
-  const lines = content.split("\n");
-  const points: GPSPoint[] = [];
-
-  // Skip header lines (first 6 lines)
-  for (let i = 6; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const parts = line.split(",");
-    if (parts.length < 7) continue;
-
-    const lat = parseFloat(parts[0]);
-    const lon = parseFloat(parts[1]);
-    const altitude = parseFloat(parts[3]);
-    const date = parts[5];
-    const time = parts[6];
-
-    // Parse datetime to Unix timestamp
-    const dateTime = `${date} ${time}`;
-    const timestamp = new Date(dateTime).getTime();
-
-    if (!isNaN(lat) && !isNaN(lon) && !isNaN(timestamp)) {
-      points.push({ lat, lon, altitude, timestamp, dateTime });
-    }
-  }
-
-  return points;
-}
-
-/**
- * Scan trajectories from archive directory (returns file paths, not loaded data)
- */
-function scanTrajectories(
-  userIds: string[] = [],
-  sensorIds: string[] = []
-): TrajectoryFile[] {
-  const trajectoryFiles: TrajectoryFile[] = [];
-
-  try {
-    // Check if archive directory exists
-    if (!fs.existsSync(ARCHIVE_DIR)) {
-      console.error(`❌ Archive directory not found: ${ARCHIVE_DIR}`);
-      console.log("📥 Please download Geolife dataset and place in ./archive/");
-      return [];
-    }
-
-    // Check for "Geolife Trajectories 1.3/Data" structure
-    const geolifeDataDir = path.join(
-      ARCHIVE_DIR,
-      "Geolife Trajectories 1.3",
-      "Data"
-    );
-    const dataDir = fs.existsSync(geolifeDataDir)
-      ? geolifeDataDir
-      : ARCHIVE_DIR;
-
-    console.log(`📂 Scanning: ${dataDir}`);
-
-    // Find user directories (000, 001, 002, etc.)
-    const entries = fs.readdirSync(dataDir);
-    let userDirs = entries.filter((entry) => {
-      const fullPath = path.join(dataDir, entry);
-      return fs.statSync(fullPath).isDirectory() && /^\d{3}$/.test(entry);
-    });
-
-    // Filter by specified user IDs if provided
-    if (userIds.length > 0) {
-      userDirs = userDirs.filter((dir) => userIds.includes(dir));
-      console.log(`🎯 Filtering to users: ${userIds.join(", ")}`);
-
-      if (userDirs.length === 0) {
-        console.error(
-          `❌ No matching user directories found for: ${userIds.join(", ")}`
-        );
-        return [];
-      }
-    }
-
-    console.log(`📂 Found ${userDirs.length} user directories`);
-
-    if (sensorIds.length > 0) {
-      console.log(`🎯 Filtering to sensors: ${sensorIds.join(", ")}\n`);
-    } else {
-      console.log(`📊 Loading all available sensors\n`);
-    }
-
-    for (const userId of userDirs) {
-      const trajectoryDir = path.join(dataDir, userId, "Trajectory");
-      if (!fs.existsSync(trajectoryDir)) {
-        console.warn(`⚠️  No Trajectory folder found for user ${userId}`);
-        continue;
-      }
-
-      let pltFiles = fs
-        .readdirSync(trajectoryDir)
-        .filter((file) => file.endsWith(".plt"));
-
-      // Filter by sensor IDs if specified
-      if (sensorIds.length > 0) {
-        pltFiles = pltFiles.filter((file) => {
-          const sensorId = file.replace(".plt", "");
-          return sensorIds.includes(sensorId);
-        });
-      }
-
-      console.log(`📁 User ${userId}: Found ${pltFiles.length} sensor files`);
-
-      for (const pltFile of pltFiles) {
-        const filePath = path.join(trajectoryDir, pltFile);
-
-        // Quick count of points without parsing full data
-        const content = fs.readFileSync(filePath, "utf-8");
-        const lineCount = content.split("\n").length - 7; // Subtract 6 header lines + 1
-        const pointCount = Math.max(0, lineCount);
-
-        if (pointCount > 10) {
-          // Only include trajectories with enough points
-          trajectoryFiles.push({
-            userId,
-            trajectoryId: pltFile.replace(".plt", ""),
-            filePath,
-            pointCount,
-          });
-          console.log(
-            `   ✓ Found ${pltFile.replace(".plt", "")} (${pointCount} points)`
-          );
-        } else {
-          console.log(
-            `   ⚠ Skipped ${pltFile.replace(
-              ".plt",
-              ""
-            )} (only ${pointCount} points)`
-          );
-        }
-      }
-    }
-
-    console.log(`\n✅ Found ${trajectoryFiles.length} trajectories total`);
-  } catch (err) {
-    console.error("❌ Error scanning trajectories:", err);
-  }
-
-  return trajectoryFiles;
-}
-
 /**
  * Load and replay trajectory from file
  */
@@ -285,6 +65,9 @@ async function loadAndReplayTrajectory(
 
     // Send to Redis stream with Unix epoch timestamp
     const currentTimestamp = Date.now(); // Unix epoch in milliseconds
+    const altitudeFields = isNaN(point.altitude)
+      ? []
+      : ["altitude", point.altitude.toString()];
     await redis.xadd(
       INPUT_STREAM,
       "*", // Auto-generate ID
@@ -296,8 +79,7 @@ async function loadAndReplayTrajectory(
       point.lon.toString(),
       "timestamp",
       currentTimestamp.toString(), // Unix epoch (milliseconds)
-      "altitude",
-      point.altitude.toString(),
+      ...altitudeFields, // meters, omitted when the dataset marks it invalid
       "originalTimestamp",
       point.timestamp.toString() // Original dataset timestamp for reference
     );
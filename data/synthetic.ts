@@ -0,0 +1,286 @@
+/**
+ * Synthetic Trajectories
+ * Ground-truth tracks (straight lines, curves, stop-and-go) simulated from
+ * speed / turn-rate legs, and noisy GPS fixes sampled from them with
+ * configurable Gaussian noise, dropouts and outliers. Seeded, so runs are
+ * repeatable. Shared by the accuracy evaluation and tuning commands
+ */
+
+import { fromLocalENU } from "../shared/geo.js";
+import type { GPSPoint } from "../shared/gps-pipeline.js";
+
+// Simulation step and origin (Geolife's Beijing area)
+const SIMULATION_STEP = 0.1; // s
+const ORIGIN_LAT = 39.9842;
+const ORIGIN_LON = 116.3182;
+const START_TIME = Date.UTC(2024, 0, 1);
+
+// Truth speed above which the sensor counts as moving (m/s)
+const MOVING_SPEED = 0.05;
+
+interface Leg {
+  duration: number; // s
+  speed: number; // target speed (m/s), reached at the scenario's acceleration
+  turnRate?: number; // deg/s (positive = right turn)
+}
+
+interface ScenarioDefinition {
+  description: string;
+  acceleration: number; // m/s²
+  legs: Leg[];
+}
+
+export const SCENARIOS: Record<string, ScenarioDefinition> = {
+  line: {
+    description: "straight line at 14 m/s between two stops",
+    acceleration: 1.5,
+    legs: [
+      { duration: 20, speed: 0 },
+      { duration: 120, speed: 14 },
+      { duration: 30, speed: 0 },
+    ],
+  },
+  curve: {
+    description: "S-curves at 10 m/s (150 m radius)",
+    acceleration: 1.5,
+    legs: [
+      { duration: 10, speed: 0 },
+      { duration: 20, speed: 10 },
+      { duration: 45, speed: 10, turnRate: 3.8 },
+      { duration: 45, speed: 10, turnRate: -3.8 },
+      { duration: 20, speed: 10 },
+      { duration: 20, speed: 0 },
+    ],
+  },
+  stops: {
+    description: "stop-and-go at 8 m/s with 45 s stops",
+    acceleration: 2,
+    legs: [
+      { duration: 15, speed: 0 },
+      { duration: 60, speed: 8 },
+      { duration: 45, speed: 0 },
+      { duration: 60, speed: 8, turnRate: 1 },
+      { duration: 45, speed: 0 },
+      { duration: 60, speed: 8 },
+      { duration: 30, speed: 0 },
+    ],
+  },
+  walk: {
+    description: "walking at 1.4 m/s with turns and a pause",
+    acceleration: 0.5,
+    legs: [
+      { duration: 15, speed: 0 },
+      { duration: 90, speed: 1.4 },
+      { duration: 30, speed: 1.4, turnRate: 3 },
+      { duration: 60, speed: 0 },
+      { duration: 90, speed: 1.4, turnRate: -1 },
+      { duration: 20, speed: 0 },
+    ],
+  },
+};
+
+export interface NoiseOptions {
+  sampleInterval: number; // s between fixes
+  sigma: number; // horizontal noise per axis (m, 1σ)
+  dropoutRate: number; // chance per fix that a dropout starts
+  dropoutSeconds: number; // length of each dropout (s)
+  outlierRate: number; // chance per fix of an outlier
+  outlierDistance: number; // outlier displacement (m)
+  seed: number;
+}
+
+export const DEFAULT_NOISE: NoiseOptions = {
+  sampleInterval: 1,
+  sigma: 5,
+  dropoutRate: 0.01,
+  dropoutSeconds: 10,
+  outlierRate: 0.01,
+  outlierDistance: 200,
+  seed: 1,
+};
+
+export interface TruthTrack {
+  // Sampled every SIMULATION_STEP, in a local ENU frame around the origin
+  timestamps: number[]; // ms
+  east: number[];
+  north: number[];
+  speed: number[];
+}
+
+export interface TruthSample {
+  lat: number;
+  lon: number;
+  east: number;
+  north: number;
+  speed: number;
+  isMoving: boolean;
+}
+
+export interface SyntheticRun {
+  scenario: string;
+  description: string;
+  truth: TruthTrack;
+  fixes: GPSPoint[];
+
+  // Whether each fix was displaced as an outlier
+  outliers: boolean[];
+}
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Simulate a scenario's ground truth
+ */
+export function simulateScenario(definition: ScenarioDefinition): TruthTrack {
+  const track: TruthTrack = { timestamps: [], east: [], north: [], speed: [] };
+  let east = 0;
+  let north = 0;
+  let speed = 0;
+  let heading = 90; // start heading east
+  let time = 0;
+
+  for (const leg of definition.legs) {
+    const steps = Math.round(leg.duration / SIMULATION_STEP);
+    for (let i = 0; i < steps; i++) {
+      track.timestamps.push(START_TIME + Math.round(time * 1000));
+      track.east.push(east);
+      track.north.push(north);
+      track.speed.push(speed);
+
+      // Approach the leg's speed at the scenario's acceleration
+      const change = definition.acceleration * SIMULATION_STEP;
+      speed += Math.max(Math.min(leg.speed - speed, change), -change);
+
+      if (speed > 0) {
+        heading += (leg.turnRate ?? 0) * SIMULATION_STEP;
+      }
+      const radians = (heading * Math.PI) / 180;
+      east += speed * Math.sin(radians) * SIMULATION_STEP;
+      north += speed * Math.cos(radians) * SIMULATION_STEP;
+      time += SIMULATION_STEP;
+    }
+  }
+
+  return track;
+}
+
+/**
+ * Ground truth at a timestamp (linear interpolation, clamped to the track)
+ */
+export function truthAt(track: TruthTrack, timestamp: number): TruthSample {
+  const { timestamps } = track;
+  const position = Math.min(
+    Math.max((timestamp - timestamps[0]) / (SIMULATION_STEP * 1000), 0),
+    timestamps.length - 1
+  );
+  const i = Math.min(Math.floor(position), timestamps.length - 2);
+  const t = position - i;
+  const east = track.east[i] + t * (track.east[i + 1] - track.east[i]);
+  const north = track.north[i] + t * (track.north[i + 1] - track.north[i]);
+  const speed = track.speed[i] + t * (track.speed[i + 1] - track.speed[i]);
+
+  return {
+    ...fromLocalENU(ORIGIN_LAT, ORIGIN_LON, east, north),
+    east,
+    north,
+    speed,
+    isMoving: speed > MOVING_SPEED,
+  };
+}
+
+/**
+ * Sample noisy GPS fixes from a ground-truth track
+ */
+export function sampleFixes(
+  track: TruthTrack,
+  noise: NoiseOptions,
+  random: () => number
+): { fixes: GPSPoint[]; outliers: boolean[] } {
+  const fixes: GPSPoint[] = [];
+  const outliers: boolean[] = [];
+  const start = track.timestamps[0];
+  const end = track.timestamps[track.timestamps.length - 1];
+  let dropoutUntil = -Infinity;
+
+  for (
+    let timestamp = start;
+    timestamp <= end;
+    timestamp += noise.sampleInterval * 1000
+  ) {
+    if (timestamp < dropoutUntil) continue;
+    if (random() < noise.dropoutRate) {
+      dropoutUntil = timestamp + noise.dropoutSeconds * 1000;
+      continue;
+    }
+
+    const truth = truthAt(track, timestamp);
+    let east = truth.east + noise.sigma * gaussian(random);
+    let north = truth.north + noise.sigma * gaussian(random);
+    const outlier = random() < noise.outlierRate;
+    if (outlier) {
+      const direction = 2 * Math.PI * random();
+      east += noise.outlierDistance * Math.sin(direction);
+      north += noise.outlierDistance * Math.cos(direction);
+    }
+
+    fixes.push({
+      ...fromLocalENU(ORIGIN_LAT, ORIGIN_LON, east, north),
+      timestamp,
+    });
+    outliers.push(outlier);
+  }
+
+  return { fixes, outliers };
+}
+
+/**
+ * Generate the selected scenarios (all by default) with noisy fixes
+ * Each scenario draws from its own seeded stream, so adding or removing a
+ * scenario does not change the others' noise
+ */
+export function generateRuns(
+  noise: NoiseOptions = DEFAULT_NOISE,
+  scenarios: string[] = Object.keys(SCENARIOS)
+): SyntheticRun[] {
+  return scenarios.map((scenario) => {
+    const definition = SCENARIOS[scenario];
+    if (!definition) {
+      throw new Error(
+        `Unknown scenario "${scenario}" (expected ${Object.keys(SCENARIOS).join(
+          ", "
+        )})`
+      );
+    }
+
+    const truth = simulateScenario(definition);
+    const random = createRandom(
+      noise.seed * 7919 + Object.keys(SCENARIOS).indexOf(scenario)
+    );
+    return {
+      scenario,
+      description: definition.description,
+      truth,
+      ...sampleFixes(truth, noise, random),
+    };
+  });
+}
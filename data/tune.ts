@@ -0,0 +1,424 @@
+/**
+ * Kalman Parameter Tuning
+ * Searches processNoise, measurementNoise, initialError, velocityWindowSize
+ * and movementThreshold for a base profile and writes the best-found values
+ * as a profile to a config file the pipeline can load (GPS_CONFIG_PATH).
+ *
+ * Objectives (lower is better, see objectiveScore in accuracy.ts):
+ *   synthetic  synthetic ground-truth trajectories with injected noise
+ *   rts        recorded Geolife trajectories, scored against an RTS-smoothed
+ *              reference computed once with the base profile
+ *
+ * Search:
+ *   random     log-uniform exploration for the first third of the iterations,
+ *              then perturbations of the best candidate with a shrinking step
+ *   grid       every combination of a coarse grid (slow: 576 candidates)
+ *
+ * The base profile's own values are always evaluated first, so the written
+ * profile is never worse than the base on the chosen objective.
+ *
+ * Usage: npm run tune -- [--profile car] [--objective synthetic|rts] [--search random|grid]
+ *          [--iterations 60] [--seed 1] [--name car-tuned] [--output config/gps-pipeline.tuned.json]
+ *          [synthetic: --scenarios line,curve --sigma 5 --interval 1 --dropout 0.01 --outliers 0.01]
+ *          [rts: user/sensor IDs as for replay]
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { dirname } from "path";
+import {
+  GPSPipeline,
+  type GPSPoint,
+  type ProcessedGPS,
+} from "../shared/gps-pipeline.js";
+import {
+  applyProfile,
+  loadConfigFile,
+  resolveProfile,
+  type GPSConfigFile,
+  type GPSPipelineConfig,
+  type GPSProfileOverrides,
+} from "../shared/pipeline-config.js";
+import { createAppState } from "../shared/state-manager.js";
+import {
+  combineMetrics,
+  evaluateConfig,
+  objectiveScore,
+  scoreAgainstReference,
+  type AccuracyMetrics,
+} from "./accuracy.js";
+import {
+  parsePltFile,
+  parseTrajectoryArgs,
+  scanTrajectories,
+} from "./geolife.js";
+import { listOption, numberOption, option, withoutOptions } from "./options.js";
+import {
+  DEFAULT_NOISE,
+  SCENARIOS,
+  createRandom,
+  gaussian,
+  generateRuns,
+  type NoiseOptions,
+} from "./synthetic.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DEFAULT_OUTPUT = path.join(
+  __dirname,
+  "../config/gps-pipeline.tuned.json"
+);
+
+// isMoving hysteresis around the tuned movementThreshold (enter / exit
+// speeds as multiples of it, the spacing of the default profile)
+const ENTER_RATIO = 1.4;
+const EXIT_RATIO = 0.6;
+
+// Random search: share of iterations spent exploring, and the perturbation
+// step (fraction of each log range) at the start and end of refinement
+const EXPLORE_SHARE = 1 / 3;
+const START_STEP = 0.25;
+const END_STEP = 0.03;
+
+type TunedParameter =
+  | "processNoise"
+  | "measurementNoise"
+  | "initialError"
+  | "velocityWindowSize"
+  | "movementThreshold";
+
+type TunedValues = Record<TunedParameter, number>;
+
+interface ParameterRange {
+  min: number;
+  max: number;
+  grid: number[];
+  odd?: boolean; // window sizes stay odd (centred filters)
+}
+
+const PARAMETERS: Record<TunedParameter, ParameterRange> = {
+  processNoise: { min: 0.05, max: 20, grid: [0.2, 1, 4, 10] }, // m²/s³
+  measurementNoise: { min: 4, max: 400, grid: [9, 25, 64, 144] }, // m²
+  initialError: { min: 10, max: 1000, grid: [25, 100, 400] }, // m²
+  velocityWindowSize: { min: 1, max: 15, grid: [3, 5, 9], odd: true },
+  movementThreshold: { min: 0.1, max: 3, grid: [0.3, 0.5, 1, 1.5] }, // m/s
+};
+
+const PARAMETER_NAMES = Object.keys(PARAMETERS) as TunedParameter[];
+
+interface Trial {
+  values: TunedValues;
+  metrics: AccuracyMetrics;
+  score: number;
+}
+
+// Parse command-line arguments
+const args = process.argv.slice(2);
+const VALUE_OPTIONS = [
+  "profile",
+  "objective",
+  "search",
+  "iterations",
+  "seed",
+  "name",
+  "output",
+  "scenarios",
+  "sigma",
+  "interval",
+  "dropout",
+  "outliers",
+];
+const OBJECTIVE = option(args, "objective") ?? "synthetic";
+const SEARCH = option(args, "search") ?? "random";
+const ITERATIONS = Math.max(
+  Math.round(numberOption(args, "iterations", 60)),
+  1
+);
+const SEED = numberOption(args, "seed", DEFAULT_NOISE.seed);
+const OUTPUT = option(args, "output") ?? DEFAULT_OUTPUT;
+const NOISE: NoiseOptions = {
+  ...DEFAULT_NOISE,
+  sampleInterval: numberOption(args, "interval", DEFAULT_NOISE.sampleInterval),
+  sigma: numberOption(args, "sigma", DEFAULT_NOISE.sigma),
+  dropoutRate: numberOption(args, "dropout", DEFAULT_NOISE.dropoutRate),
+  outlierRate: numberOption(args, "outliers", DEFAULT_NOISE.outlierRate),
+  seed: SEED,
+};
+
+/**
+ * Round to 3 significant digits (odd integers for window sizes)
+ */
+function roundValue(parameter: TunedParameter, value: number): number {
+  const { min, max, odd } = PARAMETERS[parameter];
+  const clamped = Math.min(Math.max(value, min), max);
+  if (odd) {
+    return Math.min(Math.round((clamped - 1) / 2) * 2 + 1, max);
+  }
+  return Number(clamped.toPrecision(3));
+}
+
+/**
+ * Profile overrides for a set of tuned values
+ */
+function overridesFor(values: TunedValues): GPSProfileOverrides {
+  return {
+    kalman: {
+      processNoise: values.processNoise,
+      measurementNoise: values.measurementNoise,
+      initialError: values.initialError,
+    },
+    velocityWindowSize: values.velocityWindowSize,
+    movementThreshold: values.movementThreshold,
+    movement: {
+      enterThreshold: Number(
+        (values.movementThreshold * ENTER_RATIO).toFixed(2)
+      ),
+      exitThreshold: Number((values.movementThreshold * EXIT_RATIO).toFixed(2)),
+    },
+  };
+}
+
+/**
+ * Objective for one candidate configuration
+ */
+type Objective = (config: GPSPipelineConfig) => Promise<AccuracyMetrics>;
+
+function syntheticObjective(): Objective {
+  const scenarios = listOption(args, "scenarios") ?? Object.keys(SCENARIOS);
+  const runs = generateRuns(NOISE, scenarios);
+  console.log(
+    `🧪 Objective: synthetic truth (${runs.length} scenarios, σ=${NOISE.sigma} m, seed ${NOISE.seed})`
+  );
+
+  return async (config) => combineMetrics(await evaluateConfig(config, runs));
+}
+
+async function rtsObjective(base: GPSPipelineConfig): Promise<Objective> {
+  const selection = parseTrajectoryArgs(withoutOptions(args, VALUE_OPTIONS));
+  if (selection.userIds.length === 0 && selection.sensorIds.length === 0) {
+    console.error(
+      "❌ Select trajectories (user or sensor IDs) for the rts objective"
+    );
+    process.exit(1);
+  }
+
+  // Reference: offline RTS pass with the base profile, computed once
+  const tracks: {
+    sensorId: string;
+    points: GPSPoint[];
+    reference: ProcessedGPS[];
+  }[] = [];
+  for (const { userId, trajectoryId, filePath } of scanTrajectories(
+    selection.userIds,
+    selection.sensorIds
+  )) {
+    const sensorId = `${userId}-${trajectoryId}`;
+    const points: GPSPoint[] = parsePltFile(filePath).map((point) => ({
+      lat: point.lat,
+      lon: point.lon,
+      altitude: isNaN(point.altitude) ? undefined : point.altitude,
+      timestamp: point.timestamp,
+    }));
+    if (points.length < 2) continue;
+
+    const reference = await new GPSPipeline(base).processBatch(
+      points,
+      createAppState(0, 0, 0, base.velocityWindowSize),
+      sensorId,
+      { smoothing: "rts" }
+    );
+    tracks.push({ sensorId, points, reference });
+    console.log(`   ✓ ${sensorId}: ${points.length} fixes`);
+  }
+  if (tracks.length === 0) {
+    console.error("❌ No trajectories found. Exiting.");
+    process.exit(1);
+  }
+  console.log(`🧪 Objective: RTS reference (${tracks.length} trajectories)`);
+
+  return async (config) => {
+    const metrics: AccuracyMetrics[] = [];
+    for (const track of tracks) {
+      const results = await new GPSPipeline(config).processBatch(
+        track.points,
+        createAppState(0, 0, 0, config.velocityWindowSize),
+        track.sensorId
+      );
+      metrics.push(
+        scoreAgainstReference(track.points, track.reference, results)
+      );
+    }
+    return combineMetrics(metrics);
+  };
+}
+
+/**
+ * Candidates to evaluate (the base values come first)
+ */
+function* gridCandidates(): Generator<TunedValues> {
+  const combine = function* (
+    index: number,
+    values: Partial<TunedValues>
+  ): Generator<TunedValues> {
+    if (index === PARAMETER_NAMES.length) {
+      yield values as TunedValues;
+      return;
+    }
+    const parameter = PARAMETER_NAMES[index];
+    for (const value of PARAMETERS[parameter].grid) {
+      yield* combine(index + 1, { ...values, [parameter]: value });
+    }
+  };
+  yield* combine(0, {});
+}
+
+function randomCandidate(
+  random: () => number,
+  best: TunedValues | null,
+  step: number
+): TunedValues {
+  const values = {} as TunedValues;
+  for (const parameter of PARAMETER_NAMES) {
+    const { min, max } = PARAMETERS[parameter];
+    const logMin = Math.log(min);
+    const logRange = Math.log(max) - logMin;
+    const logValue = best
+      ? Math.log(best[parameter]) + gaussian(random) * step * logRange
+      : logMin + random() * logRange;
+    values[parameter] = roundValue(parameter, Math.exp(logValue));
+  }
+  return values;
+}
+
+function describe(values: TunedValues): string {
+  return (
+    `q=${values.processNoise} R=${values.measurementNoise} ` +
+    `P0=${values.initialError} window=${values.velocityWindowSize} ` +
+    `threshold=${values.movementThreshold}`
+  );
+}
+
+/**
+ * Write the best values as a profile (base profile overrides kept)
+ */
+function writeProfile(
+  configFile: GPSConfigFile,
+  baseProfile: string,
+  name: string,
+  values: TunedValues
+): void {
+  const document: GPSConfigFile = fs.existsSync(OUTPUT)
+    ? JSON.parse(fs.readFileSync(OUTPUT, "utf-8"))
+    : configFile;
+  const baseOverrides = configFile.profiles[baseProfile] ?? {};
+  const tuned = overridesFor(values);
+
+  document.profiles = {
+    ...document.profiles,
+    [name]: {
+      ...baseOverrides,
+      ...tuned,
+      kalman: { ...baseOverrides.kalman, ...tuned.kalman },
+      movement: { ...baseOverrides.movement, ...tuned.movement },
+    },
+  };
+  fs.writeFileSync(OUTPUT, JSON.stringify(document, null, 2) + "\n");
+}
+
+async function main() {
+  console.log("🎛️  Kalman Parameter Tuning");
+  console.log("==========================\n");
+
+  if (!["synthetic", "rts"].includes(OBJECTIVE)) {
+    console.error('❌ --objective must be "synthetic" or "rts"');
+    process.exit(1);
+  }
+  if (!["random", "grid"].includes(SEARCH)) {
+    console.error('❌ --search must be "random" or "grid"');
+    process.exit(1);
+  }
+
+  const configFile = loadConfigFile();
+  const baseProfile = option(args, "profile") ?? configFile.defaultProfile;
+  const name = option(args, "name") ?? `${baseProfile}-tuned`;
+  const base = resolveProfile(configFile, baseProfile);
+  const objective =
+    OBJECTIVE === "rts" ? await rtsObjective(base) : syntheticObjective();
+
+  const trials: Trial[] = [];
+  const best = () =>
+    trials.reduce((a, b) => (b.score < a.score ? b : a), trials[0]);
+  const evaluate = async (values: TunedValues, label: string) => {
+    const config = applyProfile(base, name, overridesFor(values));
+    const metrics = await objective(config);
+    const trial = { values, metrics, score: objectiveScore(metrics) };
+    const improved = trials.length === 0 || trial.score < best().score;
+    trials.push(trial);
+    console.log(
+      `   ${improved ? "⭐" : "  "} ${label} ${describe(values)} → ` +
+        `score ${trial.score.toFixed(2)} (rmse ${metrics.positionRmse.toFixed(
+          2
+        )} m, speed ${metrics.speedRmse.toFixed(2)} m/s, isMoving ${(
+          metrics.movingAccuracy * 100
+        ).toFixed(1)}%)`
+    );
+  };
+
+  console.log(`\n🔍 Search: ${SEARCH} from profile "${baseProfile}"\n`);
+  const baseValues: TunedValues = {
+    processNoise: base.kalman.processNoise,
+    measurementNoise: base.kalman.measurementNoise,
+    initialError: base.kalman.initialError,
+    velocityWindowSize: base.velocityWindowSize,
+    movementThreshold: base.movementThreshold,
+  };
+  await evaluate(baseValues, "[base]");
+  const baseTrial = trials[0];
+
+  if (SEARCH === "grid") {
+    const total = PARAMETER_NAMES.reduce(
+      (count, parameter) => count * PARAMETERS[parameter].grid.length,
+      1
+    );
+    let index = 0;
+    for (const values of gridCandidates()) {
+      await evaluate(values, `[${++index}/${total}]`);
+    }
+  } else {
+    const random = createRandom(SEED);
+    const explore = Math.ceil(ITERATIONS * EXPLORE_SHARE);
+    for (let i = 0; i < ITERATIONS; i++) {
+      const progress =
+        i < explore ? 0 : (i - explore) / Math.max(ITERATIONS - explore - 1, 1);
+      const step = START_STEP + (END_STEP - START_STEP) * progress;
+      const values = randomCandidate(
+        random,
+        i < explore ? null : best().values,
+        step
+      );
+      await evaluate(values, `[${i + 1}/${ITERATIONS}]`);
+    }
+  }
+
+  const winner = best();
+  console.log(`\n🏆 Best: ${describe(winner.values)}`);
+  console.log(
+    `   Score ${winner.score.toFixed(2)} vs ${baseTrial.score.toFixed(
+      2
+    )} for "${baseProfile}" (${trials.length} candidates)`
+  );
+
+  writeProfile(configFile, baseProfile, name, winner.values);
+  console.log(`\n💾 Profile "${name}" written to ${OUTPUT}`);
+  console.log(
+    `   Load it with GPS_CONFIG_PATH=${OUTPUT} and assign sensors to "${name}"`
+  );
+}
+
+// Run
+main().catch((err) => {
+  console.error("💥 Fatal error:", err);
+  process.exit(1);
+});
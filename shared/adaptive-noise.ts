@@ -0,0 +1,109 @@
+/**
+ * Adaptive Kalman Noise
+ * Learns a sensor's processNoise and measurementNoise online from the
+ * position filter's innovation sequence:
+ *
+ *   R ≈ E[r²] + P⁺      (residual-based, Mohamed & Schwarz 1999;
+ *                        r = post-fit residual, P⁺ = posterior variance)
+ *   E[d² / S] = 1       (d = innovation, S = its predicted variance)
+ *
+ * R is exponentially averaged over `window` fixes. With R accounted for,
+ * innovations larger than predicted (normalized innovation squared above 1)
+ * mean the motion model is too confident, so q is scaled up, and scaled
+ * down when they are smaller. Both start from the profile's values and are
+ * clamped to the configured bounds.
+ */
+
+import type { AdaptiveNoiseConfig, KalmanConfig } from "./pipeline-config.js";
+import type { AxisUpdate } from "./kalman.js";
+
+export interface NoiseEstimate {
+  processNoise: number; // m²/s³
+  measurementNoise: number; // m²
+
+  // Fixes learned from (0 = still using the profile's values)
+  samples: number;
+}
+
+/**
+ * Create an empty estimate (the profile's values apply until the first fix)
+ */
+export function createNoiseEstimate(): NoiseEstimate {
+  return { processNoise: 0, measurementNoise: 0, samples: 0 };
+}
+
+/**
+ * Kalman parameters to filter with: the learned values when adaptive noise
+ * is enabled and has seen a fix, otherwise the profile's
+ */
+export function effectiveKalmanConfig(
+  kalman: KalmanConfig,
+  estimate: NoiseEstimate,
+  config: AdaptiveNoiseConfig,
+): KalmanConfig {
+  if (!config.enabled || estimate.samples === 0) {
+    return kalman;
+  }
+  return {
+    ...kalman,
+    processNoise: estimate.processNoise,
+    measurementNoise: estimate.measurementNoise,
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Fold one fix's innovations (east and north axes) into the estimate
+ * learnMeasurement is false when the fix's variance came from its own
+ * accuracy / HDOP, which says nothing about the profile default
+ */
+export function updateNoiseEstimate(
+  estimate: NoiseEstimate,
+  innovations: { east: AxisUpdate; north: AxisUpdate },
+  kalman: KalmanConfig,
+  config: AdaptiveNoiseConfig,
+  learnMeasurement: boolean,
+): NoiseEstimate {
+  const current = effectiveKalmanConfig(kalman, estimate, {
+    ...config,
+    enabled: true,
+  });
+  const alpha = 1 / Math.max(config.window, 1);
+  const axes = [innovations.east, innovations.north];
+
+  // Multiplicative step on q toward E[d² / S] = 1, once R has had a
+  // window to settle (early innovations mostly reflect a wrong R)
+  let processNoise = current.processNoise;
+  if (estimate.samples >= config.window) {
+    const nis =
+      axes.reduce(
+        (sum, axis) =>
+          sum + (axis.innovation * axis.innovation) / axis.innovationVariance,
+        0,
+      ) / axes.length;
+    processNoise = clamp(
+      processNoise * Math.exp(alpha * (Math.min(nis, 10) - 1)),
+      config.minProcessNoise,
+      config.maxProcessNoise,
+    );
+  }
+
+  let measurementNoise = current.measurementNoise;
+  if (learnMeasurement) {
+    const sample =
+      axes.reduce((sum, axis) => {
+        const residual = (1 - axis.positionGain) * axis.innovation;
+        return sum + residual * residual + axis.axis.p00;
+      }, 0) / axes.length;
+    measurementNoise = clamp(
+      measurementNoise + alpha * (sample - measurementNoise),
+      config.minMeasurementNoise,
+      config.maxMeasurementNoise,
+    );
+  }
+
+  return { processNoise, measurementNoise, samples: estimate.samples + 1 };
+}
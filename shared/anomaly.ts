@@ -0,0 +1,191 @@
+/**
+ * Spoofing / Anomaly Detection
+ * Checks every raw fix against the sensor's previous fixes for signs of GPS
+ * spoofing or device faults, before the outlier gate and Kalman filter:
+ *
+ *   repeatedCoordinates     maxRepeatedFixes fixes in a row at exactly the same
+ *                           coordinates (flagged once per run; real receivers
+ *                           jitter in the last digits)
+ *   impossibleAcceleration  speed change beyond maxAcceleration, with speeds
+ *                           taken over at least 1 s so fix noise at high
+ *                           reporting rates does not read as acceleration
+ *   timestampBackwards      fix older than the newest one seen
+ *   frozenFix               fix with the same timestamp as the previous one
+ *                           (a stale fix resent by the device)
+ *   spoofLocation           jump of at least spoofJumpDistance into a known
+ *                           spoof location (Null Island by default)
+ *
+ * Flagged fixes are still processed; the flags are attached to the sample
+ * carrying the fix and published as anomaly.detected alerts.
+ * Shared by GPSPipeline and the modular position-smoother
+ */
+
+import type { AnomalyConfig } from "./pipeline-config.js";
+import type { AnomalyEvent } from "./events.js";
+import { haversineDistance } from "./geo.js";
+
+// Stable order for the per-sensor counters
+export const ANOMALY_TYPES = [
+  "repeatedCoordinates",
+  "impossibleAcceleration",
+  "timestampBackwards",
+  "frozenFix",
+  "spoofLocation",
+] as const;
+
+export type AnomalyType = (typeof ANOMALY_TYPES)[number];
+
+// Shortest interval a speed is measured over (s)
+const MIN_SPEED_INTERVAL = 1;
+
+export interface AnomalyState {
+  // Newest fix seen (timestamp 0 = none yet)
+  lastLat: number;
+  lastLon: number;
+  lastTimestamp: number;
+
+  // Consecutive fixes at exactly the last coordinates
+  repeatCount: number;
+
+  // Reference fix for speed / acceleration and the speed up to it
+  // (NaN until two reference fixes were seen)
+  refLat: number;
+  refLon: number;
+  refTimestamp: number;
+  refSpeed: number;
+}
+
+export interface AnomalyCheck {
+  state: AnomalyState;
+  anomalies: AnomalyType[];
+
+  // Alert for the fix (null when it looks clean)
+  event: AnomalyEvent | null;
+}
+
+/**
+ * Create empty detector state (new sensor)
+ */
+export function createAnomalyState(): AnomalyState {
+  return {
+    lastLat: 0,
+    lastLon: 0,
+    lastTimestamp: 0,
+    repeatCount: 0,
+    refLat: 0,
+    refLon: 0,
+    refTimestamp: 0,
+    refSpeed: NaN,
+  };
+}
+
+/**
+ * Check one raw fix
+ */
+export function detectAnomalies(
+  state: AnomalyState,
+  lat: number,
+  lon: number,
+  timestamp: number,
+  config: AnomalyConfig,
+): AnomalyCheck {
+  const anomalies: AnomalyType[] = [];
+  const first = state.lastTimestamp === 0;
+  const event: Omit<AnomalyEvent, "anomalies"> = {
+    type: "anomaly.detected",
+    timestamp,
+    lat,
+    lon,
+  };
+
+  // Out-of-order and stale fixes leave the detector state untouched
+  if (!first && timestamp < state.lastTimestamp) {
+    return {
+      state,
+      anomalies: ["timestampBackwards"],
+      event: {
+        ...event,
+        anomalies: ["timestampBackwards"],
+        previousTimestamp: state.lastTimestamp,
+      },
+    };
+  }
+  if (!first && timestamp === state.lastTimestamp) {
+    anomalies.push("frozenFix");
+  }
+
+  // Runs of identical coordinates
+  const identical = !first && lat === state.lastLat && lon === state.lastLon;
+  const repeatCount = identical ? state.repeatCount + 1 : 1;
+  if (repeatCount === config.maxRepeatedFixes) {
+    anomalies.push("repeatedCoordinates");
+    event.repeatedFixes = repeatCount;
+  }
+
+  // Jumps into a known spoof location
+  const jump = first
+    ? Infinity
+    : haversineDistance(state.lastLat, state.lastLon, lat, lon);
+  const spoof = config.spoofLocations.find(
+    (location) =>
+      haversineDistance(location.lat, location.lon, lat, lon) <=
+      location.radius,
+  );
+  if (spoof && jump >= config.spoofJumpDistance) {
+    anomalies.push("spoofLocation");
+    event.spoofLocation = spoof.name;
+  }
+
+  // Acceleration between speeds measured over at least MIN_SPEED_INTERVAL
+  let { refLat, refLon, refTimestamp, refSpeed } = state;
+  const interval = (timestamp - refTimestamp) / 1000;
+  if (first) {
+    refLat = lat;
+    refLon = lon;
+    refTimestamp = timestamp;
+  } else if (interval >= MIN_SPEED_INTERVAL) {
+    const speed = haversineDistance(refLat, refLon, lat, lon) / interval;
+    const acceleration = Math.abs(speed - refSpeed) / interval;
+    if (acceleration > config.maxAcceleration) {
+      anomalies.push("impossibleAcceleration");
+      event.acceleration = acceleration;
+    }
+    refLat = lat;
+    refLon = lon;
+    refTimestamp = timestamp;
+    refSpeed = speed;
+  }
+
+  return {
+    state: {
+      lastLat: lat,
+      lastLon: lon,
+      lastTimestamp: timestamp,
+      repeatCount,
+      refLat,
+      refLon,
+      refTimestamp,
+      refSpeed,
+    },
+    anomalies,
+    event: anomalies.length > 0 ? { ...event, anomalies } : null,
+  };
+}
+
+/**
+ * Encode anomaly flags as a stream field value (comma separated)
+ */
+export function formatAnomalies(anomalies: AnomalyType[]): string {
+  return anomalies.join(",");
+}
+
+/**
+ * Decode anomaly flags from a stream field value (unknown names are ignored)
+ */
+export function parseAnomalies(value: string | undefined): AnomalyType[] {
+  return (value ?? "")
+    .split(",")
+    .filter((name): name is AnomalyType =>
+      (ANOMALY_TYPES as readonly string[]).includes(name),
+    );
+}
@@ -0,0 +1,120 @@
+/**
+ * Elevation Tracking
+ * Smooths altitude with a 1D constant-velocity Kalman filter and derives
+ * vertical speed, cumulative ascent/descent and slope
+ */
+
+import type { AltitudeConfig } from "./pipeline-config.js";
+import {
+  createAxis,
+  predictAxis,
+  updateAxis,
+  type KalmanAxis,
+} from "./kalman.js";
+
+export interface ElevationState {
+  // Altitude filter (x = altitude in m, v = vertical speed in m/s)
+  filter: KalmanAxis;
+
+  // Timestamp of the last altitude fix (ms, 0 = no altitude seen yet)
+  lastTimestamp: number;
+
+  // Altitude at which the last climb/descent was counted (dead-band reference)
+  reference: number;
+
+  // Cumulative totals (m)
+  ascent: number;
+  descent: number;
+}
+
+export interface ElevationUpdate {
+  state: ElevationState;
+  smoothedAltitude: number;
+  verticalSpeed: number;
+}
+
+/**
+ * Create empty elevation state (no altitude seen yet)
+ */
+export function createElevationState(): ElevationState {
+  return {
+    filter: createAxis(0, 0),
+    lastTimestamp: 0,
+    reference: 0,
+    ascent: 0,
+    descent: 0,
+  };
+}
+
+/**
+ * Feed one altitude fix (m) through the filter and update totals
+ */
+export function updateElevation(
+  state: ElevationState,
+  altitude: number,
+  timestamp: number,
+  config: AltitudeConfig,
+): ElevationUpdate {
+  // First altitude fix: initialize the filter at the measurement
+  if (state.lastTimestamp === 0) {
+    const filter = createAxis(altitude, config.initialError);
+    return {
+      state: {
+        filter,
+        lastTimestamp: timestamp,
+        reference: altitude,
+        ascent: state.ascent,
+        descent: state.descent,
+      },
+      smoothedAltitude: altitude,
+      verticalSpeed: 0,
+    };
+  }
+
+  const dt = (timestamp - state.lastTimestamp) / 1000;
+  const predicted = predictAxis(state.filter, dt, config.processNoise);
+  const { axis: filter } = updateAxis(
+    predicted,
+    altitude,
+    config.measurementNoise,
+  );
+
+  // Count climbs/descents only once they exceed the dead-band,
+  // so GPS altitude noise does not accumulate into the totals
+  let { reference, ascent, descent } = state;
+  const change = filter.x - reference;
+  if (change >= config.climbThreshold) {
+    ascent += change;
+    reference = filter.x;
+  } else if (change <= -config.climbThreshold) {
+    descent -= change;
+    reference = filter.x;
+  }
+
+  return {
+    state: {
+      filter,
+      lastTimestamp: timestamp,
+      reference,
+      ascent,
+      descent,
+    },
+    smoothedAltitude: filter.x,
+    verticalSpeed: filter.v,
+  };
+}
+
+/**
+ * Slope (rise over run, 0.05 = 5% grade) from vertical and horizontal speed
+ * Zero below minHorizontalSpeed, where the ratio is dominated by noise
+ */
+export function computeSlope(
+  verticalSpeed: number,
+  horizontalSpeed: number,
+  minHorizontalSpeed: number,
+): number {
+  if (horizontalSpeed <= minHorizontalSpeed) {
+    return 0;
+  }
+  return verticalSpeed / horizontalSpeed;
+}
@@ -0,0 +1,86 @@
+/**
+ * Pipeline Events
+ * Discrete events emitted alongside processed points and published on the
+ * gps:events channel (the worker adds sensorId before publishing)
+ */
+
+import type { MovementPhase } from "./movement.js";
+import type { AnomalyType } from "./anomaly.js";
+
+export interface StayEvent {
+  type: "stay.started" | "stay.ended";
+  timestamp: number; // When the event was detected (ms)
+
+  // Stay region
+  centroidLat: number;
+  centroidLon: number;
+  radius: number; // RMS distance of fixes from the centroid (m)
+
+  startTime: number; // First fix inside the region (ms)
+  durationMs: number; // Time spent so far (started) or in total (ended)
+}
+
+export interface TripSummary {
+  startTime: number; // ms
+  endTime: number; // ms (last moving sample)
+  startLat: number;
+  startLon: number;
+  endLat: number;
+  endLon: number;
+
+  distance: number; // m
+  durationMs: number;
+  movingTimeMs: number;
+  avgSpeed: number; // mean smoothed speed while moving (m/s)
+  maxSpeed: number; // max smoothed speed (m/s)
+}
+
+export interface TripEvent extends TripSummary {
+  type: "trip.ended";
+  timestamp: number; // When the trip was closed (ms)
+}
+
+export interface MovementEvent {
+  type: "movement.changed";
+  timestamp: number; // Sample that triggered the transition (ms)
+
+  from: MovementPhase;
+  to: MovementPhase;
+  speed: number; // Smoothed speed at the transition (m/s)
+  isMoving: boolean; // isMoving after the transition
+}
+
+export interface GeofenceEvent {
+  type: "geofence.entered" | "geofence.exited" | "geofence.dwell";
+  timestamp: number; // Sample that triggered the event (ms)
+
+  geofenceId: string;
+  geofenceName: string;
+
+  // Smoothed position at the event
+  lat: number;
+  lon: number;
+
+  enteredAt: number; // When the current visit started (ms)
+  durationMs: number; // Time inside so far (0 on entry)
+}
+
+export interface AnomalyEvent {
+  type: "anomaly.detected";
+  timestamp: number; // Timestamp of the flagged fix (ms)
+
+  anomalies: AnomalyType[];
+
+  // Raw fix as received
+  lat: number;
+  lon: number;
+
+  // Details of the checks that fired
+  previousTimestamp?: number; // newest fix seen (timestampBackwards)
+  repeatedFixes?: number; // run length (repeatedCoordinates)
+  acceleration?: number; // m/s² (impossibleAcceleration)
+  spoofLocation?: string; // matched location name (spoofLocation)
+}
+
+export type PipelineEvent =
+  StayEvent | TripEvent | MovementEvent | GeofenceEvent | AnomalyEvent;
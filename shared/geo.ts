@@ -0,0 +1,96 @@
+/**
+ * Geospatial helpers shared by the pipeline stages
+ */
+
+// Earth radius in meters (for distance calculations)
+export const EARTH_RADIUS = 6371000;
+
+/**
+ * Calculate distance between two GPS points (Haversine formula)
+ */
+export function haversineDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS * c;
+}
+
+/**
+ * Initial bearing (course) from point 1 to point 2
+ * Degrees clockwise from true north, in [0, 360)
+ */
+export function initialBearing(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const phi1 = (lat1 * Math.PI) / 180;
+  const phi2 = (lat2 * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x =
+    Math.cos(phi1) * Math.sin(phi2) -
+    Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Signed smallest difference between two headings, in (-180, 180]
+ * Positive = clockwise (right turn)
+ */
+export function headingDelta(from: number, to: number): number {
+  let delta = (to - from) % 360;
+  if (delta > 180) delta -= 360;
+  if (delta <= -180) delta += 360;
+  return delta;
+}
+
+/**
+ * Offset of a point from an anchor in a local East-North plane (meters)
+ * Equirectangular approximation - accurate to well under 1% within tens of km
+ */
+export function toLocalENU(
+  anchorLat: number,
+  anchorLon: number,
+  lat: number,
+  lon: number,
+): { east: number; north: number } {
+  const rad = Math.PI / 180;
+  return {
+    east: (lon - anchorLon) * rad * EARTH_RADIUS * Math.cos(anchorLat * rad),
+    north: (lat - anchorLat) * rad * EARTH_RADIUS,
+  };
+}
+
+/**
+ * Inverse of toLocalENU: local East-North offset (meters) back to lat/lon
+ */
+export function fromLocalENU(
+  anchorLat: number,
+  anchorLon: number,
+  east: number,
+  north: number,
+): { lat: number; lon: number } {
+  const rad = Math.PI / 180;
+  return {
+    lat: anchorLat + north / (EARTH_RADIUS * rad),
+    lon: anchorLon + east / (EARTH_RADIUS * rad * Math.cos(anchorLat * rad)),
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Geofencing
+ * Circle and polygon geofences evaluated against smoothed positions.
+ * Per sensor, the fences it is inside are tracked with their entry time:
+ *
+ *   geofence.entered  position moves inside the fence
+ *   geofence.dwell    still inside dwellSeconds after entering (once per visit)
+ *   geofence.exited   position moves more than exitMargin outside the fence
+ *
+ * The exit margin keeps GPS jitter along a fence boundary from flapping
+ * between enter and exit. Fences are stored in Redis and managed through the
+ * SSE server; membership is persisted per sensor by the workers.
+ */
+
+import type { GeofenceConfig } from "./pipeline-config.js";
+import type { GeofenceEvent } from "./events.js";
+import { haversineDistance, toLocalENU } from "./geo.js";
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+interface GeofenceBase {
+  id: string;
+  name: string;
+
+  // Time inside before geofence.dwell (s, profile default when absent)
+  dwellSeconds?: number;
+}
+
+export interface CircleGeofence extends GeofenceBase {
+  type: "circle";
+  center: GeoPoint;
+  radius: number; // m
+}
+
+export interface PolygonGeofence extends GeofenceBase {
+  type: "polygon";
+  points: GeoPoint[]; // outer ring, closing point optional
+}
+
+export type Geofence = CircleGeofence | PolygonGeofence;
+
+export interface GeofenceMembership {
+  enteredAt: number; // ms
+  dwellReported: boolean;
+}
+
+// Fence id -> membership, for the fences the sensor is inside
+export type GeofenceMemberships = Record<string, GeofenceMembership>;
+
+export interface GeofenceUpdate {
+  memberships: GeofenceMemberships;
+  events: GeofenceEvent[];
+}
+
+export type GeofenceParseResult = { geofence: Geofence } | { error: string };
+
+function isCoordinate(point: any): point is GeoPoint {
+  return (
+    typeof point?.lat === "number" &&
+    typeof point?.lon === "number" &&
+    Math.abs(point.lat) <= 90 &&
+    Math.abs(point.lon) <= 180
+  );
+}
+
+/**
+ * Validate a geofence definition from the API
+ */
+export function parseGeofence(id: string, input: any): GeofenceParseResult {
+  const name = input?.name ?? id;
+  if (typeof name !== "string") {
+    return { error: "name must be a string" };
+  }
+
+  const dwellSeconds = input?.dwellSeconds;
+  if (
+    dwellSeconds !== undefined &&
+    !(typeof dwellSeconds === "number" && dwellSeconds > 0)
+  ) {
+    return { error: "dwellSeconds must be a positive number" };
+  }
+
+  if (input?.type === "circle") {
+    if (!isCoordinate(input.center)) {
+      return { error: "center must be { lat, lon }" };
+    }
+    if (!(typeof input.radius === "number" && input.radius > 0)) {
+      return { error: "radius must be a positive number (m)" };
+    }
+    return {
+      geofence: {
+        id,
+        name,
+        dwellSeconds,
+        type: "circle",
+        center: { lat: input.center.lat, lon: input.center.lon },
+        radius: input.radius,
+      },
+    };
+  }
+
+  if (input?.type === "polygon") {
+    if (
+      !Array.isArray(input.points) ||
+      input.points.length < 3 ||
+      !input.points.every(isCoordinate)
+    ) {
+      return { error: "points must be at least 3 { lat, lon } vertices" };
+    }
+    return {
+      geofence: {
+        id,
+        name,
+        dwellSeconds,
+        type: "polygon",
+        points: input.points.map(({ lat, lon }: GeoPoint) => ({ lat, lon })),
+      },
+    };
+  }
+
+  return { error: 'type must be "circle" or "polygon"' };
+}
+
+/**
+ * Signed distance from a position to the fence boundary (m, negative inside)
+ * Polygons are evaluated in a local ENU frame around the position
+ */
+export function geofenceDistance(
+  fence: Geofence,
+  lat: number,
+  lon: number,
+): number {
+  if (fence.type === "circle") {
+    return (
+      haversineDistance(lat, lon, fence.center.lat, fence.center.lon) -
+      fence.radius
+    );
+  }
+
+  const vertices = fence.points.map((point) =>
+    toLocalENU(lat, lon, point.lat, point.lon),
+  );
+  let inside = false;
+  let nearest = Infinity;
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[j];
+    const b = vertices[i];
+
+    // Ray cast east from the origin (the position)
+    if (
+      a.north > 0 !== b.north > 0 &&
+      0 < a.east + ((0 - a.north) * (b.east - a.east)) / (b.north - a.north)
+    ) {
+      inside = !inside;
+    }
+
+    // Distance from the origin to the edge
+    const dx = b.east - a.east;
+    const dy = b.north - a.north;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq > 0
+        ? Math.min(Math.max(-(a.east * dx + a.north * dy) / lengthSq, 0), 1)
+        : 0;
+    nearest = Math.min(nearest, Math.hypot(a.east + t * dx, a.north + t * dy));
+  }
+
+  return inside ? -nearest : nearest;
+}
+
+/**
+ * Evaluate all fences for one smoothed position
+ * Memberships of fences that no longer exist are dropped without an event
+ */
+export function updateGeofences(
+  memberships: GeofenceMemberships,
+  fences: Geofence[],
+  lat: number,
+  lon: number,
+  timestamp: number,
+  config: GeofenceConfig,
+): GeofenceUpdate {
+  const next: GeofenceMemberships = {};
+  const events: GeofenceEvent[] = [];
+
+  const event = (
+    type: GeofenceEvent["type"],
+    fence: Geofence,
+    enteredAt: number,
+  ): GeofenceEvent => ({
+    type,
+    timestamp,
+    geofenceId: fence.id,
+    geofenceName: fence.name,
+    lat,
+    lon,
+    enteredAt,
+    durationMs: timestamp - enteredAt,
+  });
+
+  for (const fence of fences) {
+    const distance = geofenceDistance(fence, lat, lon);
+    const membership = memberships[fence.id];
+
+    if (!membership) {
+      if (distance <= 0) {
+        next[fence.id] = { enteredAt: timestamp, dwellReported: false };
+        events.push(event("geofence.entered", fence, timestamp));
+      }
+      continue;
+    }
+
+    if (distance > config.exitMargin) {
+      events.push(event("geofence.exited", fence, membership.enteredAt));
+      continue;
+    }
+
+    const dwellSeconds = fence.dwellSeconds ?? config.dwellSeconds;
+    if (
+      !membership.dwellReported &&
+      timestamp - membership.enteredAt >= dwellSeconds * 1000
+    ) {
+      events.push(event("geofence.dwell", fence, membership.enteredAt));
+      next[fence.id] = { ...membership, dwellReported: true };
+    } else {
+      next[fence.id] = membership;
+    }
+  }
+
+  return { memberships: next, events };
+}
@@ -1,38 +1,226 @@
 /**
  * GPS Processing Pipeline
- * Combines Kalman filter, differentiator, and moving average
+ * Combines time alignment, an ENU Kalman filter, and velocity smoothing
  */
 
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { createDspPipeline } from "dspx";
-import type { AppState } from "./state-manager.js";
+import type { AppState, PositionSnapshot } from "./state-manager.js";
+import {
+  DEFAULT_PIPELINE_CONFIG,
+  type GPSPipelineConfig,
+} from "./pipeline-config.js";
+import { fromLocalENU, haversineDistance, toLocalENU } from "./geo.js";
+import {
+  gateFix,
+  holdOutOfOrderFix,
+  type RejectReason,
+} from "./outlier-gate.js";
+import { computeSlope, updateElevation } from "./elevation.js";
+import { createMotionState, updateMotion } from "./motion.js";
+import { updateStay } from "./stay-point.js";
+import { updateTrip } from "./trips.js";
+import { updateOdometer } from "./odometer.js";
+import {
+  createTransportModeState,
+  currentTransportMode,
+  updateTransportMode,
+  type TransportMode,
+} from "./transport-mode.js";
+import {
+  bestMatch,
+  createMatchState,
+  updateMatch,
+  type MapMatch,
+} from "./map-matching.js";
+import type { RoadNetwork } from "./road-network.js";
+import { detectAnomalies, type AnomalyType } from "./anomaly.js";
+import {
+  effectiveKalmanConfig,
+  updateNoiseEstimate,
+  type NoiseEstimate,
+} from "./adaptive-noise.js";
+import {
+  createMovementState,
+  isMovingPhase,
+  updateMovement,
+  updateMovementFromProbability,
+  type MovementPhase,
+} from "./movement.js";
+import {
+  createImmState,
+  isImmInitialized,
+  modelProbabilities,
+  movingProbability,
+  updateImm,
+  type ModelProbabilities,
+} from "./imm.js";
+import {
+  createPositionFilterState,
+  hasReportedAccuracy,
+  interpolatedVariance,
+  isPositionFilterInitialized,
+  measurementVariance,
+  predictInnovation,
+  predictPositionFilter,
+  updatePositionFilter,
+} from "./position-filter.js";
+import {
+  createVelocityFilterState,
+  filterVelocity,
+  pushVelocity,
+  type VelocityFilterState,
+  type VelocityFilterUpdate,
+} from "./velocity-filter.js";
+import {
+  createAxis,
+  predictAxis,
+  smoothAxis,
+  updateAxis,
+  type AxisCovariance,
+  type KalmanAxis,
+} from "./kalman.js";
+import type { PipelineEvent } from "./events.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const LOG_FILE = path.join(__dirname, "../logs/latency.log");
+const NOISE_LOG_FILE = path.join(__dirname, "../logs/noise.log");
 
 export interface GPSPoint {
   lat: number;
   lon: number;
+  altitude?: number; // meters (optional - not every fix carries altitude)
+  accuracy?: number; // horizontal 1σ error reported by the receiver (m)
+  hdop?: number; // horizontal dilution of precision (used when accuracy is absent)
   timestamp: number;
 }
 
 export interface ProcessedGPS extends GPSPoint {
+  // TimeAlignment output between fixes (false = the sample carrying the fix)
+  interpolated: boolean;
+
+  // First sample of a track segment (first fix, or first fix after a gap
+  // longer than maxGap reset the filter) - clients start a new polyline
+  segmentStart: boolean;
+
   // Smoothed coordinates
   smoothedLat: number;
   smoothedLon: number;
 
+  // Estimated horizontal error of the smoothed position (m, for confidence circles)
+  horizontalError: number;
+
   // Calculated velocities (m/s)
   velocity: number;
   smoothedVelocity: number;
 
-  // Status
+  // Kinematics from the smoothed track
+  heading?: number; // Course over ground (degrees from north), once moving
+  acceleration: number; // Longitudinal (m/s², negative = braking)
+  turnRate: number; // deg/s (positive = right turn)
+
+  // Elevation (present when the fix carried altitude)
+  smoothedAltitude?: number; // meters
+  verticalSpeed?: number; // m/s (positive = climbing)
+  slope?: number; // rise over run (0.05 = 5% grade)
+
+  // Cumulative elevation gain/loss for the sensor (m)
+  ascent: number;
+  descent: number;
+
+  // Odometer for the sensor (since the first fix or the last reset)
+  totalDistance: number; // m, accumulated while moving
+  movingTimeMs: number;
+  stoppedTimeMs: number;
+  maxSpeed: number; // m/s, highest smoothed speed while moving
+
+  // Status (isMoving follows the hysteresis state machine)
   isMoving: boolean;
+  movementState: MovementPhase;
+
+  // IMM model probabilities (present when the IMM stage is enabled)
+  modelProbabilities?: ModelProbabilities;
+
+  // Transport mode over the recent window and its posterior probability
+  transportMode: TransportMode | "unknown";
+  transportModeConfidence: number;
+
+  // Smoothed position snapped to the road network (present while a road
+  // lies within the search radius and a network is loaded)
+  matchedLat?: number;
+  matchedLon?: number;
+  roadSegmentId?: string; // GeoJSON feature / OSM way id
+  matchConfidence?: number; // 0-1
+
+  // Outlier gating (rejected fixes are dropped or down-weighted before Kalman)
+  rejected: boolean;
+  rejectReason?: RejectReason;
+
+  // Spoofing / device fault flags (on the sample carrying a flagged fix)
+  anomalies?: AnomalyType[];
 
   // Performance metrics
   processingLatencyMs: number;
+
+  // Position/velocity covariance per axis (RTS batch smoothing only)
+  covariance?: PositionCovariance;
+}
+
+export interface PositionCovariance {
+  east: AxisCovariance; // m², m²/s, m²/s²
+  north: AxisCovariance;
+}
+
+export interface PositionPrediction {
+  // Predicted position and the time it applies to (ms)
+  lat: number;
+  lon: number;
+  timestamp: number;
+
+  // Horizon past the sensor's last fix (s)
+  horizonSeconds: number;
+
+  // Velocity carried by the filter (m/s)
+  velocityEast: number;
+  velocityNorth: number;
+  speed: number;
+
+  // Uncertainty of the prediction (m, DRMS) and the full covariance
+  horizontalError: number;
+  covariance: PositionCovariance;
+}
+
+export interface BatchOptions {
+  // "filter": causal real-time pass (default)
+  // "rts": forward Kalman pass + Rauch–Tung–Striebel backward pass (offline)
+  smoothing?: "filter" | "rts";
+}
+
+/**
+ * One uniformly resampled position sample from TimeAlignment
+ */
+interface AlignedSample {
+  // Raw track position reported for the sample (interpolated between fixes)
+  lat: number;
+  lon: number;
+  timestamp: number;
+
+  // TimeAlignment output fed to the Kalman filter (absent for dropped fixes)
+  alignedLat?: number;
+  alignedLon?: number;
+
+  // The fix itself on the measured sample (altitude, accuracy / HDOP)
+  point?: GPSPoint;
+
+  // Samples the fix was resampled into (weights the interpolated ones)
+  burstSize: number;
+
+  dropped: boolean;
+  rejected: boolean;
+  rejectReason?: RejectReason;
 }
 
 interface LatencyStats {
@@ -42,34 +230,125 @@ interface LatencyStats {
   totalMs: number;
 }
 
-const VELOCITY_WINDOW_SIZE = 5; // 5 samples for moving average
-const MOVEMENT_THRESHOLD = 0.5; // 0.5 m/s minimum to consider "moving"
+/**
+ * Create position pipeline: TimeAlignment (2D: lat, lon)
+ * The Kalman step runs afterwards in the sensor's local ENU frame
+ * (shared/position-filter.ts), where the filter state is available.
+ * Shared with the modular position-smoother so both apply identical settings
+ */
+export function createPositionPipeline(
+  config: GPSPipelineConfig,
+): ReturnType<typeof createDspPipeline> {
+  const pipeline = createDspPipeline();
+
+  // TimeAlignment normalizes irregular GPS samples (1-5s intervals) to uniform rate
+  pipeline.TimeAlignment({
+    targetSampleRate: config.targetSampleRate,
+    interpolationMethod: "linear", // Linear interpolation between GPS points
+    gapPolicy: "interpolate", // Interpolate across gaps
+  });
 
-// Earth radius in meters (for distance calculations)
-const EARTH_RADIUS = 6371000;
+  return pipeline;
+}
 
 /**
- * Calculate distance between two GPS points (Haversine formula)
+ * Create velocity pipeline: moving average (1D)
  */
-function haversineDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number,
-): number {
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return EARTH_RADIUS * c;
+export function createVelocityPipeline(
+  config: GPSPipelineConfig,
+): ReturnType<typeof createDspPipeline> {
+  const pipeline = createDspPipeline();
+  pipeline.MovingAverage({
+    mode: "moving",
+    windowSize: config.velocityWindowSize,
+  });
+  return pipeline;
+}
+
+/**
+ * Dead-reckon a sensor's position horizonSeconds past its last fix from the
+ * persisted Kalman state (no measurement, so the uncertainty grows)
+ * Returns null if the filter has not seen a fix yet
+ */
+export function predictPosition(
+  snapshot: PositionSnapshot,
+  horizonSeconds: number,
+  config: GPSPipelineConfig,
+): PositionPrediction | null {
+  if (!isPositionFilterInitialized(snapshot.position)) {
+    return null;
+  }
+
+  const update = predictPositionFilter(
+    snapshot.position,
+    horizonSeconds,
+    effectiveKalmanConfig(config.kalman, snapshot.noise, config.adaptiveNoise),
+  );
+  const { east, north } = update.state;
+
+  return {
+    lat: update.lat,
+    lon: update.lon,
+    timestamp: snapshot.lastTimestamp + horizonSeconds * 1000,
+    horizonSeconds,
+    velocityEast: update.velocityEast,
+    velocityNorth: update.velocityNorth,
+    speed: update.speed,
+    horizontalError: update.horizontalError,
+    covariance: {
+      east: { p00: east.p00, p01: east.p01, p11: east.p11 },
+      north: { p00: north.p00, p01: north.p01, p11: north.p11 },
+    },
+  };
+}
+
+/**
+ * Smooth one instantaneous speed sample with the profile's method
+ * The moving average runs through the dspx pipeline over the window;
+ * the other methods come from shared/velocity-filter.ts
+ */
+export async function smoothVelocity(
+  pipeline: ReturnType<typeof createDspPipeline>,
+  state: VelocityFilterState,
+  velocity: number,
+  timestamp: number,
+  dtSeconds: number,
+  config: GPSPipelineConfig,
+): Promise<VelocityFilterUpdate> {
+  const windowSize = config.velocityWindowSize;
+
+  // Resize the window if the sensor's profile changed since last save
+  const current =
+    state.buffer.length === windowSize
+      ? state
+      : createVelocityFilterState(windowSize);
+
+  if (config.velocitySmoothing.method !== "moving-average") {
+    return filterVelocity(
+      current,
+      velocity,
+      dtSeconds,
+      config.velocitySmoothing,
+    );
+  }
+
+  const next = pushVelocity(current, velocity);
+
+  // Prepare velocity array with uniform timestamps (1 Hz = 1000ms intervals)
+  const velocityArray = new Float32Array(next.buffer);
+  const velocityTimestamps = new Float32Array(windowSize);
+  for (let i = 0; i < windowSize; i++) {
+    velocityTimestamps[i] = timestamp - (windowSize - 1 - i) * 1000;
+  }
+
+  const smoothedVelocity = await pipeline
+    .process(velocityArray, velocityTimestamps, { channels: 1 })
+    .then((result) => result[result.length - 1] || 0);
+
+  return {
+    state: { ...next, estimate: smoothedVelocity },
+    smoothedVelocity,
+  };
 }
 
 /**
@@ -77,11 +356,16 @@ function haversineDistance(
  * Implements the 5-step algorithm
  */
 export class GPSPipeline {
+  private config: GPSPipelineConfig;
+  private roadNetwork: RoadNetwork | null;
   private positionPipeline: ReturnType<typeof createDspPipeline>;
   private velocityPipeline: ReturnType<typeof createDspPipeline>;
   private latencyStats: LatencyStats[] = [];
   private logBatchSize = 100; // Log every 100 samples
 
+  // Latest learned Kalman noise per sensor since the last flush (adaptive mode)
+  private noiseStats = new Map<string, NoiseEstimate>();
+
   /**
    * Get position pipeline for state management
    */
@@ -96,30 +380,25 @@ export class GPSPipeline {
     return this.velocityPipeline;
   }
 
-  constructor() {
-    // Initialize position pipeline with TimeAlignment + Kalman filter (2D: lat, lon)
-    this.positionPipeline = createDspPipeline();
+  /**
+   * Get the motion profile configuration this pipeline was built with
+   */
+  getConfig(): GPSPipelineConfig {
+    return this.config;
+  }
 
-    // TimeAlignment normalizes irregular GPS samples (1-5s intervals) to uniform 1 Hz
-    this.positionPipeline.TimeAlignment({
-      targetSampleRate: 1, // 1 Hz (1 sample/second)
-      interpolationMethod: "linear", // Linear interpolation between GPS points
-      gapPolicy: "interpolate", // Interpolate across gaps
-    });
+  constructor(
+    config: GPSPipelineConfig = DEFAULT_PIPELINE_CONFIG,
+    roadNetwork: RoadNetwork | null = null,
+  ) {
+    this.config = config;
+    this.roadNetwork = roadNetwork;
 
-    this.positionPipeline.KalmanFilter({
-      dimensions: 2, // 2D tracking: lat, lon (library creates 4D state with velocity)
-      processNoise: 1e-5, // Trust smooth motion model (low process noise)
-      measurementNoise: 1e-4, // GPS is noisy - trust individual pings less
-      initialError: 0.001, // Higher initial uncertainty
-    });
+    // Initialize position pipeline with TimeAlignment (2D: lat, lon)
+    this.positionPipeline = createPositionPipeline(config);
 
     // Initialize velocity pipeline with moving average (1D)
-    this.velocityPipeline = createDspPipeline();
-    this.velocityPipeline.MovingAverage({
-      mode: "moving",
-      windowSize: VELOCITY_WINDOW_SIZE,
-    });
+    this.velocityPipeline = createVelocityPipeline(config);
 
     // Ensure log directory exists
     const logDir = path.dirname(LOG_FILE);
@@ -134,16 +413,29 @@ export class GPSPipeline {
         "timestamp,sensorId,kalmanMs,differentiatorMs,dspPipelineMs,totalMs\n",
       );
     }
+    if (config.adaptiveNoise.enabled && !fs.existsSync(NOISE_LOG_FILE)) {
+      fs.writeFileSync(
+        NOISE_LOG_FILE,
+        "timestamp,sensorId,processNoise,measurementNoise,samples\n",
+      );
+    }
   }
 
   /**
    * Process a single GPS point through the full pipeline
+   * Returns one result per uniformly resampled TimeAlignment output (the
+   * last one carries the measurement, earlier ones are interpolated), or a
+   * single held result when the outlier gate drops the fix
    */
   async process(
     point: GPSPoint,
     appState: AppState,
     sensorId?: string,
-  ): Promise<{ result: ProcessedGPS; newAppState: AppState }> {
+  ): Promise<{
+    results: ProcessedGPS[];
+    newAppState: AppState;
+    events: PipelineEvent[];
+  }> {
     const startTime = performance.now();
     const latency: LatencyStats = {
       kalmanMs: 0,
@@ -154,14 +446,18 @@ export class GPSPipeline {
 
     // Step 1: State loaded (pipeline state managed internally by dspx)
 
-    // Step 2: Apply TimeAlignment + Kalman filter to position
-    const kalmanStart = performance.now();
-
-    // Prepare input: interleaved [lat, lon] with timestamps
-    const measurement = new Float32Array([point.lat, point.lon]);
+    // Spoofing / device fault checks on the raw fix (flagged fixes are
+    // still processed, except out-of-order ones - see below)
+    const anomaly = detectAnomalies(
+      appState.anomaly,
+      point.lat,
+      point.lon,
+      point.timestamp,
+      this.config.anomaly,
+    );
 
     // Calculate time delta in SECONDS (not milliseconds)
-    // Kalman filter expects dt in seconds for velocity units (degrees/second)
+    // TimeAlignment expects the delta since the previous input
     let dtSeconds: number;
     if (appState.lastTimestamp > 0) {
       dtSeconds = (point.timestamp - appState.lastTimestamp) / 1000; // Convert ms to seconds
@@ -169,21 +465,275 @@ export class GPSPipeline {
       dtSeconds = 1.0; // Default 1 second for first sample
     }
 
-    // Pass dt in SECONDS for both channels
-    const timestamps = new Float32Array([dtSeconds, dtSeconds]);
-    const smoothedPosition = await this.positionPipeline.process(
-      measurement,
-      timestamps,
-      { channels: 2 },
+    // A fix older than the timeline (out of order) is held like a dropped
+    // fix, so the timeline never moves backwards and the next fix's dt is
+    // not inflated into a spurious gap
+    const outOfOrder = dtSeconds < 0;
+
+    // Long gap: start a new segment instead of carrying state across it
+    const gap = dtSeconds > this.config.maxGap;
+    if (gap) {
+      appState = this.resetSegment(appState);
+    }
+
+    // Step 2: Gate the raw fix against the filter's prediction, then apply
+    // TimeAlignment + Kalman filter to position
+    const kalman = effectiveKalmanConfig(
+      this.config.kalman,
+      appState.noise,
+      this.config.adaptiveNoise,
     );
+    const gate = outOfOrder
+      ? holdOutOfOrderFix(appState.prevLat, appState.prevLon)
+      : gateFix(
+          point.lat,
+          point.lon,
+          appState.prevLat,
+          appState.prevLon,
+          dtSeconds,
+          appState.rejectCount,
+          gap ? { ...this.config.gating, mode: "off" } : this.config.gating,
+          predictInnovation(
+            appState.position,
+            dtSeconds,
+            kalman,
+            measurementVariance(kalman, point.accuracy, point.hdop),
+          ),
+        );
+    // (out-of-order fixes do not count towards re-anchoring on a relocation)
+    const rejectCount = outOfOrder
+      ? appState.rejectCount
+      : gate.rejected
+        ? appState.rejectCount + 1
+        : 0;
+
+    const results: ProcessedGPS[] = [];
+    const events: PipelineEvent[] = [];
+    let state = appState;
+
+    if (gate.weight === 0) {
+      // Dropped fixes never reach the filter (position holds at previous estimate)
+      const step = await this.processSample(
+        {
+          lat: point.lat,
+          lon: point.lon,
+          timestamp: point.timestamp,
+          point,
+          burstSize: 1,
+          dropped: true,
+          rejected: true,
+          rejectReason: gate.reason,
+        },
+        state,
+        latency,
+      );
+      results.push(step.result);
+      events.push(...step.events);
+      state = step.newAppState;
+    } else {
+      // Prepare input: interleaved [lat, lon] with timestamps
+      const alignStart = performance.now();
+      const measurement = new Float32Array([gate.lat, gate.lon]);
+
+      // Pass dt in SECONDS for both channels (after a gap, a single
+      // resampling step so TimeAlignment does not fill the gap)
+      const alignDt = gap ? 1 / this.config.targetSampleRate : dtSeconds;
+      const timestamps = new Float32Array([alignDt, alignDt]);
+      const aligned = await this.positionPipeline.process(
+        measurement,
+        timestamps,
+        { channels: 2 },
+      );
+      latency.kalmanMs += performance.now() - alignStart;
+
+      // Resampled outputs are spaced 1/targetSampleRate apart and end at this fix
+      const count = Math.floor(aligned.length / 2);
+      const stepMs = 1000 / this.config.targetSampleRate;
+
+      for (let k = 0; k < count; k++) {
+        const measured = k === count - 1;
+        const step = await this.processSample(
+          {
+            lat: measured ? point.lat : aligned[2 * k],
+            lon: measured ? point.lon : aligned[2 * k + 1],
+            alignedLat: aligned[2 * k],
+            alignedLon: aligned[2 * k + 1],
+            timestamp: point.timestamp - (count - 1 - k) * stepMs,
+            point: measured ? point : undefined,
+            burstSize: count,
+            dropped: false,
+            rejected: measured && gate.rejected,
+            rejectReason: measured ? gate.reason : undefined,
+          },
+          state,
+          latency,
+        );
+        results.push(step.result);
+        events.push(...step.events);
+        state = step.newAppState;
+      }
 
-    // Extract smoothed position
-    const smoothedLat = smoothedPosition[0];
-    const smoothedLon = smoothedPosition[1];
+      // A fix absorbed by TimeAlignment (no output yet) still advances its timeline
+      state = { ...state, lastTimestamp: point.timestamp };
+    }
+
+    // Flag the sample carrying the fix and raise the alert
+    if (anomaly.event) {
+      const carrier = results[results.length - 1];
+      if (carrier && !carrier.interpolated) {
+        carrier.anomalies = anomaly.anomalies;
+      }
+      events.push(anomaly.event);
+    }
+    state = { ...state, anomaly: anomaly.state };
+
+    // Calculate total latency
+    latency.totalMs = performance.now() - startTime;
+    for (const result of results) {
+      result.processingLatencyMs = latency.totalMs;
+    }
+
+    // Log latency stats (and the sensor's learned noise)
+    if (this.config.adaptiveNoise.enabled && sensorId) {
+      this.noiseStats.set(sensorId, state.noise);
+    }
+    this.latencyStats.push(latency);
+    if (this.latencyStats.length >= this.logBatchSize) {
+      this.flushLatencyLog(sensorId);
+    }
 
-    latency.kalmanMs = performance.now() - kalmanStart;
+    return { results, newAppState: { ...state, rejectCount }, events };
+  }
 
-    // Step 3: Calculate instantaneous velocity (differentiator)
+  /**
+   * Reset the filter and velocity state for a new track segment
+   * (timeline, stay and trip state carry over so they can see the gap)
+   */
+  private resetSegment(appState: AppState): AppState {
+    return {
+      ...appState,
+      velocity: createVelocityFilterState(this.config.velocityWindowSize),
+      rejectCount: 0,
+      position: createPositionFilterState(),
+      imm: createImmState(),
+      motion: createMotionState(),
+      transport: createTransportModeState(),
+      match: createMatchState(),
+    };
+  }
+
+  /**
+   * Run one (resampled) position sample through Kalman, kinematics,
+   * elevation, stay/trip detection and velocity smoothing
+   */
+  private async processSample(
+    sample: AlignedSample,
+    appState: AppState,
+    latency: LatencyStats,
+  ): Promise<{
+    result: ProcessedGPS;
+    newAppState: AppState;
+    events: PipelineEvent[];
+  }> {
+    const { point, dropped } = sample;
+
+    // Kalman filter expects dt in seconds for velocity units (m/s)
+    const dtSeconds =
+      appState.lastTimestamp > 0
+        ? (sample.timestamp - appState.lastTimestamp) / 1000
+        : 1.0;
+
+    const kalmanStart = performance.now();
+    const segmentStart =
+      !dropped && !isPositionFilterInitialized(appState.position);
+    let smoothedLat = appState.prevLat;
+    let smoothedLon = appState.prevLon;
+    let position = appState.position;
+    let instantVelocity = 0;
+    let horizontalError = Math.sqrt(position.east.p00 + position.north.p00);
+
+    let noise = appState.noise;
+    let imm = appState.imm;
+    let probabilities =
+      this.config.imm.enabled && isImmInitialized(imm)
+        ? modelProbabilities(imm)
+        : undefined;
+
+    if (
+      !dropped &&
+      sample.alignedLat !== undefined &&
+      sample.alignedLon !== undefined
+    ) {
+      // Kalman filter in the sensor's local ENU frame (metres),
+      // weighting the fix by its reported accuracy / HDOP when present and
+      // interpolated samples by the size of their burst
+      // (noise parameters are the learned ones in adaptive mode)
+      const kalman = effectiveKalmanConfig(
+        this.config.kalman,
+        noise,
+        this.config.adaptiveNoise,
+      );
+      const variance = point
+        ? measurementVariance(kalman, point.accuracy, point.hdop)
+        : interpolatedVariance(kalman, sample.burstSize);
+      const update = updatePositionFilter(
+        position,
+        sample.alignedLat,
+        sample.alignedLon,
+        dtSeconds,
+        kalman,
+        variance,
+      );
+      position = update.state;
+
+      // Learn from measured, accepted fixes only (interpolated samples are
+      // correlated with their neighbours and would understate the noise)
+      if (
+        this.config.adaptiveNoise.enabled &&
+        point &&
+        !sample.rejected &&
+        update.innovations
+      ) {
+        noise = updateNoiseEstimate(
+          noise,
+          update.innovations,
+          this.config.kalman,
+          this.config.adaptiveNoise,
+          !hasReportedAccuracy(point.accuracy, point.hdop),
+        );
+      }
+      smoothedLat = update.lat;
+      smoothedLon = update.lon;
+      horizontalError = update.horizontalError;
+
+      // Velocity straight from the filter state (m/s)
+      instantVelocity = update.speed;
+
+      // IMM stage: the model mixture replaces the single filter's output
+      // (the constant-velocity filter keeps running for prediction and
+      // adaptive noise)
+      if (this.config.imm.enabled) {
+        const mixed = updateImm(
+          imm,
+          sample.alignedLat,
+          sample.alignedLon,
+          dtSeconds,
+          kalman,
+          this.config.imm,
+          variance,
+        );
+        imm = mixed.state;
+        probabilities = mixed.probabilities;
+        smoothedLat = mixed.lat;
+        smoothedLon = mixed.lon;
+        horizontalError = mixed.horizontalError;
+        instantVelocity = mixed.speed;
+      }
+    }
+
+    latency.kalmanMs += performance.now() - kalmanStart;
+
+    // Step 3: Distance travelled along the smoothed track
     const diffStart = performance.now();
     const distance = haversineDistance(
       appState.prevLat,
@@ -191,69 +741,238 @@ export class GPSPipeline {
       smoothedLat,
       smoothedLon, // Current position
     );
-    // Use actual dt (already in seconds) for velocity calculation
-    const instantVelocity = dtSeconds > 0 ? distance / dtSeconds : 0;
-    latency.differentiatorMs = performance.now() - diffStart;
 
-    // Step 4: Smooth velocity through moving average
+    // Heading, acceleration and turn rate (dropped fixes leave them unchanged)
+    const motion = updateMotion(
+      appState.motion,
+      appState.prevLat,
+      appState.prevLon,
+      smoothedLat,
+      smoothedLon,
+      instantVelocity,
+      dropped ? 0 : dtSeconds,
+      this.config.movementThreshold,
+    );
+    latency.differentiatorMs += performance.now() - diffStart;
+
+    // Step 3b: Smooth altitude (measured samples only, vertical speed from its state)
+    let elevation = appState.elevation;
+    let smoothedAltitude: number | undefined;
+    let verticalSpeed: number | undefined;
+    if (!dropped && point?.altitude !== undefined && isFinite(point.altitude)) {
+      const update = updateElevation(
+        elevation,
+        point.altitude,
+        point.timestamp,
+        this.config.altitude,
+      );
+      elevation = update.state;
+      smoothedAltitude = update.smoothedAltitude;
+      verticalSpeed = update.verticalSpeed;
+    }
+
+    // Step 3c: Stay-point detection on the smoothed track
+    let stay = appState.stay;
+    const events: PipelineEvent[] = [];
+    if (!dropped) {
+      const update = updateStay(
+        stay,
+        smoothedLat,
+        smoothedLon,
+        sample.timestamp,
+        this.config.stayPoint,
+      );
+      stay = update.state;
+      events.push(...update.events);
+    }
+
+    // Step 4: Smooth velocity (dropped fixes contribute no sample and hold
+    // the last estimate)
     const velocityStart = performance.now();
 
-    // Update circular buffer
-    appState.velocityBuffer[appState.velocityIndex] = instantVelocity;
-    appState.velocityIndex =
-      (appState.velocityIndex + 1) % VELOCITY_WINDOW_SIZE;
-
-    // Prepare velocity array with uniform timestamps (1 Hz = 1000ms intervals)
-    const velocityArray = new Float32Array(appState.velocityBuffer);
-    const baseTimestamp = point.timestamp;
-    const velocityTimestamps = new Float32Array(VELOCITY_WINDOW_SIZE);
-    for (let i = 0; i < VELOCITY_WINDOW_SIZE; i++) {
-      velocityTimestamps[i] =
-        baseTimestamp - (VELOCITY_WINDOW_SIZE - 1 - i) * 1000;
+    let velocityFilter = appState.velocity;
+    let smoothedVelocityArray = velocityFilter.estimate;
+    if (!dropped) {
+      const update = await smoothVelocity(
+        this.velocityPipeline,
+        velocityFilter,
+        instantVelocity,
+        sample.timestamp,
+        dtSeconds,
+        this.config,
+      );
+      velocityFilter = update.state;
+      smoothedVelocityArray = update.smoothedVelocity;
     }
 
-    // Process velocity through moving average
-    const smoothedVelocityArray = await this.velocityPipeline
-      .process(velocityArray, velocityTimestamps, { channels: 1 })
-      .then((result) => result[result.length - 1] || 0);
+    latency.dspPipelineMs += performance.now() - velocityStart;
 
-    latency.dspPipelineMs = performance.now() - velocityStart;
+    // Determine movement status (hysteresis state machine, dropped fixes hold it)
+    // driven by the IMM moving probability when configured, else by speed
+    let movement = appState.movement;
+    if (!dropped) {
+      const update =
+        this.config.imm.useForMovement && probabilities
+          ? updateMovementFromProbability(
+              movement,
+              movingProbability(probabilities),
+              smoothedVelocityArray,
+              sample.timestamp,
+              this.config.movement,
+              this.config.imm,
+            )
+          : updateMovement(
+              movement,
+              smoothedVelocityArray,
+              sample.timestamp,
+              this.config.movement,
+            );
+      movement = update.state;
+      events.push(...update.events);
+    }
+    const isMoving = isMovingPhase(movement.phase);
 
-    // Calculate total latency
-    latency.totalMs = performance.now() - startTime;
+    // Transport mode from speed, acceleration and heading changes over the
+    // recent window (dropped fixes hold it)
+    const transport = dropped
+      ? {
+          state: appState.transport,
+          ...currentTransportMode(
+            appState.transport,
+            this.config.transportMode,
+          ),
+        }
+      : updateTransportMode(
+          appState.transport,
+          smoothedVelocityArray,
+          motion.acceleration,
+          motion.turnRate,
+          dtSeconds,
+          this.config.transportMode,
+        );
 
-    // Log latency stats
-    this.latencyStats.push(latency);
-    if (this.latencyStats.length >= this.logBatchSize) {
-      this.flushLatencyLog(sensorId);
+    // Map matching against the road network (dropped fixes hold the match)
+    let match = appState.match;
+    let matched: MapMatch | null = null;
+    if (this.roadNetwork && this.config.mapMatching.enabled) {
+      if (dropped) {
+        matched = bestMatch(match, this.roadNetwork);
+      } else {
+        const update = updateMatch(
+          match,
+          this.roadNetwork,
+          smoothedLat,
+          smoothedLon,
+          this.config.mapMatching,
+        );
+        match = update.state;
+        matched = update.match;
+      }
     }
 
-    // Determine movement status
-    const isMoving = smoothedVelocityArray > MOVEMENT_THRESHOLD;
+    // Trip segmentation (closes on long gaps and sustained stops)
+    let trip = appState.trip;
+    if (!dropped) {
+      const update = updateTrip(
+        trip,
+        {
+          timestamp: sample.timestamp,
+          lat: smoothedLat,
+          lon: smoothedLon,
+          stepDistance: distance,
+          dtSeconds,
+          smoothedVelocity: smoothedVelocityArray,
+          isMoving,
+          segmentStart,
+        },
+        this.config.trip,
+      );
+      trip = update.state;
+      events.push(...update.events);
+    }
+
+    // Odometer (running totals, reset through the SSE server API)
+    const odometer = dropped
+      ? appState.odometer
+      : updateOdometer(appState.odometer, {
+          stepDistance: distance,
+          dtSeconds,
+          smoothedVelocity: smoothedVelocityArray,
+          isMoving,
+          segmentStart,
+        });
 
     // Step 5: Update app state for persistence
-    // Pipeline state (Kalman, TimeAlignment) is managed internally by dspx
+    // Pipeline state (TimeAlignment) is managed internally by dspx
+    // A dropped fix leaves the timeline untouched so the next dt spans it
     const newAppState: AppState = {
-      velocityBuffer: appState.velocityBuffer,
-      velocityIndex: appState.velocityIndex,
-      lastTimestamp: point.timestamp,
+      velocity: velocityFilter,
+      lastTimestamp: dropped ? appState.lastTimestamp : sample.timestamp,
       prevLat: smoothedLat,
       prevLon: smoothedLon,
+      rejectCount: appState.rejectCount,
+      position,
+      imm,
+      motion: motion.state,
+      movement,
+      elevation,
+      stay,
+      trip,
+      odometer,
+      noise,
+      transport: transport.state,
+      match,
+      anomaly: appState.anomaly,
     };
 
     const result: ProcessedGPS = {
-      lat: point.lat,
-      lon: point.lon,
-      timestamp: point.timestamp,
+      lat: sample.lat,
+      lon: sample.lon,
+      altitude: point?.altitude,
+      accuracy: point?.accuracy,
+      hdop: point?.hdop,
+      timestamp: sample.timestamp,
+      interpolated: point === undefined,
+      segmentStart,
       smoothedLat,
       smoothedLon,
+      horizontalError,
       velocity: instantVelocity,
       smoothedVelocity: smoothedVelocityArray,
+      heading: motion.heading,
+      acceleration: motion.acceleration,
+      turnRate: motion.turnRate,
+      smoothedAltitude,
+      verticalSpeed,
+      slope:
+        verticalSpeed !== undefined
+          ? computeSlope(
+              verticalSpeed,
+              smoothedVelocityArray,
+              this.config.movementThreshold,
+            )
+          : undefined,
+      ascent: elevation.ascent,
+      descent: elevation.descent,
+      totalDistance: odometer.totalDistance,
+      movingTimeMs: odometer.movingTime,
+      stoppedTimeMs: odometer.stoppedTime,
+      maxSpeed: odometer.maxSpeed,
       isMoving,
-      processingLatencyMs: latency.totalMs,
+      movementState: movement.phase,
+      modelProbabilities: probabilities,
+      transportMode: transport.transportMode,
+      transportModeConfidence: transport.confidence,
+      matchedLat: matched?.lat,
+      matchedLon: matched?.lon,
+      roadSegmentId: matched?.roadSegmentId,
+      matchConfidence: matched?.confidence,
+      rejected: sample.rejected,
+      rejectReason: sample.rejectReason,
+      processingLatencyMs: 0,
     };
 
-    return { result, newAppState };
+    return { result, newAppState, events };
   }
 
   /**
@@ -292,28 +1011,45 @@ export class GPSPipeline {
         )}ms)`,
     );
 
+    // Learned Kalman noise per sensor (adaptive mode)
+    for (const [noiseSensorId, noise] of this.noiseStats) {
+      fs.appendFileSync(
+        NOISE_LOG_FILE,
+        `${timestamp},${noiseSensorId},${noise.processNoise.toFixed(4)},` +
+          `${noise.measurementNoise.toFixed(2)},${noise.samples}\n`,
+      );
+      console.log(
+        `🎛️  Noise ${noiseSensorId}: q=${noise.processNoise.toFixed(3)} m²/s³, ` +
+          `R=${noise.measurementNoise.toFixed(1)} m² (${noise.samples} fixes)`,
+      );
+    }
+
     // Clear stats
     this.latencyStats = [];
+    this.noiseStats.clear();
   }
 
   /**
    * Process a batch of points (for testing/replay)
+   * With smoothing "rts" the positions, speeds and isMoving of the
+   * real-time results are replaced by a fixed-interval smoothed track
    */
   async processBatch(
     points: GPSPoint[],
     initialAppState: AppState,
     sensorId?: string,
+    options: BatchOptions = {},
   ): Promise<ProcessedGPS[]> {
     const results: ProcessedGPS[] = [];
     let currentAppState = initialAppState;
 
     for (const point of points) {
-      const { result, newAppState } = await this.process(
+      const { results: samples, newAppState } = await this.process(
         point,
         currentAppState,
         sensorId,
       );
-      results.push(result);
+      results.push(...samples);
       currentAppState = newAppState;
     }
 
@@ -322,6 +1058,136 @@ export class GPSPipeline {
       this.flushLatencyLog(sensorId);
     }
 
+    if (options.smoothing === "rts") {
+      return this.smoothBatch(results);
+    }
+
     return results;
   }
+
+  /**
+   * Predict a sensor's position horizonSeconds past its last fix
+   * (state as restored from Redis; null before the first fix)
+   */
+  predict(
+    appState: PositionSnapshot,
+    horizonSeconds: number,
+  ): PositionPrediction | null {
+    return predictPosition(appState, horizonSeconds, this.config);
+  }
+
+  /**
+   * Fixed-interval smoothing: constant-velocity Kalman forward pass over the
+   * raw fixes in a local ENU frame anchored at the first fix (rejected fixes
+   * and interpolated samples are predicted through, not measured), then an
+   * RTS backward pass.
+   * Movement state is re-derived from the smoothed speeds (or replayed from
+   * the real-time IMM probabilities when they drive movement); kinematics,
+   * elevation, odometer, map matches and events keep their real-time values.
+   */
+  private smoothBatch(results: ProcessedGPS[]): ProcessedGPS[] {
+    if (results.length === 0) {
+      return results;
+    }
+
+    const { processNoise, initialError } = this.config.kalman;
+    const anchorLat = results[0].lat;
+    const anchorLon = results[0].lon;
+    const dts: number[] = [0];
+    const forwardEast: KalmanAxis[] = [];
+    const forwardNorth: KalmanAxis[] = [];
+
+    // Forward pass
+    let east = createAxis(0, initialError);
+    let north = createAxis(0, initialError);
+    forwardEast.push(east);
+    forwardNorth.push(north);
+
+    for (let i = 1; i < results.length; i++) {
+      const dt = (results[i].timestamp - results[i - 1].timestamp) / 1000;
+      dts.push(dt);
+
+      east = predictAxis(east, dt, processNoise);
+      north = predictAxis(north, dt, processNoise);
+      if (!results[i].rejected && !results[i].interpolated) {
+        const z = toLocalENU(
+          anchorLat,
+          anchorLon,
+          results[i].lat,
+          results[i].lon,
+        );
+        const noise = measurementVariance(
+          this.config.kalman,
+          results[i].accuracy,
+          results[i].hdop,
+        );
+        east = updateAxis(east, z.east, noise).axis;
+        north = updateAxis(north, z.north, noise).axis;
+      }
+      forwardEast.push(east);
+      forwardNorth.push(north);
+    }
+
+    // Backward pass
+    const smoothEast = smoothAxis(forwardEast, dts, processNoise);
+    const smoothNorth = smoothAxis(forwardNorth, dts, processNoise);
+
+    // Movement state machine re-run over the smoothed speeds
+    let movement = createMovementState();
+
+    return results.map((result, i) => {
+      const sEast = smoothEast[i];
+      const sNorth = smoothNorth[i];
+      const { lat, lon } = fromLocalENU(
+        anchorLat,
+        anchorLon,
+        sEast.x,
+        sNorth.x,
+      );
+
+      // Speed straight from the smoothed velocity state
+      const smoothedVelocity = Math.hypot(sEast.v, sNorth.v);
+
+      const velocity =
+        i > 0 && dts[i] > 0
+          ? Math.hypot(
+              sEast.x - smoothEast[i - 1].x,
+              sNorth.x - smoothNorth[i - 1].x,
+            ) / dts[i]
+          : 0;
+
+      movement = (
+        this.config.imm.useForMovement && result.modelProbabilities
+          ? updateMovementFromProbability(
+              movement,
+              movingProbability(result.modelProbabilities),
+              smoothedVelocity,
+              result.timestamp,
+              this.config.movement,
+              this.config.imm,
+            )
+          : updateMovement(
+              movement,
+              smoothedVelocity,
+              result.timestamp,
+              this.config.movement,
+            )
+      ).state;
+
+      return {
+        ...result,
+        smoothedLat: lat,
+        smoothedLon: lon,
+        horizontalError: Math.sqrt(sEast.p00 + sNorth.p00),
+        velocity,
+        smoothedVelocity,
+        isMoving: isMovingPhase(movement.phase),
+        movementState: movement.phase,
+        covariance: {
+          east: { p00: sEast.p00, p01: sEast.p01, p11: sEast.p11 },
+          north: { p00: sNorth.p00, p01: sNorth.p01, p11: sNorth.p11 },
+        },
+      };
+    });
+  }
 }
@@ -0,0 +1,365 @@
+/**
+ * Interacting Multiple Model (IMM) Position Filter
+ * Runs three position models side by side in a local ENU frame and mixes
+ * them by how well each explains the recent fixes (Blom & Bar-Shalom, 1988):
+ *
+ *   stationary        position held, velocity zero (removes jitter at stops)
+ *   constantVelocity  the profile's constant-velocity model
+ *   manoeuvre         constant velocity with inflated process noise, standing
+ *                     in for a constant-turn model (follows turns and braking
+ *                     without lag)
+ *
+ * Each step: mix the model estimates through the Markov switching matrix,
+ * predict and update every model, re-weight the models by their measurement
+ * likelihood, then combine. The stationary model's probability gives a
+ * movement probability grounded in the measurements instead of a fixed
+ * speed threshold.
+ */
+
+import type { ImmConfig, KalmanConfig } from "./pipeline-config.js";
+import { fromLocalENU, toLocalENU } from "./geo.js";
+import {
+  createAxis,
+  predictAxis,
+  updateAxis,
+  type AxisUpdate,
+  type KalmanAxis,
+} from "./kalman.js";
+
+// Model order (also the serialization order)
+export const IMM_MODELS = [
+  "stationary",
+  "constantVelocity",
+  "manoeuvre",
+] as const;
+
+export type ImmModel = (typeof IMM_MODELS)[number];
+
+export type ModelProbabilities = Record<ImmModel, number>;
+
+export interface ImmModelState {
+  east: KalmanAxis;
+  north: KalmanAxis;
+  probability: number;
+}
+
+export interface ImmState {
+  // Origin of the local frame (0/0 = filter not initialized)
+  anchorLat: number;
+  anchorLon: number;
+
+  // One entry per IMM_MODELS model
+  models: ImmModelState[];
+}
+
+export interface ImmUpdate {
+  state: ImmState;
+  lat: number;
+  lon: number;
+  velocityEast: number; // m/s
+  velocityNorth: number; // m/s
+  speed: number; // m/s
+
+  // Estimated horizontal error of the combined estimate (m, DRMS)
+  horizontalError: number;
+
+  probabilities: ModelProbabilities;
+}
+
+// Re-anchor once the track is this far from the anchor (m), as the CV filter does
+const REANCHOR_DISTANCE = 10000;
+
+/**
+ * Create empty IMM state (initialized on the first fix)
+ */
+export function createImmState(): ImmState {
+  return {
+    anchorLat: 0,
+    anchorLon: 0,
+    models: IMM_MODELS.map(() => ({
+      east: createAxis(0, 0),
+      north: createAxis(0, 0),
+      probability: 1 / IMM_MODELS.length,
+    })),
+  };
+}
+
+/**
+ * Whether the IMM has been initialized with a fix
+ */
+export function isImmInitialized(state: ImmState): boolean {
+  return state.anchorLat !== 0 || state.anchorLon !== 0;
+}
+
+/**
+ * Model probabilities keyed by model name
+ */
+export function modelProbabilities(state: ImmState): ModelProbabilities {
+  return Object.fromEntries(
+    IMM_MODELS.map((model, i) => [model, state.models[i].probability]),
+  ) as ModelProbabilities;
+}
+
+/**
+ * Probability that the sensor is moving (anything but the stationary model)
+ */
+export function movingProbability(probabilities: ModelProbabilities): number {
+  return 1 - probabilities.stationary;
+}
+
+/**
+ * Stream fields carrying the probabilities between the modular workers
+ * (stationaryProbability, constantVelocityProbability, manoeuvreProbability)
+ */
+export function probabilityFields(probabilities: ModelProbabilities): string[] {
+  return IMM_MODELS.flatMap((model) => [
+    `${model}Probability`,
+    probabilities[model].toString(),
+  ]);
+}
+
+/**
+ * Parse probabilityFields output (undefined when the IMM stage is off)
+ */
+export function parseProbabilityFields(
+  data: Record<string, string>,
+): ModelProbabilities | undefined {
+  if (IMM_MODELS.some((model) => !data[`${model}Probability`])) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    IMM_MODELS.map((model) => [model, parseFloat(data[`${model}Probability`])]),
+  ) as ModelProbabilities;
+}
+
+/**
+ * Weighted mixture of axis estimates (moment-matched)
+ */
+function mixAxes(axes: KalmanAxis[], weights: number[]): KalmanAxis {
+  let x = 0;
+  let v = 0;
+  axes.forEach((axis, i) => {
+    x += weights[i] * axis.x;
+    v += weights[i] * axis.v;
+  });
+
+  let p00 = 0;
+  let p01 = 0;
+  let p11 = 0;
+  axes.forEach((axis, i) => {
+    const dx = axis.x - x;
+    const dv = axis.v - v;
+    p00 += weights[i] * (axis.p00 + dx * dx);
+    p01 += weights[i] * (axis.p01 + dx * dv);
+    p11 += weights[i] * (axis.p11 + dv * dv);
+  });
+
+  return { x, v, p00, p01, p11 };
+}
+
+/**
+ * Time update for one model
+ */
+function predictModel(
+  model: ImmModel,
+  axis: KalmanAxis,
+  dt: number,
+  kalman: KalmanConfig,
+  config: ImmConfig,
+): KalmanAxis {
+  switch (model) {
+    case "stationary":
+      // Position held (small jitter), velocity pinned to zero
+      return {
+        x: axis.x,
+        v: 0,
+        p00: axis.p00 + config.stationaryNoise * Math.max(dt, 0),
+        p01: 0,
+        p11: 0,
+      };
+    case "constantVelocity":
+      return predictAxis(axis, dt, kalman.processNoise);
+    case "manoeuvre":
+      return predictAxis(
+        axis,
+        dt,
+        kalman.processNoise * config.manoeuvreNoiseScale,
+      );
+  }
+}
+
+/**
+ * Log-likelihood of an axis innovation under its predicted variance
+ */
+function logLikelihood(update: AxisUpdate): number {
+  return (
+    -0.5 *
+    (Math.log(2 * Math.PI * update.innovationVariance) +
+      (update.innovation * update.innovation) / update.innovationVariance)
+  );
+}
+
+/**
+ * Probability-weighted combination of the model estimates
+ */
+function combine(state: ImmState): { east: KalmanAxis; north: KalmanAxis } {
+  const weights = state.models.map((model) => model.probability);
+  return {
+    east: mixAxes(
+      state.models.map((model) => model.east),
+      weights,
+    ),
+    north: mixAxes(
+      state.models.map((model) => model.north),
+      weights,
+    ),
+  };
+}
+
+/**
+ * Combined estimate of an initialized model set
+ */
+export function immEstimate(state: ImmState): ImmUpdate {
+  const { east, north } = combine(state);
+  const { lat, lon } = fromLocalENU(
+    state.anchorLat,
+    state.anchorLon,
+    east.x,
+    north.x,
+  );
+
+  return {
+    state,
+    lat,
+    lon,
+    velocityEast: east.v,
+    velocityNorth: north.v,
+    speed: Math.hypot(east.v, north.v),
+    horizontalError: Math.sqrt(east.p00 + north.p00),
+    probabilities: modelProbabilities(state),
+  };
+}
+
+/**
+ * Move the anchor to the combined estimate (every model shifts with it)
+ */
+function reanchor(state: ImmState, east: number, north: number): ImmState {
+  const { lat, lon } = fromLocalENU(
+    state.anchorLat,
+    state.anchorLon,
+    east,
+    north,
+  );
+  return {
+    anchorLat: lat,
+    anchorLon: lon,
+    models: state.models.map((model) => ({
+      ...model,
+      east: { ...model.east, x: model.east.x - east },
+      north: { ...model.north, x: model.north.x - north },
+    })),
+  };
+}
+
+/**
+ * One IMM step: mix, predict, update with a fix (degrees) and re-weight
+ */
+export function updateImm(
+  state: ImmState,
+  lat: number,
+  lon: number,
+  dtSeconds: number,
+  kalman: KalmanConfig,
+  config: ImmConfig,
+  measurementNoise = kalman.measurementNoise,
+): ImmUpdate {
+  // First fix: every model starts here, at rest
+  if (!isImmInitialized(state)) {
+    const initialError = Math.min(kalman.initialError, measurementNoise);
+    const axis = { ...createAxis(0, kalman.initialError), p00: initialError };
+    return immEstimate({
+      anchorLat: lat,
+      anchorLon: lon,
+      models: IMM_MODELS.map(() => ({
+        east: axis,
+        north: axis,
+        probability: 1 / IMM_MODELS.length,
+      })),
+    });
+  }
+
+  const count = IMM_MODELS.length;
+  const stay = 1 - config.switchProbability;
+  const move = config.switchProbability / (count - 1);
+  const transition = (from: number, to: number) => (from === to ? stay : move);
+
+  // Mixing: predicted model probabilities and mixing weights
+  const predicted = IMM_MODELS.map((_, to) =>
+    state.models.reduce(
+      (sum, model, from) => sum + transition(from, to) * model.probability,
+      0,
+    ),
+  );
+
+  const z = toLocalENU(state.anchorLat, state.anchorLon, lat, lon);
+
+  const updated = IMM_MODELS.map((model, to) => {
+    const weights = state.models.map(
+      (source, from) =>
+        (transition(from, to) * source.probability) / predicted[to],
+    );
+    const mixedEast = mixAxes(
+      state.models.map((source) => source.east),
+      weights,
+    );
+    const mixedNorth = mixAxes(
+      state.models.map((source) => source.north),
+      weights,
+    );
+
+    const east = updateAxis(
+      predictModel(model, mixedEast, dtSeconds, kalman, config),
+      z.east,
+      measurementNoise,
+    );
+    const north = updateAxis(
+      predictModel(model, mixedNorth, dtSeconds, kalman, config),
+      z.north,
+      measurementNoise,
+    );
+
+    return {
+      east: east.axis,
+      north: north.axis,
+      logWeight:
+        Math.log(Math.max(predicted[to], Number.MIN_VALUE)) +
+        logLikelihood(east) +
+        logLikelihood(north),
+    };
+  });
+
+  // Model probabilities (normalized in log space to avoid underflow),
+  // floored so no model can be ruled out for good
+  const maxLog = Math.max(...updated.map((model) => model.logWeight));
+  const raw = updated.map((model) => Math.exp(model.logWeight - maxLog));
+  const floored = raw.map((weight) =>
+    Math.max(weight / raw.reduce((a, b) => a + b, 0), config.minProbability),
+  );
+  const total = floored.reduce((a, b) => a + b, 0);
+
+  const next: ImmState = {
+    anchorLat: state.anchorLat,
+    anchorLon: state.anchorLon,
+    models: updated.map((model, i) => ({
+      east: model.east,
+      north: model.north,
+      probability: floored[i] / total,
+    })),
+  };
+
+  const { east, north } = combine(next);
+  if (Math.hypot(east.x, north.x) > REANCHOR_DISTANCE) {
+    return immEstimate(reanchor(next, east.x, north.x));
+  }
+  return immEstimate(next);
+}
@@ -0,0 +1,161 @@
+/**
+ * Constant-Velocity Kalman Filter (single axis)
+ *
+ * State [position, velocity] with a 2x2 covariance. Used where the pipeline
+ * needs the filter state itself (velocity, covariance), which the dspx
+ * KalmanFilter stage does not expose. Multi-axis tracking runs one
+ * independent axis per coordinate.
+ *
+ * Functions are pure: each step returns a new axis so callers can keep a history.
+ */
+
+export interface KalmanAxis {
+  // State estimate
+  x: number; // position
+  v: number; // velocity (position units per second)
+
+  // Covariance (symmetric: p10 = p01)
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+export type AxisCovariance = Pick<KalmanAxis, "p00" | "p01" | "p11">;
+
+export interface AxisUpdate {
+  axis: KalmanAxis;
+
+  // Measurement residual and its variance (for gating / adaptive noise)
+  innovation: number;
+  innovationVariance: number;
+
+  // Kalman gain applied to position and velocity
+  positionGain: number;
+  velocityGain: number;
+}
+
+/**
+ * Create an axis at rest at the given position
+ */
+export function createAxis(x: number, initialError: number): KalmanAxis {
+  return { x, v: 0, p00: initialError, p01: 0, p11: initialError };
+}
+
+/**
+ * Time update: F = [1 dt; 0 1], Q from white-noise acceleration with
+ * spectral density processNoise: q * [dt³/3 dt²/2; dt²/2 dt]
+ */
+export function predictAxis(
+  axis: KalmanAxis,
+  dt: number,
+  processNoise: number,
+): KalmanAxis {
+  if (dt <= 0) {
+    return axis;
+  }
+
+  const dt2 = dt * dt;
+  const dt3 = dt2 * dt;
+
+  return {
+    x: axis.x + axis.v * dt,
+    v: axis.v,
+    p00:
+      axis.p00 + 2 * dt * axis.p01 + dt2 * axis.p11 + (processNoise * dt3) / 3,
+    p01: axis.p01 + dt * axis.p11 + (processNoise * dt2) / 2,
+    p11: axis.p11 + processNoise * dt,
+  };
+}
+
+/**
+ * Measurement update with position observation z (H = [1 0])
+ */
+export function updateAxis(
+  axis: KalmanAxis,
+  z: number,
+  measurementNoise: number,
+): AxisUpdate {
+  const innovation = z - axis.x;
+  const innovationVariance = axis.p00 + measurementNoise;
+
+  // Kalman gain
+  const k0 = axis.p00 / innovationVariance;
+  const k1 = axis.p01 / innovationVariance;
+
+  return {
+    axis: {
+      x: axis.x + k0 * innovation,
+      v: axis.v + k1 * innovation,
+      p00: (1 - k0) * axis.p00,
+      p01: (1 - k0) * axis.p01,
+      p11: axis.p11 - k1 * axis.p01,
+    },
+    innovation,
+    innovationVariance,
+    positionGain: k0,
+    velocityGain: k1,
+  };
+}
+
+/**
+ * Rauch–Tung–Striebel backward pass over a forward-filtered sequence
+ *
+ * filtered[k] is the posterior at step k, dts[k] the time from step k-1 to k
+ * (dts[0] is unused). Returns the smoothed posterior for every step.
+ */
+export function smoothAxis(
+  filtered: KalmanAxis[],
+  dts: number[],
+  processNoise: number,
+): KalmanAxis[] {
+  const smoothed = filtered.slice();
+
+  for (let k = filtered.length - 2; k >= 0; k--) {
+    const f = filtered[k];
+    const next = smoothed[k + 1];
+    const dt = dts[k + 1];
+    const pred = predictAxis(f, dt, processNoise);
+
+    // Predicted covariance inverse
+    const det = pred.p00 * pred.p11 - pred.p01 * pred.p01;
+    if (!(det > 0)) {
+      continue;
+    }
+    const i00 = pred.p11 / det;
+    const i01 = -pred.p01 / det;
+    const i11 = pred.p00 / det;
+
+    // Smoother gain C = P F' Ppred⁻¹ (P F' = [p00 + dt p01, p01; p01 + dt p11, p11])
+    const a00 = f.p00 + dt * f.p01;
+    const a01 = f.p01;
+    const a10 = f.p01 + dt * f.p11;
+    const a11 = f.p11;
+    const c00 = a00 * i00 + a01 * i01;
+    const c01 = a00 * i01 + a01 * i11;
+    const c10 = a10 * i00 + a11 * i01;
+    const c11 = a10 * i01 + a11 * i11;
+
+    // Corrections from the smoothed successor
+    const dx = next.x - pred.x;
+    const dv = next.v - pred.v;
+    const d00 = next.p00 - pred.p00;
+    const d01 = next.p01 - pred.p01;
+    const d11 = next.p11 - pred.p11;
+
+    // C D C'
+    const e00 = c00 * d00 + c01 * d01;
+    const e01 = c00 * d01 + c01 * d11;
+    const e10 = c10 * d00 + c11 * d01;
+    const e11 = c10 * d01 + c11 * d11;
+
+    smoothed[k] = {
+      x: f.x + c00 * dx + c01 * dv,
+      v: f.v + c10 * dx + c11 * dv,
+      p00: f.p00 + e00 * c00 + e01 * c01,
+      p01: f.p01 + e00 * c10 + e01 * c11,
+      p11: f.p11 + e10 * c10 + e11 * c11,
+    };
+  }
+
+  return smoothed;
+}
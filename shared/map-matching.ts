@@ -0,0 +1,165 @@
+/**
+ * Map Matching
+ * Online HMM map matching of the smoothed track (Newson & Krumm, 2009).
+ * Hidden states are candidate positions on road segments within
+ * searchRadius of each smoothed fix:
+ *
+ *   emission    distance from the fix to the road, Gaussian (measurementSigma)
+ *   transition  |route distance - straight-line distance| between consecutive
+ *               fixes, exponential (transitionBeta), so candidates reachable
+ *               along the roads by a plausible path are preferred
+ *
+ * The forward Viterbi scores are carried from sample to sample and the best
+ * candidate is reported together with its share of the candidate
+ * probability mass as confidence. Matching restarts from the emissions when
+ * no candidate can be reached from the previous ones (HMM break).
+ * Shared by GPSPipeline and the modular velocity-smoother
+ */
+
+import type { MapMatchingConfig } from "./pipeline-config.js";
+import { haversineDistance } from "./geo.js";
+import {
+  nearbySegments,
+  pointOnSegment,
+  routeDistance,
+  type RoadNetwork,
+} from "./road-network.js";
+
+export interface MatchCandidate {
+  segment: number; // index into RoadNetwork.segments
+  offset: number; // m from the segment's start node
+
+  // Viterbi score, normalized so the best candidate is 0
+  logProbability: number;
+}
+
+export interface MatchState {
+  // Smoothed fix the candidates were scored for
+  lastLat: number;
+  lastLon: number;
+
+  // Empty before the first match or while off the road network
+  candidates: MatchCandidate[];
+}
+
+export interface MapMatch {
+  lat: number;
+  lon: number;
+  roadSegmentId: string;
+  confidence: number; // 0-1
+}
+
+export interface MapMatchUpdate {
+  state: MatchState;
+
+  // Null while no road lies within searchRadius
+  match: MapMatch | null;
+}
+
+/**
+ * Create empty matcher state (new sensor or track segment)
+ */
+export function createMatchState(): MatchState {
+  return { lastLat: 0, lastLon: 0, candidates: [] };
+}
+
+/**
+ * Match one smoothed position
+ */
+export function updateMatch(
+  state: MatchState,
+  network: RoadNetwork,
+  lat: number,
+  lon: number,
+  config: MapMatchingConfig,
+): MapMatchUpdate {
+  const projections = nearbySegments(
+    network,
+    lat,
+    lon,
+    config.searchRadius,
+  ).slice(0, config.maxCandidates);
+
+  if (projections.length === 0) {
+    return {
+      state: { lastLat: lat, lastLon: lon, candidates: [] },
+      match: null,
+    };
+  }
+
+  // Candidates restored from a different network file are dropped
+  const previous = state.candidates.filter(
+    (candidate) => candidate.segment < network.segments.length,
+  );
+  const straightLine = haversineDistance(
+    state.lastLat,
+    state.lastLon,
+    lat,
+    lon,
+  );
+  const maxRoute =
+    straightLine * config.maxRouteFactor + 2 * config.searchRadius;
+
+  const emissions = projections.map((projection) => {
+    const z = projection.distance / config.measurementSigma;
+    return -0.5 * z * z;
+  });
+
+  // Forward Viterbi step: best predecessor for every new candidate
+  let scores = projections.map((projection, i) => {
+    let best = -Infinity;
+    for (const candidate of previous) {
+      const route = routeDistance(network, candidate, projection, maxRoute);
+      const transition =
+        -Math.abs(route - straightLine) / config.transitionBeta;
+      best = Math.max(best, candidate.logProbability + transition);
+    }
+    return best + emissions[i];
+  });
+
+  // First fix, or nothing reachable from the previous candidates
+  if (scores.every((score) => score === -Infinity)) {
+    scores = emissions;
+  }
+
+  const max = Math.max(...scores);
+  const candidates: MatchCandidate[] = projections
+    .map((projection, i) => ({
+      segment: projection.segment,
+      offset: projection.offset,
+      logProbability: scores[i] - max,
+    }))
+    .filter((candidate) => candidate.logProbability > -Infinity);
+
+  const next: MatchState = { lastLat: lat, lastLon: lon, candidates };
+  return { state: next, match: bestMatch(next, network) };
+}
+
+/**
+ * Current best candidate (dropped samples hold the last match)
+ */
+export function bestMatch(
+  state: MatchState,
+  network: RoadNetwork,
+): MapMatch | null {
+  const candidates = state.candidates.filter(
+    (candidate) => candidate.segment < network.segments.length,
+  );
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const best = candidates.reduce((a, b) =>
+    b.logProbability > a.logProbability ? b : a,
+  );
+  const total = candidates.reduce(
+    (sum, candidate) => sum + Math.exp(candidate.logProbability),
+    0,
+  );
+
+  return {
+    ...pointOnSegment(network, best.segment, best.offset),
+    roadSegmentId: network.segments[best.segment].roadId,
+    confidence: Math.exp(best.logProbability) / total,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Motion Kinematics
+ * Course over ground, longitudinal acceleration and turn rate from the smoothed track
+ * Shared by GPSPipeline and the modular velocity-calculator
+ */
+
+import { headingDelta, initialBearing } from "./geo.js";
+
+export interface MotionState {
+  // Last known course over ground (degrees, NaN = not yet known)
+  heading: number;
+
+  // Speed at the previous sample (m/s)
+  speed: number;
+}
+
+export interface MotionUpdate {
+  state: MotionState;
+
+  // Course over ground (degrees from north), undefined until the sensor has moved
+  heading?: number;
+
+  // Longitudinal acceleration (m/s², negative = braking)
+  acceleration: number;
+
+  // Turn rate (deg/s, positive = clockwise / right turn)
+  turnRate: number;
+}
+
+/**
+ * Create motion state for a new sensor
+ */
+export function createMotionState(): MotionState {
+  return { heading: NaN, speed: 0 };
+}
+
+/**
+ * Update kinematics with a new smoothed position and speed
+ * The heading is only refreshed above minSpeed - while stationary, GPS jitter
+ * would make the bearing spin, so the last course is held instead
+ */
+export function updateMotion(
+  state: MotionState,
+  prevLat: number,
+  prevLon: number,
+  lat: number,
+  lon: number,
+  speed: number,
+  dtSeconds: number,
+  minSpeed: number,
+): MotionUpdate {
+  if (dtSeconds <= 0) {
+    return {
+      state,
+      heading: isNaN(state.heading) ? undefined : state.heading,
+      acceleration: 0,
+      turnRate: 0,
+    };
+  }
+
+  const acceleration = (speed - state.speed) / dtSeconds;
+
+  let heading = state.heading;
+  let turnRate = 0;
+  const moved = prevLat !== lat || prevLon !== lon;
+  if (speed > minSpeed && moved) {
+    heading = initialBearing(prevLat, prevLon, lat, lon);
+    if (!isNaN(state.heading)) {
+      turnRate = headingDelta(state.heading, heading) / dtSeconds;
+    }
+  }
+
+  return {
+    state: { heading, speed },
+    heading: isNaN(heading) ? undefined : heading,
+    acceleration,
+    turnRate,
+  };
+}
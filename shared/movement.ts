@@ -0,0 +1,145 @@
+/**
+ * Movement State Machine
+ * Hysteresis on smoothed speed so isMoving does not flicker when speed hovers
+ * around a single threshold: separate enter/exit thresholds plus minimum
+ * dwell times before a start or stop is confirmed
+ *
+ *   STOPPED --speed > enter--> STARTING --held startDwell--> MOVING
+ *   MOVING --speed < exit--> STOPPING --held stopDwell--> STOPPED
+ *
+ * STARTING falls back to STOPPED when speed drops below exit, and STOPPING
+ * returns to MOVING when speed rises above enter. With the IMM stage the
+ * input can be the moving-model probability instead of speed.
+ * Shared by GPSPipeline and the modular velocity-smoother
+ */
+
+import type { ImmConfig, MovementConfig } from "./pipeline-config.js";
+import type { MovementEvent } from "./events.js";
+
+export type MovementPhase = "STOPPED" | "STARTING" | "MOVING" | "STOPPING";
+
+// Stable order for binary serialization
+export const MOVEMENT_PHASES: MovementPhase[] = [
+  "STOPPED",
+  "STARTING",
+  "MOVING",
+  "STOPPING",
+];
+
+export interface MovementState {
+  phase: MovementPhase;
+
+  // When the current phase was entered (ms)
+  since: number;
+}
+
+export interface MovementUpdate {
+  state: MovementState;
+  isMoving: boolean;
+  events: MovementEvent[];
+}
+
+/**
+ * Create movement state for a new sensor (stopped)
+ */
+export function createMovementState(): MovementState {
+  return { phase: "STOPPED", since: 0 };
+}
+
+/**
+ * Whether a phase counts as moving (a start is only reported once confirmed,
+ * and a stop only once it has lasted stopDwell)
+ */
+export function isMovingPhase(phase: MovementPhase): boolean {
+  return phase === "MOVING" || phase === "STOPPING";
+}
+
+/**
+ * Next phase for the given speed and time spent in the current phase
+ */
+function nextPhase(
+  state: MovementState,
+  speed: number,
+  timestamp: number,
+  config: MovementConfig,
+): MovementPhase {
+  const dwellSeconds = (timestamp - state.since) / 1000;
+
+  switch (state.phase) {
+    case "STOPPED":
+      return speed > config.enterThreshold ? "STARTING" : "STOPPED";
+    case "STARTING":
+      if (speed < config.exitThreshold) return "STOPPED";
+      return dwellSeconds >= config.startDwell ? "MOVING" : "STARTING";
+    case "MOVING":
+      return speed < config.exitThreshold ? "STOPPING" : "MOVING";
+    case "STOPPING":
+      if (speed > config.enterThreshold) return "MOVING";
+      return dwellSeconds >= config.stopDwell ? "STOPPED" : "STOPPING";
+  }
+}
+
+/**
+ * Advance the state machine on a signal compared against the config's
+ * thresholds (events report the smoothed speed either way)
+ */
+function advance(
+  state: MovementState,
+  signal: number,
+  speed: number,
+  timestamp: number,
+  config: MovementConfig,
+): MovementUpdate {
+  const current = state.since === 0 ? { ...state, since: timestamp } : state;
+  const phase = nextPhase(current, signal, timestamp, config);
+
+  if (phase === current.phase) {
+    return { state: current, isMoving: isMovingPhase(phase), events: [] };
+  }
+
+  return {
+    state: { phase, since: timestamp },
+    isMoving: isMovingPhase(phase),
+    events: [
+      {
+        type: "movement.changed",
+        timestamp,
+        from: current.phase,
+        to: phase,
+        speed,
+        isMoving: isMovingPhase(phase),
+      },
+    ],
+  };
+}
+
+/**
+ * Feed one smoothed speed sample (m/s) into the state machine
+ */
+export function updateMovement(
+  state: MovementState,
+  speed: number,
+  timestamp: number,
+  config: MovementConfig,
+): MovementUpdate {
+  return advance(state, speed, speed, timestamp, config);
+}
+
+/**
+ * Feed the IMM moving-model probability into the state machine instead of
+ * speed: the same phases and dwell times, with probability thresholds
+ */
+export function updateMovementFromProbability(
+  state: MovementState,
+  probability: number,
+  speed: number,
+  timestamp: number,
+  config: MovementConfig,
+  imm: ImmConfig,
+): MovementUpdate {
+  return advance(state, probability, speed, timestamp, {
+    ...config,
+    enterThreshold: imm.enterProbability,
+    exitThreshold: imm.exitProbability,
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * Odometer
+ * Per-sensor running totals since the first fix (or the last reset):
+ * distance along the smoothed track, time spent moving and stopped, and the
+ * highest smoothed speed. Distance only accumulates while moving so GPS drift
+ * at a standstill does not creep onto the odometer
+ */
+
+export interface OdometerState {
+  totalDistance: number; // m
+  movingTime: number; // ms
+  stoppedTime: number; // ms
+  maxSpeed: number; // m/s (smoothed)
+}
+
+export interface OdometerSample {
+  stepDistance: number; // m along the smoothed track since the previous sample
+  dtSeconds: number;
+  smoothedVelocity: number;
+  isMoving: boolean;
+
+  // First sample of a track segment (the step spans a reporting gap)
+  segmentStart: boolean;
+}
+
+/**
+ * Create zeroed odometer state (new sensor or reset)
+ */
+export function createOdometerState(): OdometerState {
+  return {
+    totalDistance: 0,
+    movingTime: 0,
+    stoppedTime: 0,
+    maxSpeed: 0,
+  };
+}
+
+/**
+ * Add one processed sample to the totals
+ * A segment start adds nothing: the time and distance since the previous
+ * sample belong to a gap without data
+ */
+export function updateOdometer(
+  state: OdometerState,
+  sample: OdometerSample,
+): OdometerState {
+  if (sample.segmentStart) {
+    return state;
+  }
+
+  const dtMs = Math.max(sample.dtSeconds, 0) * 1000;
+  return sample.isMoving
+    ? {
+        totalDistance: state.totalDistance + sample.stepDistance,
+        movingTime: state.movingTime + dtMs,
+        stoppedTime: state.stoppedTime,
+        maxSpeed: Math.max(state.maxSpeed, sample.smoothedVelocity),
+      }
+    : {
+        ...state,
+        stoppedTime: state.stoppedTime + dtMs,
+      };
+}
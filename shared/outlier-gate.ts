@@ -0,0 +1,130 @@
+/**
+ * Outlier Gate
+ * Rejects (or down-weights) raw fixes that are physically implausible
+ * relative to the previous filtered position, before they reach the Kalman filter
+ */
+
+import type { GatingConfig } from "./pipeline-config.js";
+import type { InnovationPrediction } from "./position-filter.js";
+import { haversineDistance, toLocalENU } from "./geo.js";
+
+// "outOfOrder": older than the filter's timeline (held by the pipeline
+// before gating, so the timeline never moves backwards)
+export type RejectReason = "speed" | "innovation" | "outOfOrder";
+
+export interface GateResult {
+  // True when the fix failed a check (dropped or down-weighted)
+  rejected: boolean;
+  reason?: RejectReason;
+
+  // Measurement weight: 1 = full, 0 = dropped, (0, 1) = pulled toward prediction
+  weight: number;
+
+  // Measurement to feed the filter (equals the raw fix when accepted)
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Hold a fix that arrived older than the filter's timeline: dropped at the
+ * previous filtered position, like a fix failing the gate in "drop" mode
+ */
+export function holdOutOfOrderFix(
+  prevLat: number,
+  prevLon: number,
+): GateResult {
+  return {
+    rejected: true,
+    reason: "outOfOrder",
+    weight: 0,
+    lat: prevLat,
+    lon: prevLon,
+  };
+}
+
+/**
+ * Gate a raw fix against the previous filtered position
+ *
+ * Two checks:
+ * 1. Speed: distance / dt above the profile's maxSpeed
+ * 2. Innovation: squared Mahalanobis distance of the fix from the filter's
+ *    prediction under its innovation covariance ("filter" covariance, when
+ *    a prediction is given), else from the previous position with isotropic
+ *    covariance σ² = measurementSigma² + (processSigma * dt)²
+ *
+ * In "downweight" mode a failing fix is blended toward the same reference
+ * it was gated against (prediction or previous position)
+ */
+export function gateFix(
+  lat: number,
+  lon: number,
+  prevLat: number,
+  prevLon: number,
+  dtSeconds: number,
+  consecutiveRejects: number,
+  config: GatingConfig,
+  prediction?: InnovationPrediction,
+): GateResult {
+  const accepted: GateResult = { rejected: false, weight: 1, lat, lon };
+
+  // Nothing to gate against, or too many rejections in a row
+  // (the sensor has genuinely relocated - re-anchor on this fix)
+  if (
+    config.mode === "off" ||
+    (prevLat === 0 && prevLon === 0) ||
+    consecutiveRejects >= config.maxConsecutiveRejects
+  ) {
+    return accepted;
+  }
+
+  const distance = haversineDistance(prevLat, prevLon, lat, lon);
+
+  // Speed check (only meaningful with a positive time delta)
+  let speedWeight = 1;
+  if (dtSeconds > 0 && distance / dtSeconds > config.maxSpeed) {
+    speedWeight = (config.maxSpeed * dtSeconds) / distance;
+  }
+
+  // Innovation (Mahalanobis) check
+  const predicted = config.covariance === "filter" ? prediction : undefined;
+  let mahalanobisSq: number;
+  if (predicted) {
+    const { east, north } = toLocalENU(predicted.lat, predicted.lon, lat, lon);
+    mahalanobisSq =
+      (east * east) / predicted.varianceEast +
+      (north * north) / predicted.varianceNorth;
+  } else {
+    const dt = Math.max(dtSeconds, 0);
+    const variance =
+      config.measurementSigma ** 2 + (config.processSigma * dt) ** 2;
+    mahalanobisSq = (distance * distance) / variance;
+  }
+  let innovationWeight = 1;
+  if (mahalanobisSq > config.mahalanobisThreshold) {
+    // Huber-style weight: scales the innovation back onto the gate boundary
+    innovationWeight = Math.sqrt(config.mahalanobisThreshold / mahalanobisSq);
+  }
+
+  if (speedWeight === 1 && innovationWeight === 1) {
+    return accepted;
+  }
+
+  const reason: RejectReason =
+    speedWeight <= innovationWeight ? "speed" : "innovation";
+
+  if (config.mode === "drop") {
+    return { rejected: true, reason, weight: 0, lat: prevLat, lon: prevLon };
+  }
+
+  // Down-weight: pull the fix toward the prediction
+  const weight = Math.min(speedWeight, innovationWeight);
+  const anchorLat = predicted ? predicted.lat : prevLat;
+  const anchorLon = predicted ? predicted.lon : prevLon;
+  return {
+    rejected: true,
+    reason,
+    weight,
+    lat: anchorLat + weight * (lat - anchorLat),
+    lon: anchorLon + weight * (lon - anchorLon),
+  };
+}
@@ -0,0 +1,501 @@
+/**
+ * GPS Pipeline Configuration
+ * Named motion profiles (walk, bike, car, train) loaded from a config file
+ * and resolved per sensor
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_CONFIG_FILE = path.join(__dirname, "../config/gps-pipeline.json");
+
+export interface KalmanConfig {
+  // Acceleration noise spectral density (m²/s³) - higher follows manoeuvres faster
+  processNoise: number;
+
+  // Fix variance (m², 25 = 5 m standard deviation)
+  measurementNoise: number;
+
+  // Initial position/velocity variance (m², m²/s²)
+  initialError: number;
+
+  // Error per unit of HDOP (m), used when a fix carries hdop but no accuracy
+  hdopScale: number;
+}
+
+export interface AdaptiveNoiseConfig {
+  // Learn processNoise / measurementNoise per sensor from the innovation
+  // sequence instead of using the profile's fixed values
+  enabled: boolean;
+
+  // Effective averaging window (fixes); higher = slower, steadier estimates
+  window: number;
+
+  // Bounds on the learned values (m²/s³, m²)
+  minProcessNoise: number;
+  maxProcessNoise: number;
+  minMeasurementNoise: number;
+  maxMeasurementNoise: number;
+}
+
+export interface GatingConfig {
+  // "off": accept every fix, "drop": discard outliers,
+  // "downweight": pull outliers toward the prediction before filtering
+  mode: "off" | "drop" | "downweight";
+
+  // Physically implausible speed between fixes (m/s)
+  maxSpeed: number;
+
+  // Covariance of the innovation check: "filter" uses the position filter's
+  // predicted uncertainty plus the fix's measurement noise, "fixed" the
+  // isotropic measurementSigma / processSigma below, independent of the filter
+  covariance: "filter" | "fixed";
+
+  // GPS measurement standard deviation (m, "fixed" covariance)
+  measurementSigma: number;
+
+  // Growth of prediction uncertainty per second (m/s, "fixed" covariance)
+  processSigma: number;
+
+  // Squared Mahalanobis distance gate (chi-square, 2 DOF: 13.8 = 99.9%)
+  mahalanobisThreshold: number;
+
+  // Accept the next fix after this many consecutive rejections
+  // (recovers from genuine relocations instead of rejecting forever)
+  maxConsecutiveRejects: number;
+}
+
+export interface AltitudeConfig {
+  // Vertical acceleration noise density (m²/s³)
+  processNoise: number;
+
+  // GPS altitude variance (m²) - vertical accuracy is worse than horizontal
+  measurementNoise: number;
+
+  // Initial altitude variance (m²)
+  initialError: number;
+
+  // Dead-band before a climb/descent is added to the totals (m)
+  climbThreshold: number;
+}
+
+export interface StayPointConfig {
+  // Maximum distance from the region's first fix (m)
+  distanceThreshold: number;
+
+  // Minimum time inside the region to count as a stay (s)
+  timeThreshold: number;
+}
+
+export interface TripConfig {
+  // Reporting gap that ends a trip (s)
+  maxGap: number;
+
+  // Time without movement that ends a trip (s)
+  stopTimeout: number;
+
+  // Trips shorter than this are discarded as noise (m)
+  minDistance: number;
+}
+
+export interface MovementConfig {
+  // Smoothed speed that starts a move / ends a stop (m/s)
+  enterThreshold: number;
+
+  // Smoothed speed that starts a stop / cancels a start (m/s), below enterThreshold
+  exitThreshold: number;
+
+  // Time a start or stop must persist before it is confirmed (s)
+  startDwell: number;
+  stopDwell: number;
+}
+
+export interface ImmConfig {
+  // Run the interacting multiple-model position stage (stationary,
+  // constant-velocity and manoeuvre models) in place of the single
+  // constant-velocity filter's output
+  enabled: boolean;
+
+  // Position jitter of the stationary model (m²/s)
+  stationaryNoise: number;
+
+  // Process noise multiplier of the manoeuvre model (× kalman.processNoise)
+  manoeuvreNoiseScale: number;
+
+  // Per-fix probability of leaving the current model (split evenly)
+  switchProbability: number;
+
+  // Floor on every model probability (keeps switching responsive)
+  minProbability: number;
+
+  // Drive isMoving from the moving-model probability instead of speed
+  useForMovement: boolean;
+
+  // Moving probability that starts a move / ends a stop (hysteresis, 0-1)
+  enterProbability: number;
+  exitProbability: number;
+}
+
+export interface TransportModeConfig {
+  // Time constant of the exponentially weighted feature window (s)
+  windowSeconds: number;
+
+  // Data needed before a mode is reported (s)
+  warmupSeconds: number;
+
+  // Speed below which a sample counts as stopped (m/s)
+  stopSpeed: number;
+
+  // Report "unknown" while the window is stopped more than this share of time
+  maxStopRate: number;
+}
+
+export interface SpoofLocation {
+  name: string;
+  lat: number;
+  lon: number;
+  radius: number; // m
+}
+
+export interface AnomalyConfig {
+  // Consecutive fixes at identical coordinates flagged as repeated
+  maxRepeatedFixes: number;
+
+  // Speed change beyond which a fix is flagged (m/s²)
+  maxAcceleration: number;
+
+  // Known spoof locations and the jump needed to flag arriving at one (m)
+  spoofLocations: SpoofLocation[];
+  spoofJumpDistance: number;
+}
+
+export interface GeofenceConfig {
+  // Time inside a fence before geofence.dwell (s, fences may override)
+  dwellSeconds: number;
+
+  // Distance outside a fence needed to exit it (m, hysteresis against jitter)
+  exitMargin: number;
+}
+
+export interface MapMatchingConfig {
+  // Snap to the road network (only when one was loaded at worker startup)
+  enabled: boolean;
+
+  // Radius around the smoothed position searched for candidate segments (m)
+  searchRadius: number;
+
+  // Standard deviation of the distance from the road (m, HMM emission)
+  measurementSigma: number;
+
+  // Scale of the route vs. straight-line distance mismatch (m, HMM transition)
+  transitionBeta: number;
+
+  // Candidate segments kept per sample
+  maxCandidates: number;
+
+  // Route search limit as a multiple of the straight-line distance
+  maxRouteFactor: number;
+}
+
+export type VelocitySmoothingMethod =
+  "moving-average" | "ema" | "median" | "savitzky-golay" | "kalman";
+
+export interface VelocitySmoothingConfig {
+  // Filter applied to the instantaneous speed series
+  method: VelocitySmoothingMethod;
+
+  // EMA weight of the newest sample (0-1, higher reacts faster)
+  emaAlpha: number;
+
+  // Savitzky–Golay polynomial order (fitted over velocityWindowSize samples)
+  polynomialOrder: number;
+
+  // 1D Kalman: speed random-walk noise ((m/s)²/s) and speed variance ((m/s)²)
+  processNoise: number;
+  measurementNoise: number;
+}
+
+export interface GPSPipelineConfig {
+  // Profile name this configuration was resolved from
+  profile: string;
+
+  // TimeAlignment resampling rate (Hz)
+  targetSampleRate: number;
+
+  // Reporting gap (s) after which the Kalman/velocity state is reset and a
+  // new track segment starts, instead of interpolating across the gap
+  maxGap: number;
+
+  // Position Kalman filter parameters
+  kalman: KalmanConfig;
+
+  // Online estimation of the Kalman noise parameters
+  adaptiveNoise: AdaptiveNoiseConfig;
+
+  // Interacting multiple-model position stage
+  imm: ImmConfig;
+
+  // Window for velocity smoothing (samples; moving average, median, Savitzky–Golay)
+  velocityWindowSize: number;
+
+  // Velocity smoothing method and its parameters
+  velocitySmoothing: VelocitySmoothingConfig;
+
+  // Minimum smoothed velocity for a meaningful heading / slope (m/s)
+  movementThreshold: number;
+
+  // isMoving hysteresis (STOPPED / STARTING / MOVING / STOPPING)
+  movement: MovementConfig;
+
+  // Online transport mode classification
+  transportMode: TransportModeConfig;
+
+  // Snapping of the smoothed track to a local road network
+  mapMatching: MapMatchingConfig;
+
+  // Geofence dwell time and exit hysteresis
+  geofence: GeofenceConfig;
+
+  // Outlier / teleport rejection before the Kalman filter
+  gating: GatingConfig;
+
+  // Spoofing / device fault detection on raw fixes
+  anomaly: AnomalyConfig;
+
+  // Altitude smoothing (1D constant-velocity Kalman)
+  altitude: AltitudeConfig;
+
+  // Stay-point (dwell) detection
+  stayPoint: StayPointConfig;
+
+  // Trip segmentation
+  trip: TripConfig;
+}
+
+/**
+ * Partial profile as written in the config file (nested groups may be partial too)
+ */
+export type GPSProfileOverrides = {
+  [
+    K in Exclude<keyof GPSPipelineConfig, "profile">
+  ]?: GPSPipelineConfig[K] extends object
+    ? Partial<GPSPipelineConfig[K]>
+    : GPSPipelineConfig[K];
+};
+
+export interface GPSConfigFile {
+  // Profile used for sensors without an explicit assignment
+  defaultProfile: string;
+
+  // Profile definitions (merged on top of DEFAULT_PIPELINE_CONFIG)
+  profiles: Record<string, GPSProfileOverrides>;
+
+  // Sensor -> profile assignments. Keys ending in "*" match by prefix
+  // (e.g. "128-*" for every trajectory of Geolife user 128)
+  sensors: Record<string, string>;
+}
+
+/**
+ * Built-in fallback, used when no config file is present
+ */
+export const DEFAULT_PIPELINE_CONFIG: GPSPipelineConfig = {
+  profile: "default",
+  targetSampleRate: 1, // 1 Hz (1 sample/second)
+  maxGap: 5 * 60,
+  kalman: {
+    processNoise: 1, // ~1 m/s² of unmodelled acceleration
+    measurementNoise: 25, // GPS is noisy (~5 m) - trust individual pings less
+    initialError: 100, // Higher initial uncertainty (~10 m)
+    hdopScale: 5, // Typical user equivalent range error
+  },
+  adaptiveNoise: {
+    enabled: false,
+    window: 50,
+    minProcessNoise: 0.01,
+    maxProcessNoise: 100,
+    minMeasurementNoise: 1, // 1 m
+    maxMeasurementNoise: 2500, // 50 m
+  },
+  imm: {
+    enabled: false,
+    stationaryNoise: 0.5, // GPS wander at a standstill (~0.7 m over 1 s)
+    manoeuvreNoiseScale: 25, // ~5 m/s² of unmodelled acceleration
+    switchProbability: 0.05,
+    minProbability: 0.001,
+    useForMovement: false,
+    enterProbability: 0.7,
+    exitProbability: 0.3,
+  },
+  velocityWindowSize: 5, // 5 samples for moving average
+  velocitySmoothing: {
+    method: "moving-average",
+    emaAlpha: 0.3,
+    polynomialOrder: 2,
+    processNoise: 0.5, // ~0.7 m/s of speed change per second
+    measurementNoise: 1, // ~1 m/s speed noise from the position filter
+  },
+  movementThreshold: 0.5, // Heading / slope only above 0.5 m/s
+  movement: {
+    enterThreshold: 0.7,
+    exitThreshold: 0.3,
+    startDwell: 3,
+    stopDwell: 10,
+  },
+  transportMode: {
+    windowSeconds: 120,
+    warmupSeconds: 30,
+    stopSpeed: 0.5,
+    maxStopRate: 0.9,
+  },
+  mapMatching: {
+    enabled: true,
+    searchRadius: 50,
+    measurementSigma: 10,
+    transitionBeta: 10,
+    maxCandidates: 5,
+    maxRouteFactor: 3,
+  },
+  geofence: {
+    dwellSeconds: 5 * 60,
+    exitMargin: 10,
+  },
+  gating: {
+    mode: "drop",
+    maxSpeed: 70, // ~250 km/h
+    covariance: "filter",
+    measurementSigma: 15, // Typical consumer GPS accuracy
+    processSigma: 20,
+    mahalanobisThreshold: 13.8, // 99.9% for 2 DOF
+    maxConsecutiveRejects: 5,
+  },
+  anomaly: {
+    maxRepeatedFixes: 30,
+    maxAcceleration: 30, // ~3 g, well past any vehicle plus raw fix noise
+    spoofLocations: [{ name: "Null Island", lat: 0, lon: 0, radius: 1000 }],
+    spoofJumpDistance: 1000,
+  },
+  altitude: {
+    processNoise: 0.05,
+    measurementNoise: 100, // ~10 m vertical accuracy
+    initialError: 100,
+    climbThreshold: 3,
+  },
+  stayPoint: {
+    distanceThreshold: 200, // Geolife stay-point defaults
+    timeThreshold: 20 * 60,
+  },
+  trip: {
+    maxGap: 20 * 60,
+    stopTimeout: 5 * 60,
+    minDistance: 100,
+  },
+};
+
+/**
+ * Merge profile overrides on top of a base configuration
+ */
+export function applyProfile(
+  base: GPSPipelineConfig,
+  name: string,
+  overrides: GPSProfileOverrides,
+): GPSPipelineConfig {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    const baseValue = (base as unknown as Record<string, unknown>)[key];
+    merged[key] =
+      value && typeof value === "object" && !Array.isArray(value)
+        ? { ...(baseValue as object), ...value }
+        : value;
+  }
+  merged.profile = name;
+  return merged as unknown as GPSPipelineConfig;
+}
+
+/**
+ * Load config file (GPS_CONFIG_PATH or config/gps-pipeline.json)
+ * Returns an empty config (default profile only) if the file is missing
+ */
+export function loadConfigFile(
+  filePath = process.env.GPS_CONFIG_PATH || DEFAULT_CONFIG_FILE,
+): GPSConfigFile {
+  if (!fs.existsSync(filePath)) {
+    console.warn(`⚠️  GPS config not found: ${filePath} (using defaults)`);
+    return {
+      defaultProfile: DEFAULT_PIPELINE_CONFIG.profile,
+      profiles: {},
+      sensors: {},
+    };
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+
+  return {
+    defaultProfile: parsed.defaultProfile || DEFAULT_PIPELINE_CONFIG.profile,
+    profiles: parsed.profiles || {},
+    sensors: parsed.sensors || {},
+  };
+}
+
+/**
+ * Look up the profile name assigned to a sensor
+ * Exact matches win over prefix ("abc-*") matches; longest prefix wins
+ */
+export function profileForSensor(
+  file: GPSConfigFile,
+  sensorId: string,
+): string {
+  if (file.sensors[sensorId]) {
+    return file.sensors[sensorId];
+  }
+
+  let bestPrefix = "";
+  let bestProfile = file.defaultProfile;
+  for (const [pattern, profile] of Object.entries(file.sensors)) {
+    if (!pattern.endsWith("*")) continue;
+    const prefix = pattern.slice(0, -1);
+    if (sensorId.startsWith(prefix) && prefix.length >= bestPrefix.length) {
+      bestPrefix = prefix;
+      bestProfile = profile;
+    }
+  }
+
+  return bestProfile;
+}
+
+/**
+ * Resolve a named profile into a complete configuration
+ */
+export function resolveProfile(
+  file: GPSConfigFile,
+  name: string,
+): GPSPipelineConfig {
+  const overrides = file.profiles[name];
+  if (!overrides) {
+    if (name !== DEFAULT_PIPELINE_CONFIG.profile) {
+      console.warn(`⚠️  Unknown GPS profile "${name}" (using defaults)`);
+    }
+    return DEFAULT_PIPELINE_CONFIG;
+  }
+  return applyProfile(DEFAULT_PIPELINE_CONFIG, name, overrides);
+}
+
+/**
+ * Resolve the full configuration for a sensor
+ */
+export function resolveSensorConfig(
+  file: GPSConfigFile,
+  sensorId: string,
+): GPSPipelineConfig {
+  return resolveProfile(file, profileForSensor(file, sensorId));
+}
+
+/**
+ * Stable key identifying a configuration (used to share pipelines
+ * between sensors with identical settings)
+ */
+export function configKey(config: GPSPipelineConfig): string {
+  return JSON.stringify(config);
+}
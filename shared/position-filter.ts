@@ -0,0 +1,259 @@
+/**
+ * Position Filter (local ENU frame)
+ * Tracks position with two constant-velocity Kalman axes (east, north) in
+ * metres relative to a per-sensor anchor, so noise parameters mean the same
+ * distance at every latitude and velocity comes out of the state in m/s
+ */
+
+import type { KalmanConfig } from "./pipeline-config.js";
+import { fromLocalENU, toLocalENU } from "./geo.js";
+import {
+  createAxis,
+  predictAxis,
+  updateAxis,
+  type AxisUpdate,
+  type KalmanAxis,
+} from "./kalman.js";
+
+// Re-anchor once the track is this far from the anchor (m), keeping the
+// equirectangular projection error negligible
+const REANCHOR_DISTANCE = 10000;
+
+export interface PositionFilterState {
+  // Origin of the local frame (0/0 = filter not initialized)
+  anchorLat: number;
+  anchorLon: number;
+
+  // x = offset from the anchor (m), v = velocity (m/s)
+  east: KalmanAxis;
+  north: KalmanAxis;
+}
+
+export interface PositionUpdate {
+  state: PositionFilterState;
+  lat: number;
+  lon: number;
+  velocityEast: number; // m/s
+  velocityNorth: number; // m/s
+  speed: number; // m/s
+
+  // Estimated horizontal error (m, DRMS from the position covariance)
+  horizontalError: number;
+
+  // Per-axis measurement update (absent on the first fix and on predictions)
+  innovations?: { east: AxisUpdate; north: AxisUpdate };
+}
+
+// Where the filter expects the next fix, for gating it
+export interface InnovationPrediction {
+  lat: number;
+  lon: number;
+
+  // Innovation variance per ENU axis (m²): predicted position variance
+  // plus the fix's measurement noise
+  varianceEast: number;
+  varianceNorth: number;
+}
+
+/**
+ * Create empty filter state (initialized on the first fix)
+ */
+export function createPositionFilterState(): PositionFilterState {
+  return {
+    anchorLat: 0,
+    anchorLon: 0,
+    east: createAxis(0, 0),
+    north: createAxis(0, 0),
+  };
+}
+
+/**
+ * Whether the filter has been initialized with a fix
+ */
+export function isPositionFilterInitialized(
+  state: PositionFilterState,
+): boolean {
+  return state.anchorLat !== 0 || state.anchorLon !== 0;
+}
+
+/**
+ * Build the update result from a filter state
+ */
+function toUpdate(state: PositionFilterState): PositionUpdate {
+  const { lat, lon } = fromLocalENU(
+    state.anchorLat,
+    state.anchorLon,
+    state.east.x,
+    state.north.x,
+  );
+  return {
+    state,
+    lat,
+    lon,
+    velocityEast: state.east.v,
+    velocityNorth: state.north.v,
+    speed: Math.hypot(state.east.v, state.north.v),
+    horizontalError: Math.sqrt(state.east.p00 + state.north.p00),
+  };
+}
+
+/**
+ * Predict forward by dtSeconds without a fix (dead reckoning on the
+ * velocity state; uncertainty grows with the process noise)
+ */
+export function predictPositionFilter(
+  state: PositionFilterState,
+  dtSeconds: number,
+  config: KalmanConfig,
+): PositionUpdate {
+  return toUpdate({
+    ...state,
+    east: predictAxis(state.east, dtSeconds, config.processNoise),
+    north: predictAxis(state.north, dtSeconds, config.processNoise),
+  });
+}
+
+/**
+ * Predicted position and innovation variance for a fix dtSeconds after the
+ * last update with the given measurement noise (m²)
+ * Returns undefined before the filter is initialized
+ */
+export function predictInnovation(
+  state: PositionFilterState,
+  dtSeconds: number,
+  config: KalmanConfig,
+  measurementNoise: number,
+): InnovationPrediction | undefined {
+  if (!isPositionFilterInitialized(state)) {
+    return undefined;
+  }
+
+  const east = predictAxis(state.east, dtSeconds, config.processNoise);
+  const north = predictAxis(state.north, dtSeconds, config.processNoise);
+  return {
+    ...fromLocalENU(state.anchorLat, state.anchorLon, east.x, north.x),
+    varianceEast: east.p00 + measurementNoise,
+    varianceNorth: north.p00 + measurementNoise,
+  };
+}
+
+/**
+ * Whether a fix reports its own quality (a usable accuracy or HDOP)
+ */
+export function hasReportedAccuracy(accuracy?: number, hdop?: number): boolean {
+  return isUsable(accuracy) || isUsable(hdop);
+}
+
+function isUsable(value?: number): value is number {
+  return value !== undefined && isFinite(value) && value > 0;
+}
+
+/**
+ * Measurement variance for one fix (m²): the fix's own accuracy when
+ * reported, otherwise HDOP scaled by hdopScale, otherwise the profile default
+ */
+export function measurementVariance(
+  config: KalmanConfig,
+  accuracy?: number,
+  hdop?: number,
+): number {
+  if (isUsable(accuracy)) {
+    return accuracy * accuracy;
+  }
+  if (isUsable(hdop)) {
+    const error = hdop * config.hdopScale;
+    return error * error;
+  }
+  return config.measurementNoise;
+}
+
+/**
+ * Measurement variance for a sample TimeAlignment interpolated between two
+ * fixes (m²): the profile default times the number of samples the fix was
+ * resampled into. Interpolated samples are correlated (they carry no
+ * information beyond the two fixes), so at the plain variance a burst
+ * would make the filter overconfident.
+ */
+export function interpolatedVariance(
+  config: KalmanConfig,
+  samples: number,
+): number {
+  return config.measurementNoise * Math.max(samples, 1);
+}
+
+/**
+ * Move the anchor to the current estimate (velocity and covariance carry over)
+ */
+function reanchor(state: PositionFilterState): PositionFilterState {
+  const { lat, lon } = fromLocalENU(
+    state.anchorLat,
+    state.anchorLon,
+    state.east.x,
+    state.north.x,
+  );
+  return {
+    anchorLat: lat,
+    anchorLon: lon,
+    east: { ...state.east, x: 0 },
+    north: { ...state.north, x: 0 },
+  };
+}
+
+/**
+ * Predict forward by dtSeconds and update with a fix (degrees)
+ * measurementNoise overrides the profile's variance for this fix (m²)
+ */
+export function updatePositionFilter(
+  state: PositionFilterState,
+  lat: number,
+  lon: number,
+  dtSeconds: number,
+  config: KalmanConfig,
+  measurementNoise = config.measurementNoise,
+): PositionUpdate {
+  // First fix: anchor the frame here, at rest (position no better than the fix)
+  if (!isPositionFilterInitialized(state)) {
+    const initialError = Math.min(config.initialError, measurementNoise);
+    return toUpdate({
+      anchorLat: lat,
+      anchorLon: lon,
+      east: {
+        ...createAxis(0, config.initialError),
+        p00: initialError,
+      },
+      north: {
+        ...createAxis(0, config.initialError),
+        p00: initialError,
+      },
+    });
+  }
+
+  const { east: zEast, north: zNorth } = toLocalENU(
+    state.anchorLat,
+    state.anchorLon,
+    lat,
+    lon,
+  );
+
+  const east = updateAxis(
+    predictAxis(state.east, dtSeconds, config.processNoise),
+    zEast,
+    measurementNoise,
+  );
+  const north = updateAxis(
+    predictAxis(state.north, dtSeconds, config.processNoise),
+    zNorth,
+    measurementNoise,
+  );
+  let next: PositionFilterState = {
+    ...state,
+    east: east.axis,
+    north: north.axis,
+  };
+
+  if (Math.hypot(next.east.x, next.north.x) > REANCHOR_DISTANCE) {
+    next = reanchor(next);
+  }
+
+  return { ...toUpdate(next), innovations: { east, north } };
+}
@@ -0,0 +1,387 @@
+/**
+ * Road Network
+ * Local road graph for map matching, loaded once at worker startup from a
+ * GeoJSON file (LineString / MultiLineString features) or an OSM XML extract
+ * (ways tagged highway=*). Ways are split into straight segments between
+ * consecutive vertices; vertices shared by several ways (same coordinates)
+ * become graph nodes, so routing works across roads. A uniform grid indexes
+ * the segments for candidate lookup. Roads are treated as bidirectional.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { fromLocalENU, haversineDistance, toLocalENU } from "./geo.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_ROAD_NETWORK_FILE = path.join(
+  __dirname,
+  "../config/roads.geojson",
+);
+
+// Grid cell size for the segment index (degrees, ~550 m of latitude)
+const GRID_CELL = 0.005;
+
+export interface RoadSegment {
+  // Road (GeoJSON feature / OSM way) the segment belongs to
+  roadId: string;
+
+  // Graph nodes at either end (indices into RoadNetwork.nodes)
+  startNode: number;
+  endNode: number;
+
+  length: number; // m
+}
+
+export interface RoadNode {
+  lat: number;
+  lon: number;
+}
+
+export interface RoadNetwork {
+  nodes: RoadNode[];
+  segments: RoadSegment[];
+
+  // Segments touching each node
+  adjacency: number[][];
+
+  // Grid cell key -> segments whose bounding box overlaps the cell
+  grid: Map<string, number[]>;
+}
+
+export interface SegmentProjection {
+  segment: number;
+
+  // Distance along the segment from its start node (m)
+  offset: number;
+
+  // Closest point on the segment and its distance from the query (m)
+  lat: number;
+  lon: number;
+  distance: number;
+}
+
+interface RoadGeometry {
+  id: string;
+  coordinates: [number, number][]; // [lat, lon]
+}
+
+function cellKey(latCell: number, lonCell: number): string {
+  return `${latCell}:${lonCell}`;
+}
+
+/**
+ * Build the graph and index from road polylines
+ */
+export function buildRoadNetwork(roads: RoadGeometry[]): RoadNetwork {
+  const network: RoadNetwork = {
+    nodes: [],
+    segments: [],
+    adjacency: [],
+    grid: new Map(),
+  };
+  const nodeIds = new Map<string, number>();
+
+  const nodeFor = (lat: number, lon: number): number => {
+    const key = `${lat.toFixed(7)},${lon.toFixed(7)}`;
+    let id = nodeIds.get(key);
+    if (id === undefined) {
+      id = network.nodes.length;
+      nodeIds.set(key, id);
+      network.nodes.push({ lat, lon });
+      network.adjacency.push([]);
+    }
+    return id;
+  };
+
+  for (const road of roads) {
+    for (let i = 1; i < road.coordinates.length; i++) {
+      const [lat1, lon1] = road.coordinates[i - 1];
+      const [lat2, lon2] = road.coordinates[i];
+      const startNode = nodeFor(lat1, lon1);
+      const endNode = nodeFor(lat2, lon2);
+      if (startNode === endNode) continue;
+
+      const segment = network.segments.length;
+      network.segments.push({
+        roadId: road.id,
+        startNode,
+        endNode,
+        length: haversineDistance(lat1, lon1, lat2, lon2),
+      });
+      network.adjacency[startNode].push(segment);
+      network.adjacency[endNode].push(segment);
+
+      // Index every grid cell the segment's bounding box touches
+      for (
+        let latCell = Math.floor(Math.min(lat1, lat2) / GRID_CELL);
+        latCell <= Math.floor(Math.max(lat1, lat2) / GRID_CELL);
+        latCell++
+      ) {
+        for (
+          let lonCell = Math.floor(Math.min(lon1, lon2) / GRID_CELL);
+          lonCell <= Math.floor(Math.max(lon1, lon2) / GRID_CELL);
+          lonCell++
+        ) {
+          const key = cellKey(latCell, lonCell);
+          const cell = network.grid.get(key);
+          if (cell) {
+            cell.push(segment);
+          } else {
+            network.grid.set(key, [segment]);
+          }
+        }
+      }
+    }
+  }
+
+  return network;
+}
+
+/**
+ * Road polylines from a GeoJSON FeatureCollection
+ * Road id: feature id, else properties.id / osm_id, else the feature index
+ */
+function parseGeoJSON(content: string): RoadGeometry[] {
+  const parsed = JSON.parse(content);
+  const features: any[] =
+    parsed.type === "FeatureCollection" ? parsed.features : [parsed];
+  const roads: RoadGeometry[] = [];
+
+  features.forEach((feature, index) => {
+    const geometry = feature?.geometry;
+    const id = String(
+      feature.id ??
+        feature.properties?.id ??
+        feature.properties?.osm_id ??
+        `feature-${index}`,
+    );
+    const lines: number[][][] =
+      geometry?.type === "LineString"
+        ? [geometry.coordinates]
+        : geometry?.type === "MultiLineString"
+          ? geometry.coordinates
+          : [];
+
+    // GeoJSON positions are [lon, lat]
+    for (const line of lines) {
+      roads.push({
+        id,
+        coordinates: line.map(([lon, lat]) => [lat, lon]),
+      });
+    }
+  });
+
+  return roads;
+}
+
+/**
+ * Attributes of an XML start tag (name="value" pairs)
+ */
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/(\w+)="([^"]*)"/g)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Road polylines from an OSM XML extract (ways tagged highway=*)
+ */
+function parseOSM(content: string): RoadGeometry[] {
+  const nodes = new Map<string, [number, number]>();
+  for (const [, tag] of content.matchAll(/<node\b([^>]*)>/g)) {
+    const { id, lat, lon } = xmlAttributes(tag);
+    if (id && lat && lon) {
+      nodes.set(id, [parseFloat(lat), parseFloat(lon)]);
+    }
+  }
+
+  const roads: RoadGeometry[] = [];
+  for (const [, tag, body] of content.matchAll(
+    /<way\b([^>]*)>([\s\S]*?)<\/way>/g,
+  )) {
+    if (!/<tag\s+k="highway"/.test(body)) continue;
+
+    const coordinates = [...body.matchAll(/<nd\s+ref="([^"]+)"/g)]
+      .map(([, ref]) => nodes.get(ref))
+      .filter((node): node is [number, number] => node !== undefined);
+    roads.push({ id: xmlAttributes(tag).id ?? "", coordinates });
+  }
+
+  return roads;
+}
+
+/**
+ * Load the road network (ROAD_NETWORK_PATH or config/roads.geojson)
+ * .osm files are read as OSM XML, anything else as GeoJSON
+ * Returns null if the file is missing (map matching is then skipped)
+ */
+export function loadRoadNetwork(
+  filePath = process.env.ROAD_NETWORK_PATH || DEFAULT_ROAD_NETWORK_FILE,
+): RoadNetwork | null {
+  if (!fs.existsSync(filePath)) {
+    console.warn(
+      `⚠️  Road network not found: ${filePath} (map matching disabled)`,
+    );
+    return null;
+  }
+
+  const content = fs.readFileSync(filePath, "utf-8");
+  const roads =
+    path.extname(filePath).toLowerCase() === ".osm"
+      ? parseOSM(content)
+      : parseGeoJSON(content);
+  const network = buildRoadNetwork(roads);
+
+  console.log(
+    `🛣️  Loaded road network: ${roads.length} roads, ${network.segments.length} segments (${filePath})`,
+  );
+  return network;
+}
+
+/**
+ * Project a point onto a segment (local ENU frame around the point)
+ */
+export function projectOntoSegment(
+  network: RoadNetwork,
+  segment: number,
+  lat: number,
+  lon: number,
+): SegmentProjection {
+  const { startNode, endNode, length } = network.segments[segment];
+  const start = network.nodes[startNode];
+  const end = network.nodes[endNode];
+  const a = toLocalENU(lat, lon, start.lat, start.lon);
+  const b = toLocalENU(lat, lon, end.lat, end.lon);
+
+  const dx = b.east - a.east;
+  const dy = b.north - a.north;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq > 0
+      ? Math.min(Math.max(-(a.east * dx + a.north * dy) / lengthSq, 0), 1)
+      : 0;
+  const east = a.east + t * dx;
+  const north = a.north + t * dy;
+
+  return {
+    segment,
+    offset: t * length,
+    ...fromLocalENU(lat, lon, east, north),
+    distance: Math.hypot(east, north),
+  };
+}
+
+/**
+ * Point at a distance along a segment from its start node
+ */
+export function pointOnSegment(
+  network: RoadNetwork,
+  segment: number,
+  offset: number,
+): RoadNode {
+  const { startNode, endNode, length } = network.segments[segment];
+  const start = network.nodes[startNode];
+  const end = network.nodes[endNode];
+  const t = length > 0 ? Math.min(Math.max(offset / length, 0), 1) : 0;
+  return {
+    lat: start.lat + t * (end.lat - start.lat),
+    lon: start.lon + t * (end.lon - start.lon),
+  };
+}
+
+/**
+ * Segments within radius (m) of a point, nearest first
+ */
+export function nearbySegments(
+  network: RoadNetwork,
+  lat: number,
+  lon: number,
+  radius: number,
+): SegmentProjection[] {
+  const latRadius = radius / 111320;
+  const lonRadius = radius / (111320 * Math.cos((lat * Math.PI) / 180));
+  const seen = new Set<number>();
+  const projections: SegmentProjection[] = [];
+
+  for (
+    let latCell = Math.floor((lat - latRadius) / GRID_CELL);
+    latCell <= Math.floor((lat + latRadius) / GRID_CELL);
+    latCell++
+  ) {
+    for (
+      let lonCell = Math.floor((lon - lonRadius) / GRID_CELL);
+      lonCell <= Math.floor((lon + lonRadius) / GRID_CELL);
+      lonCell++
+    ) {
+      for (const segment of network.grid.get(cellKey(latCell, lonCell)) ?? []) {
+        if (seen.has(segment)) continue;
+        seen.add(segment);
+
+        const projection = projectOntoSegment(network, segment, lat, lon);
+        if (projection.distance <= radius) {
+          projections.push(projection);
+        }
+      }
+    }
+  }
+
+  return projections.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Shortest distance along the roads between two points on segments (m)
+ * Dijkstra from the ends of the first segment, abandoned past maxDistance
+ * (returns Infinity when the target is not reachable within it)
+ */
+export function routeDistance(
+  network: RoadNetwork,
+  from: { segment: number; offset: number },
+  to: { segment: number; offset: number },
+  maxDistance: number,
+): number {
+  if (from.segment === to.segment) {
+    return Math.abs(to.offset - from.offset);
+  }
+
+  const source = network.segments[from.segment];
+  const target = network.segments[to.segment];
+  const distances = new Map<number, number>([
+    [source.startNode, from.offset],
+    [source.endNode, source.length - from.offset],
+  ]);
+  const queue = [source.startNode, source.endNode];
+  const done = new Set<number>();
+
+  while (queue.length > 0) {
+    // Closest unsettled node (queues stay small within maxDistance)
+    let best = 0;
+    for (let i = 1; i < queue.length; i++) {
+      if (distances.get(queue[i])! < distances.get(queue[best])!) best = i;
+    }
+    const node = queue.splice(best, 1)[0];
+    const distance = distances.get(node)!;
+    if (done.has(node)) continue;
+    if (distance > maxDistance) break;
+    done.add(node);
+
+    for (const segment of network.adjacency[node]) {
+      const { startNode, endNode, length } = network.segments[segment];
+      const next = startNode === node ? endNode : startNode;
+      const candidate = distance + length;
+      if (!done.has(next) && candidate < (distances.get(next) ?? Infinity)) {
+        distances.set(next, candidate);
+        queue.push(next);
+      }
+    }
+  }
+
+  const result = Math.min(
+    (distances.get(target.startNode) ?? Infinity) + to.offset,
+    (distances.get(target.endNode) ?? Infinity) + target.length - to.offset,
+  );
+  return result <= maxDistance ? result : Infinity;
+}
@@ -0,0 +1,183 @@
+/**
+ * Versioned State Format
+ * Self-describing container for binary state blobs: a header with a magic
+ * tag, the format version and the field layout (name and byte length of
+ * every field), followed by the field bodies in layout order.
+ *
+ *   magic:   4 bytes (ASCII)
+ *   version: uint16
+ *   fields:  uint16 count + per field: name length (uint8) + name (ASCII)
+ *            + body length (uint32)
+ *   bodies:  concatenated, in the order listed
+ *
+ * Blobs from older versions are upgraded on read by registered migrations
+ * (one per version step, operating on the named field bodies). Blobs
+ * without the magic tag are version 0, a single "legacy" field holding the
+ * headerless layout written before versioning. All integers little-endian.
+ * Anything that cannot be decoded throws a StateDecodeError with a reason,
+ * for the caller to count and log before discarding the blob.
+ */
+
+// Stable order for the decode failure counters
+export const STATE_DECODE_REASONS = [
+  "header", // magic present but the header is truncated or inconsistent
+  "version", // newer than this build, or no migration path
+  "migration", // a migration rejected the stored fields
+  "field", // a field is missing, truncated or holds an invalid value
+] as const;
+
+export type StateDecodeReason = (typeof STATE_DECODE_REASONS)[number];
+
+export class StateDecodeError extends Error {
+  constructor(
+    readonly reason: StateDecodeReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = "StateDecodeError";
+  }
+}
+
+// Field name -> body, in layout order
+export type StateFields = Map<string, Buffer>;
+
+// Upgrades the fields of one version to the next (throw to reject)
+export type StateMigration = (fields: StateFields) => StateFields;
+
+export interface DecodedState {
+  fields: StateFields; // at the current version
+  storedVersion: number; // version found in the blob (0 = legacy)
+}
+
+// Field holding the whole blob of a headerless (version 0) value
+export const LEGACY_FIELD = "legacy";
+
+export class VersionedStateFormat {
+  private migrations = new Map<number, StateMigration>();
+
+  constructor(
+    readonly magic: string,
+    readonly version: number,
+  ) {
+    if (Buffer.byteLength(magic, "ascii") !== 4) {
+      throw new Error(`State format magic must be 4 ASCII bytes: "${magic}"`);
+    }
+  }
+
+  /**
+   * Register the upgrade from fromVersion to fromVersion + 1
+   */
+  registerMigration(fromVersion: number, migrate: StateMigration): void {
+    this.migrations.set(fromVersion, migrate);
+  }
+
+  /**
+   * Encode fields at the current version
+   */
+  encode(fields: StateFields): Buffer {
+    const header: Buffer[] = [Buffer.from(this.magic, "ascii")];
+    const counts = Buffer.allocUnsafe(4);
+    counts.writeUInt16LE(this.version, 0);
+    counts.writeUInt16LE(fields.size, 2);
+    header.push(counts);
+
+    for (const [name, body] of fields) {
+      const nameBytes = Buffer.from(name, "ascii");
+      const entry = Buffer.allocUnsafe(1 + nameBytes.length + 4);
+      entry.writeUInt8(nameBytes.length, 0);
+      nameBytes.copy(entry, 1);
+      entry.writeUInt32LE(body.length, 1 + nameBytes.length);
+      header.push(entry);
+    }
+
+    return Buffer.concat([...header, ...fields.values()]);
+  }
+
+  /**
+   * Decode a blob and migrate it to the current version
+   */
+  decode(buffer: Buffer): DecodedState {
+    let { version, fields } = this.parse(buffer);
+    const storedVersion = version;
+
+    if (version > this.version) {
+      throw new StateDecodeError(
+        "version",
+        `stored version ${version} is newer than supported version ${this.version}`,
+      );
+    }
+
+    while (version < this.version) {
+      const migrate = this.migrations.get(version);
+      if (!migrate) {
+        throw new StateDecodeError(
+          "version",
+          `no migration from version ${version}`,
+        );
+      }
+      try {
+        fields = migrate(fields);
+      } catch (err) {
+        throw new StateDecodeError(
+          "migration",
+          `migration from version ${version} failed: ${(err as Error).message}`,
+        );
+      }
+      version++;
+    }
+
+    return { fields, storedVersion };
+  }
+
+  /**
+   * Split a blob into its version and field bodies
+   */
+  private parse(buffer: Buffer): { version: number; fields: StateFields } {
+    if (buffer.length < 4 || buffer.toString("ascii", 0, 4) !== this.magic) {
+      return { version: 0, fields: new Map([[LEGACY_FIELD, buffer]]) };
+    }
+
+    try {
+      const version = buffer.readUInt16LE(4);
+      const count = buffer.readUInt16LE(6);
+      let offset = 8;
+
+      const layout: { name: string; length: number }[] = [];
+      for (let i = 0; i < count; i++) {
+        const nameLength = buffer.readUInt8(offset);
+        if (offset + 1 + nameLength > buffer.length) {
+          throw new RangeError("field name past the end of the blob");
+        }
+        const name = buffer.toString(
+          "ascii",
+          offset + 1,
+          offset + 1 + nameLength,
+        );
+        offset += 1 + nameLength;
+        layout.push({ name, length: buffer.readUInt32LE(offset) });
+        offset += 4;
+      }
+
+      const fields: StateFields = new Map();
+      for (const { name, length } of layout) {
+        if (offset + length > buffer.length) {
+          throw new RangeError(`field "${name}" past the end of the blob`);
+        }
+        fields.set(name, buffer.subarray(offset, offset + length));
+        offset += length;
+      }
+      if (offset !== buffer.length) {
+        throw new RangeError(
+          `${buffer.length - offset} bytes after the last field`,
+        );
+      }
+
+      return { version, fields };
+    } catch (err) {
+      if (err instanceof RangeError) {
+        throw new StateDecodeError("header", `corrupt header: ${err.message}`);
+      }
+      throw err;
+    }
+  }
+}
@@ -1,16 +1,69 @@
 /**
  * GPS State Manager
- * Handles serialization/deserialization of application state to/from Redis
+ * Handles serialization/deserialization of application state to/from the
+ * configured state store (Redis, in-memory or file, see state-store.ts)
  * Pipeline state (Kalman, MovingAverage, TimeAlignment) is managed by dspx
+ * App state blobs are versioned (see state-format.ts); add a field or change
+ * one's encoding by bumping APP_STATE_VERSION and registering a migration
  */
 
-import type Redis from "ioredis";
 import type { createDspPipeline } from "dspx";
+import {
+  applyProfile,
+  DEFAULT_PIPELINE_CONFIG,
+  type GPSPipelineConfig,
+} from "./pipeline-config.js";
+import type { KalmanAxis } from "./kalman.js";
+import { createElevationState, type ElevationState } from "./elevation.js";
+import { createMotionState, type MotionState } from "./motion.js";
+import { createStayState, type StayState } from "./stay-point.js";
+import { createTripState, type TripState } from "./trips.js";
+import { createOdometerState, type OdometerState } from "./odometer.js";
+import { createNoiseEstimate, type NoiseEstimate } from "./adaptive-noise.js";
+import {
+  createMovementState,
+  MOVEMENT_PHASES,
+  type MovementState,
+} from "./movement.js";
+import { createImmState, IMM_MODELS, type ImmState } from "./imm.js";
+import {
+  createTransportModeState,
+  type TransportModeState,
+} from "./transport-mode.js";
+import {
+  createMatchState,
+  type MatchCandidate,
+  type MatchState,
+} from "./map-matching.js";
+import {
+  createPositionFilterState,
+  type PositionFilterState,
+} from "./position-filter.js";
+import {
+  createVelocityFilterState,
+  type VelocityFilterState,
+} from "./velocity-filter.js";
+import type { TripSummary } from "./events.js";
+import type { Geofence, GeofenceMemberships } from "./geofence.js";
+import {
+  ANOMALY_TYPES,
+  createAnomalyState,
+  type AnomalyState,
+  type AnomalyType,
+} from "./anomaly.js";
+import {
+  LEGACY_FIELD,
+  STATE_DECODE_REASONS,
+  StateDecodeError,
+  VersionedStateFormat,
+  type StateDecodeReason,
+  type StateFields,
+} from "./state-format.js";
+import type { StateStore } from "./state-store.js";
 
 export interface AppState {
-  // Velocity buffer for moving average (last N velocities)
-  velocityBuffer: Float64Array;
-  velocityIndex: number;
+  // Velocity smoothing (window of last N speeds + recursive estimate)
+  velocity: VelocityFilterState;
 
   // Timestamp of last update (milliseconds)
   lastTimestamp: number;
@@ -18,102 +71,766 @@ export interface AppState {
   // Previous smoothed position (for velocity calculation)
   prevLat: number;
   prevLon: number;
+
+  // Consecutive fixes rejected by the outlier gate
+  rejectCount: number;
+
+  // Position Kalman filter in the sensor's local ENU frame (anchor + state)
+  position: PositionFilterState;
+
+  // IMM position stage (anchor + per-model state and probability)
+  imm: ImmState;
+
+  // Last heading and speed (for acceleration / turn rate)
+  motion: MotionState;
+
+  // Movement hysteresis (phase and when it was entered)
+  movement: MovementState;
+
+  // Altitude filter and cumulative ascent/descent
+  elevation: ElevationState;
+
+  // Stay-point detector (candidate region and whether a stay is active)
+  stay: StayState;
+
+  // Trip in progress (running totals for the summary)
+  trip: TripState;
+
+  // Running totals since the first fix or the last reset
+  odometer: OdometerState;
+
+  // Learned Kalman noise (adaptive mode; kept across track segments)
+  noise: NoiseEstimate;
+
+  // Transport mode classifier window
+  transport: TransportModeState;
+
+  // Map matching candidates (empty without a road network)
+  match: MatchState;
+
+  // Spoofing / anomaly detector (previous raw fixes)
+  anomaly: AnomalyState;
 }
 
-const VELOCITY_WINDOW_SIZE = 5;
+/**
+ * Position filter and its timeline - all a prediction needs
+ * (the monolith's AppState, or the modular position-smoother's state)
+ */
+export type PositionSnapshot = Pick<
+  AppState,
+  "lastTimestamp" | "position" | "noise"
+>;
+
+/**
+ * Position-smoother worker state (the modular pipeline's first stage): the
+ * snapshot plus the gate, IMM, altitude and anomaly state, as in AppState
+ */
+export type PositionSmootherState = PositionSnapshot &
+  Pick<
+    AppState,
+    "prevLat" | "prevLon" | "rejectCount" | "imm" | "elevation" | "anomaly"
+  >;
+
+/**
+ * Velocity-smoother worker state (the modular pipeline's final stage)
+ */
+export interface VelocitySmootherState {
+  // Timestamp and smoothed position of the last sample
+  lastTimestamp: number;
+  prevLat: number;
+  prevLon: number;
+
+  // Velocity smoothing (same filter state as the monolith)
+  velocity: VelocityFilterState;
+
+  // Movement hysteresis
+  movement: MovementState;
+
+  // Running totals since the first fix or the last reset
+  odometer: OdometerState;
+
+  // Transport mode classifier window
+  transport: TransportModeState;
+
+  // Map matching candidates (empty without a road network)
+  match: MatchState;
+
+  // Stay-point detector and trip in progress (as in the app state)
+  stay: StayState;
+  trip: TripState;
+}
+
+const DEFAULT_VELOCITY_WINDOW_SIZE = 5;
 const STATE_TTL = 3600; // 1 hour in seconds
+const TRIPS_TTL = 7 * 24 * 3600; // Trip summaries kept for a week
+const MAX_TRIPS = 100; // Per sensor, newest first
+const GEOFENCES_KEY = "gps:geofences"; // Hash: geofence id -> JSON definition
+const ANOMALIES_TTL = 7 * 24 * 3600; // Anomaly counters kept for a week
+const STATE_METRICS_KEY = "gps:metrics:app-state"; // Hash: decode outcome -> count
 
-export class GPSStateManager {
-  constructor(private redis: Redis) {}
+// App state blob format ("GPSA", one field per AppState property)
+const APP_STATE_MAGIC = "GPSA";
+const APP_STATE_VERSION = 1;
 
-  /**
-   * Create initial state for a new sensor
-   */
-  createInitialState(lat: number, lon: number, timestamp: number): AppState {
+/**
+ * Little-endian binary writer for app state serialization
+ */
+class StateWriter {
+  private chunks: Buffer[] = [];
+
+  double(value: number): void {
+    const chunk = Buffer.allocUnsafe(8);
+    chunk.writeDoubleLE(value, 0);
+    this.chunks.push(chunk);
+  }
+
+  uint32(value: number): void {
+    const chunk = Buffer.allocUnsafe(4);
+    chunk.writeUInt32LE(value, 0);
+    this.chunks.push(chunk);
+  }
+
+  axis(axis: KalmanAxis): void {
+    this.double(axis.x);
+    this.double(axis.v);
+    this.double(axis.p00);
+    this.double(axis.p01);
+    this.double(axis.p11);
+  }
+
+  positionFilter(state: PositionFilterState): void {
+    this.double(state.anchorLat);
+    this.double(state.anchorLon);
+    this.axis(state.east);
+    this.axis(state.north);
+  }
+
+  // Window (length-prefixed), index, count, estimate, variance
+  velocityFilter(state: VelocityFilterState): void {
+    this.uint32(state.buffer.length);
+    for (const velocity of state.buffer) {
+      this.double(velocity);
+    }
+    this.uint32(state.index);
+    this.uint32(state.count);
+    this.double(state.estimate);
+    this.double(state.variance);
+  }
+
+  motion(state: MotionState): void {
+    this.double(state.heading);
+    this.double(state.speed);
+  }
+
+  movement(state: MovementState): void {
+    this.uint32(MOVEMENT_PHASES.indexOf(state.phase));
+    this.double(state.since);
+  }
+
+  elevation(state: ElevationState): void {
+    this.axis(state.filter);
+    this.double(state.lastTimestamp);
+    this.double(state.reference);
+    this.double(state.ascent);
+    this.double(state.descent);
+  }
+
+  stay(state: StayState): void {
+    this.double(state.anchorLat);
+    this.double(state.anchorLon);
+    this.double(state.anchorTime);
+    this.double(state.lastTime);
+    this.uint32(state.count);
+    this.double(state.sumEast);
+    this.double(state.sumNorth);
+    this.double(state.sumSqEast);
+    this.double(state.sumSqNorth);
+    this.uint32(state.active ? 1 : 0);
+  }
+
+  trip(state: TripState): void {
+    this.uint32(state.active ? 1 : 0);
+    this.double(state.startTime);
+    this.double(state.startLat);
+    this.double(state.startLon);
+    this.double(state.lastMovingTime);
+    this.double(state.lastMovingLat);
+    this.double(state.lastMovingLon);
+    this.double(state.distance);
+    this.double(state.movingTime);
+    this.double(state.speedSum);
+    this.uint32(state.speedCount);
+    this.double(state.maxSpeed);
+  }
+
+  odometer(state: OdometerState): void {
+    this.double(state.totalDistance);
+    this.double(state.movingTime);
+    this.double(state.stoppedTime);
+    this.double(state.maxSpeed);
+  }
+
+  // Anchor + per model (IMM_MODELS order): east, north, probability
+  imm(state: ImmState): void {
+    this.double(state.anchorLat);
+    this.double(state.anchorLon);
+    for (const model of state.models) {
+      this.axis(model.east);
+      this.axis(model.north);
+      this.double(model.probability);
+    }
+  }
+
+  transport(state: TransportModeState): void {
+    this.double(state.elapsed);
+    this.double(state.meanSpeed);
+    this.double(state.meanSquareSpeed);
+    this.double(state.meanAcceleration);
+    this.double(state.meanHeadingChange);
+    this.double(state.stopRate);
+  }
+
+  // Last position + candidates (count-prefixed): segment, offset, score
+  match(state: MatchState): void {
+    this.double(state.lastLat);
+    this.double(state.lastLon);
+    this.uint32(state.candidates.length);
+    for (const candidate of state.candidates) {
+      this.uint32(candidate.segment);
+      this.double(candidate.offset);
+      this.double(candidate.logProbability);
+    }
+  }
+
+  anomaly(state: AnomalyState): void {
+    this.double(state.lastLat);
+    this.double(state.lastLon);
+    this.double(state.lastTimestamp);
+    this.uint32(state.repeatCount);
+    this.double(state.refLat);
+    this.double(state.refLon);
+    this.double(state.refTimestamp);
+    this.double(state.refSpeed);
+  }
+
+  noise(estimate: NoiseEstimate): void {
+    this.double(estimate.processNoise);
+    this.double(estimate.measurementNoise);
+    this.uint32(estimate.samples);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+/**
+ * Little-endian binary reader (throws RangeError past the end of the buffer)
+ */
+class StateReader {
+  private offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  double(): number {
+    const value = this.buffer.readDoubleLE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  uint32(): number {
+    const value = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  axis(): KalmanAxis {
     return {
-      velocityBuffer: new Float64Array(VELOCITY_WINDOW_SIZE),
-      velocityIndex: 0,
-      lastTimestamp: timestamp,
-      prevLat: lat,
-      prevLon: lon,
+      x: this.double(),
+      v: this.double(),
+      p00: this.double(),
+      p01: this.double(),
+      p11: this.double(),
     };
   }
 
-  /**
-   * Serialize app state to binary buffer (64 bytes)
-   */
-  private serializeAppState(state: AppState): Buffer {
-    // Calculate buffer size:
-    // velocityBuffer: 5 * 8 = 40 bytes
-    // velocityIndex: 4 bytes (uint32)
-    // lastTimestamp: 8 bytes (float64)
-    // prevLat: 8 bytes (float64)
-    // prevLon: 8 bytes (float64)
-    // Total: 68 bytes
-    const buffer = Buffer.allocUnsafe(68);
-    let offset = 0;
+  positionFilter(): PositionFilterState {
+    return {
+      anchorLat: this.double(),
+      anchorLon: this.double(),
+      east: this.axis(),
+      north: this.axis(),
+    };
+  }
 
-    // Write velocityBuffer (5 doubles)
-    for (let i = 0; i < VELOCITY_WINDOW_SIZE; i++) {
-      buffer.writeDoubleLE(state.velocityBuffer[i], offset);
-      offset += 8;
+  velocityFilter(): VelocityFilterState {
+    const windowSize = this.uint32();
+    const buffer = new Float64Array(windowSize);
+    for (let i = 0; i < windowSize; i++) {
+      buffer[i] = this.double();
     }
+    return {
+      buffer,
+      index: this.uint32(),
+      count: this.uint32(),
+      estimate: this.double(),
+      variance: this.double(),
+    };
+  }
 
-    // Write velocityIndex (uint32)
-    buffer.writeUInt32LE(state.velocityIndex, offset);
-    offset += 4;
+  motion(): MotionState {
+    return {
+      heading: this.double(),
+      speed: this.double(),
+    };
+  }
 
-    // Write lastTimestamp (double)
-    buffer.writeDoubleLE(state.lastTimestamp, offset);
-    offset += 8;
+  // Returns null for an unknown phase index
+  movement(): MovementState | null {
+    const phase = MOVEMENT_PHASES[this.uint32()];
+    const since = this.double();
+    return phase ? { phase, since } : null;
+  }
 
-    // Write prevLat (double)
-    buffer.writeDoubleLE(state.prevLat, offset);
-    offset += 8;
+  elevation(): ElevationState {
+    return {
+      filter: this.axis(),
+      lastTimestamp: this.double(),
+      reference: this.double(),
+      ascent: this.double(),
+      descent: this.double(),
+    };
+  }
 
-    // Write prevLon (double)
-    buffer.writeDoubleLE(state.prevLon, offset);
+  stay(): StayState {
+    return {
+      anchorLat: this.double(),
+      anchorLon: this.double(),
+      anchorTime: this.double(),
+      lastTime: this.double(),
+      count: this.uint32(),
+      sumEast: this.double(),
+      sumNorth: this.double(),
+      sumSqEast: this.double(),
+      sumSqNorth: this.double(),
+      active: this.uint32() === 1,
+    };
+  }
 
-    return buffer;
+  trip(): TripState {
+    return {
+      active: this.uint32() === 1,
+      startTime: this.double(),
+      startLat: this.double(),
+      startLon: this.double(),
+      lastMovingTime: this.double(),
+      lastMovingLat: this.double(),
+      lastMovingLon: this.double(),
+      distance: this.double(),
+      movingTime: this.double(),
+      speedSum: this.double(),
+      speedCount: this.uint32(),
+      maxSpeed: this.double(),
+    };
   }
 
-  /**
-   * Deserialize app state from binary buffer
-   */
-  private deserializeAppState(buffer: Buffer): AppState {
-    let offset = 0;
+  odometer(): OdometerState {
+    return {
+      totalDistance: this.double(),
+      movingTime: this.double(),
+      stoppedTime: this.double(),
+      maxSpeed: this.double(),
+    };
+  }
+
+  imm(): ImmState {
+    const anchorLat = this.double();
+    const anchorLon = this.double();
+    return {
+      anchorLat,
+      anchorLon,
+      models: IMM_MODELS.map(() => ({
+        east: this.axis(),
+        north: this.axis(),
+        probability: this.double(),
+      })),
+    };
+  }
+
+  transport(): TransportModeState {
+    return {
+      elapsed: this.double(),
+      meanSpeed: this.double(),
+      meanSquareSpeed: this.double(),
+      meanAcceleration: this.double(),
+      meanHeadingChange: this.double(),
+      stopRate: this.double(),
+    };
+  }
 
-    // Read velocityBuffer (5 doubles)
-    const velocityBuffer = new Float64Array(VELOCITY_WINDOW_SIZE);
-    for (let i = 0; i < VELOCITY_WINDOW_SIZE; i++) {
-      velocityBuffer[i] = buffer.readDoubleLE(offset);
-      offset += 8;
+  match(): MatchState {
+    const lastLat = this.double();
+    const lastLon = this.double();
+    const count = this.uint32();
+    const candidates: MatchCandidate[] = [];
+    for (let i = 0; i < count; i++) {
+      candidates.push({
+        segment: this.uint32(),
+        offset: this.double(),
+        logProbability: this.double(),
+      });
     }
+    return { lastLat, lastLon, candidates };
+  }
+
+  anomaly(): AnomalyState {
+    return {
+      lastLat: this.double(),
+      lastLon: this.double(),
+      lastTimestamp: this.double(),
+      repeatCount: this.uint32(),
+      refLat: this.double(),
+      refLon: this.double(),
+      refTimestamp: this.double(),
+      refSpeed: this.double(),
+    };
+  }
+
+  noise(): NoiseEstimate {
+    return {
+      processNoise: this.double(),
+      measurementNoise: this.double(),
+      samples: this.uint32(),
+    };
+  }
+
+  get done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+}
+
+/**
+ * Encoding of one AppState property (read returns null for invalid values)
+ */
+interface FieldCodec<T> {
+  write(writer: StateWriter, value: T): void;
+  read(reader: StateReader): T | null;
+}
 
-    // Read velocityIndex (uint32)
-    const velocityIndex = buffer.readUInt32LE(offset);
-    offset += 4;
+/**
+ * App state fields in layout order
+ *
+ * velocity: windowSize (4) + buffer (N * 8, N = profile velocity window)
+ *           + index, count (2 * 4) + estimate, variance (2 * 8)
+ * lastTimestamp, prevLat, prevLon: 8 bytes each (float64)
+ * rejectCount: 4 bytes (uint32)
+ * position: anchor lat/lon (2 * 8) + east, north filters (2 * 5 * 8)
+ * imm: anchor lat/lon (2 * 8) + per model (3) east, north filters and
+ *      probability (3 * 11 * 8)
+ * motion: heading, speed (2 * 8)
+ * movement: phase (4, index into MOVEMENT_PHASES) + since (8)
+ * elevation: filter (5 * 8) + lastTimestamp, reference, ascent, descent (4 * 8)
+ * stay: anchor lat/lon/time, lastTime, 4 sums (8 * 8) + count, active (2 * 4)
+ * trip: active (4) + start/lastMoving time/lat/lon, distance, movingTime,
+ *       speedSum, maxSpeed (10 * 8) + speedCount (4)
+ * odometer: totalDistance, movingTime, stoppedTime, maxSpeed (4 * 8)
+ * noise: processNoise, measurementNoise (2 * 8) + samples (4)
+ * transport: elapsed + 5 window moments (6 * 8)
+ * match: lastLat, lastLon (2 * 8) + count (4) + per candidate (C)
+ *        segment (4) + offset, score (2 * 8)
+ * anomaly: last fix lat/lon/time (3 * 8) + repeatCount (4)
+ *          + reference lat/lon/time/speed (4 * 8)
+ * Fields: 872 + N * 8 + C * 20 bytes; the header adds 215 bytes
+ */
+const APP_STATE_FIELDS: { [K in keyof AppState]: FieldCodec<AppState[K]> } = {
+  velocity: {
+    write: (writer, value) => writer.velocityFilter(value),
+    read: (reader) => reader.velocityFilter(),
+  },
+  lastTimestamp: {
+    write: (writer, value) => writer.double(value),
+    read: (reader) => reader.double(),
+  },
+  prevLat: {
+    write: (writer, value) => writer.double(value),
+    read: (reader) => reader.double(),
+  },
+  prevLon: {
+    write: (writer, value) => writer.double(value),
+    read: (reader) => reader.double(),
+  },
+  rejectCount: {
+    write: (writer, value) => writer.uint32(value),
+    read: (reader) => reader.uint32(),
+  },
+  position: {
+    write: (writer, value) => writer.positionFilter(value),
+    read: (reader) => reader.positionFilter(),
+  },
+  imm: {
+    write: (writer, value) => writer.imm(value),
+    read: (reader) => reader.imm(),
+  },
+  motion: {
+    write: (writer, value) => writer.motion(value),
+    read: (reader) => reader.motion(),
+  },
+  movement: {
+    write: (writer, value) => writer.movement(value),
+    read: (reader) => reader.movement(),
+  },
+  elevation: {
+    write: (writer, value) => writer.elevation(value),
+    read: (reader) => reader.elevation(),
+  },
+  stay: {
+    write: (writer, value) => writer.stay(value),
+    read: (reader) => reader.stay(),
+  },
+  trip: {
+    write: (writer, value) => writer.trip(value),
+    read: (reader) => reader.trip(),
+  },
+  odometer: {
+    write: (writer, value) => writer.odometer(value),
+    read: (reader) => reader.odometer(),
+  },
+  noise: {
+    write: (writer, value) => writer.noise(value),
+    read: (reader) => reader.noise(),
+  },
+  transport: {
+    write: (writer, value) => writer.transport(value),
+    read: (reader) => reader.transport(),
+  },
+  match: {
+    write: (writer, value) => writer.match(value),
+    read: (reader) => reader.match(),
+  },
+  anomaly: {
+    write: (writer, value) => writer.anomaly(value),
+    read: (reader) => reader.anomaly(),
+  },
+};
 
-    // Read lastTimestamp (double)
-    const lastTimestamp = buffer.readDoubleLE(offset);
-    offset += 8;
+const APP_STATE_FIELD_NAMES = Object.keys(
+  APP_STATE_FIELDS,
+) as (keyof AppState)[];
 
-    // Read prevLat (double)
-    const prevLat = buffer.readDoubleLE(offset);
-    offset += 8;
+const fieldCodec = (name: keyof AppState) =>
+  APP_STATE_FIELDS[name] as FieldCodec<unknown>;
 
-    // Read prevLon (double)
-    const prevLon = buffer.readDoubleLE(offset);
+const APP_STATE_FORMAT = new VersionedStateFormat(
+  APP_STATE_MAGIC,
+  APP_STATE_VERSION,
+);
+
+/**
+ * Encode each app state field with its codec (the current version's layout)
+ */
+function encodeAppStateFields(state: AppState): StateFields {
+  const fields: StateFields = new Map();
+  for (const name of APP_STATE_FIELD_NAMES) {
+    const writer = new StateWriter();
+    fieldCodec(name).write(writer, state[name]);
+    fields.set(name, writer.toBuffer());
+  }
+  return fields;
+}
+
+// Version 0: the headerless blob written before versioning, frozen here
+// (independent of the field codecs above so later changes cannot break it)
+//   velocity window: 5 * 8 (float64)
+//   window index: 4 (uint32, next slot to write)
+//   lastTimestamp, prevLat, prevLon: 3 * 8 (float64)
+const LEGACY_WINDOW_SIZE = 5;
+const LEGACY_APP_STATE_SIZE = LEGACY_WINDOW_SIZE * 8 + 4 + 3 * 8; // 68 bytes
+
+/**
+ * Read a version 0 blob: its fields, defaults for everything added since
+ */
+function readLegacyAppState(buffer: Buffer): AppState {
+  if (buffer.length !== LEGACY_APP_STATE_SIZE) {
+    throw new Error(
+      `expected ${LEGACY_APP_STATE_SIZE} bytes, got ${buffer.length}`,
+    );
+  }
+
+  const window = new Float64Array(LEGACY_WINDOW_SIZE);
+  for (let i = 0; i < LEGACY_WINDOW_SIZE; i++) {
+    window[i] = buffer.readDoubleLE(i * 8);
+  }
+  let offset = LEGACY_WINDOW_SIZE * 8;
+  const index = buffer.readUInt32LE(offset);
+  offset += 4;
+  const lastTimestamp = buffer.readDoubleLE(offset);
+  const prevLat = buffer.readDoubleLE(offset + 8);
+  const prevLon = buffer.readDoubleLE(offset + 16);
+
+  if (index >= LEGACY_WINDOW_SIZE) {
+    throw new Error(`window index ${index} out of range`);
+  }
+  if (![...window, lastTimestamp, prevLat, prevLon].every(isFinite)) {
+    throw new Error("non-finite value");
+  }
+
+  // The window was always averaged in full (unwritten slots as zeros)
+  const estimate =
+    window.reduce((sum, velocity) => sum + velocity, 0) / LEGACY_WINDOW_SIZE;
+  return {
+    ...createAppState(prevLat, prevLon, lastTimestamp, LEGACY_WINDOW_SIZE),
+    velocity: {
+      buffer: window,
+      index,
+      count: LEGACY_WINDOW_SIZE,
+      estimate,
+      variance: 0,
+    },
+  };
+}
+
+// Version 0 -> 1 (encoded with the current codecs, which are version 1's:
+// a later change to a field's encoding must keep its version 1 codec here)
+APP_STATE_FORMAT.registerMigration(0, (fields) =>
+  encodeAppStateFields(
+    readLegacyAppState(fields.get(LEGACY_FIELD) ?? Buffer.alloc(0)),
+  ),
+);
+
+/**
+ * Create initial app state for a new sensor (also used offline, without Redis)
+ */
+export function createAppState(
+  lat: number,
+  lon: number,
+  timestamp: number,
+  windowSize = DEFAULT_VELOCITY_WINDOW_SIZE,
+): AppState {
+  return {
+    velocity: createVelocityFilterState(windowSize),
+    lastTimestamp: timestamp,
+    prevLat: lat,
+    prevLon: lon,
+    rejectCount: 0,
+    position: createPositionFilterState(),
+    imm: createImmState(),
+    motion: createMotionState(),
+    movement: createMovementState(),
+    elevation: createElevationState(),
+    stay: createStayState(),
+    trip: createTripState(),
+    odometer: createOdometerState(),
+    noise: createNoiseEstimate(),
+    transport: createTransportModeState(),
+    match: createMatchState(),
+    anomaly: createAnomalyState(),
+  };
+}
+
+export class GPSStateManager {
+  constructor(private store: StateStore) {}
+
+  /**
+   * Create initial state for a new sensor
+   */
+  createInitialState(
+    lat: number,
+    lon: number,
+    timestamp: number,
+    windowSize = DEFAULT_VELOCITY_WINDOW_SIZE,
+  ): AppState {
+    return createAppState(lat, lon, timestamp, windowSize);
+  }
+
+  /**
+   * Serialize app state to a versioned blob (1127 bytes for a 5-sample
+   * window and no map matching candidates, see APP_STATE_FIELDS)
+   */
+  private serializeAppState(state: AppState): Buffer {
+    return APP_STATE_FORMAT.encode(encodeAppStateFields(state));
+  }
+
+  /**
+   * Deserialize app state from a blob of this or an older version
+   * Throws StateDecodeError if it cannot be decoded
+   */
+  private deserializeAppState(buffer: Buffer): {
+    state: AppState;
+    migrated: boolean;
+  } {
+    const { fields, storedVersion } = APP_STATE_FORMAT.decode(buffer);
+    const state: Record<string, unknown> = {};
+
+    for (const name of APP_STATE_FIELD_NAMES) {
+      const body = fields.get(name);
+      if (!body) {
+        throw new StateDecodeError("field", `missing field "${name}"`);
+      }
+
+      const reader = new StateReader(body);
+      let value: unknown;
+      try {
+        value = fieldCodec(name).read(reader);
+      } catch (err) {
+        if (err instanceof RangeError) {
+          throw new StateDecodeError("field", `field "${name}" is truncated`);
+        }
+        throw err;
+      }
+      if (value === null || !reader.done) {
+        throw new StateDecodeError("field", `field "${name}" is invalid`);
+      }
+      state[name] = value;
+    }
 
     return {
-      velocityBuffer,
-      velocityIndex,
-      lastTimestamp,
-      prevLat,
-      prevLon,
+      state: state as unknown as AppState,
+      migrated: storedVersion < APP_STATE_VERSION,
     };
   }
 
+  /**
+   * Decode a sensor's stored app state, counting migrations and failures
+   * Returns null (after logging the reason) if it cannot be decoded
+   */
+  private async decodeAppState(
+    sensorId: string,
+    buffer: Buffer,
+  ): Promise<AppState | null> {
+    try {
+      const { state, migrated } = this.deserializeAppState(buffer);
+      if (migrated) {
+        await this.store.hashIncrement(STATE_METRICS_KEY, ["migrated"]);
+      }
+      return state;
+    } catch (err) {
+      if (!(err instanceof StateDecodeError)) {
+        throw err;
+      }
+      console.warn(
+        `⚠️  Discarding app state for ${sensorId} (${err.reason}): ${err.message}`,
+      );
+      await this.store.hashIncrement(STATE_METRICS_KEY, [err.reason]);
+      return null;
+    }
+  }
+
+  /**
+   * App state blobs migrated from an older version and decode failures per
+   * reason, across all workers (zeros when none recorded)
+   */
+  async getStateDecodeCounts(): Promise<
+    Record<StateDecodeReason | "migrated", number>
+  > {
+    const stored = await this.store.hashGetAll(STATE_METRICS_KEY);
+    return Object.fromEntries(
+      [...STATE_DECODE_REASONS, "migrated"].map((name) => [
+        name,
+        parseInt(stored[name] ?? "0", 10),
+      ]),
+    ) as Record<StateDecodeReason | "migrated", number>;
+  }
+
   /**
    * Load full state: pipeline state (from dspx) + app state (custom)
    */
@@ -123,8 +840,8 @@ export class GPSStateManager {
     velocityPipeline: ReturnType<typeof createDspPipeline>,
   ): Promise<AppState> {
     const [pipelineBuffer, appBuffer] = await Promise.all([
-      this.redis.getBuffer(`gps:pipeline:${sensorId}`),
-      this.redis.getBuffer(`gps:app:${sensorId}`),
+      this.store.get(`gps:pipeline:${sensorId}`),
+      this.store.get(`gps:app:${sensorId}`),
     ]);
 
     // Load dspx pipeline state (Kalman + TimeAlignment)
@@ -132,22 +849,19 @@ export class GPSStateManager {
       await positionPipeline.loadState(pipelineBuffer);
     }
 
-    // Load velocity pipeline state (MovingAverage)
-    // Note: velocityPipeline state is lightweight, but we restore it for consistency
+    // Velocity smoothing state (window and estimate) lives in the app state,
+    // so the MovingAverage pipeline needs nothing restored
 
-    // Load app state (68 bytes: velocityBuffer + metadata)
-    if (appBuffer && appBuffer.length === 68) {
-      return this.deserializeAppState(appBuffer);
+    // Load app state (velocity filter + metadata, migrated if older)
+    const appState = appBuffer
+      ? await this.decodeAppState(sensorId, appBuffer)
+      : null;
+    if (appState) {
+      return appState;
     }
 
-    // Return initial state if not found
-    return {
-      velocityBuffer: new Float64Array(VELOCITY_WINDOW_SIZE),
-      velocityIndex: 0,
-      lastTimestamp: 0,
-      prevLat: 0,
-      prevLon: 0,
-    };
+    // Return initial state if not found (or it could not be decoded)
+    return this.createInitialState(0, 0, 0);
   }
 
   /**
@@ -166,22 +880,396 @@ export class GPSStateManager {
     const appBuffer = this.serializeAppState(appState);
 
     await Promise.all([
-      this.redis.setex(
+      this.store.set(
         `gps:pipeline:${sensorId}`,
+        pipelineBuffer as Buffer,
         STATE_TTL,
+      ),
+      this.store.set(`gps:app:${sensorId}`, appBuffer, STATE_TTL),
+      // Keep the sensor's profile alive as long as its state
+      this.store.expire(`gps:config:${sensorId}`, STATE_TTL),
+    ]);
+  }
+
+  /**
+   * Save the modular position-smoother's state for a sensor: its
+   * TimeAlignment pipeline (via dspx) + filter state, read back after a
+   * restart and for predictions
+   *
+   * Layout: lastTimestamp (8) + anchor lat/lon (2 * 8) + east, north filters (2 * 5 * 8)
+   *         + learned noise (2 * 8 + 4) + prevLat, prevLon (2 * 8) + rejectCount (4)
+   *         + imm, elevation, anomaly (as in the app state)
+   */
+  async savePositionSmootherState(
+    sensorId: string,
+    positionPipeline: ReturnType<typeof createDspPipeline>,
+    state: PositionSmootherState,
+  ): Promise<void> {
+    const pipelineBuffer = await positionPipeline.saveState({ format: "toon" });
+
+    const writer = new StateWriter();
+    writer.double(state.lastTimestamp);
+    writer.positionFilter(state.position);
+    writer.noise(state.noise);
+    writer.double(state.prevLat);
+    writer.double(state.prevLon);
+    writer.uint32(state.rejectCount);
+    writer.imm(state.imm);
+    writer.elevation(state.elevation);
+    writer.anomaly(state.anomaly);
+
+    await Promise.all([
+      this.store.set(
+        `gps:pipeline:${sensorId}`,
         pipelineBuffer as Buffer,
+        STATE_TTL,
       ),
-      this.redis.setex(`gps:app:${sensorId}`, STATE_TTL, appBuffer),
+      this.store.set(`gps:position:${sensorId}`, writer.toBuffer(), STATE_TTL),
     ]);
   }
 
   /**
-   * Delete state from Redis
+   * Load the modular position-smoother's state for a sensor, restoring its
+   * TimeAlignment pipeline state into positionPipeline
+   * Returns null when none is stored (or it was stored with another layout)
+   */
+  async loadPositionSmootherState(
+    sensorId: string,
+    positionPipeline: ReturnType<typeof createDspPipeline>,
+  ): Promise<PositionSmootherState | null> {
+    const [pipelineBuffer, positionBuffer] = await Promise.all([
+      this.store.get(`gps:pipeline:${sensorId}`),
+      this.store.get(`gps:position:${sensorId}`),
+    ]);
+
+    const state = positionBuffer
+      ? this.readPositionSmootherState(positionBuffer)
+      : null;
+    if (state && pipelineBuffer) {
+      await positionPipeline.loadState(pipelineBuffer);
+    }
+    return state;
+  }
+
+  private readPositionSmootherState(
+    buffer: Buffer,
+  ): PositionSmootherState | null {
+    const reader = new StateReader(buffer);
+    try {
+      const state: PositionSmootherState = {
+        lastTimestamp: reader.double(),
+        position: reader.positionFilter(),
+        noise: reader.noise(),
+        prevLat: reader.double(),
+        prevLon: reader.double(),
+        rejectCount: reader.uint32(),
+        imm: reader.imm(),
+        elevation: reader.elevation(),
+        anomaly: reader.anomaly(),
+      };
+      return reader.done ? state : null;
+    } catch (err) {
+      if (err instanceof RangeError) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Load a sensor's position filter state for prediction: the monolith's
+   * app state, or else the modular position-smoother's state
+   * Returns null if neither is stored
+   */
+  async loadPositionSnapshot(
+    sensorId: string,
+  ): Promise<PositionSnapshot | null> {
+    const [appBuffer, positionBuffer] = await Promise.all([
+      this.store.get(`gps:app:${sensorId}`),
+      this.store.get(`gps:position:${sensorId}`),
+    ]);
+
+    const appState = appBuffer
+      ? await this.decodeAppState(sensorId, appBuffer)
+      : null;
+    const state =
+      appState ??
+      (positionBuffer ? this.readPositionSmootherState(positionBuffer) : null);
+    if (!state) {
+      return null;
+    }
+    return {
+      lastTimestamp: state.lastTimestamp,
+      position: state.position,
+      noise: state.noise,
+    };
+  }
+
+  /**
+   * Load the velocity-smoother worker's state for a sensor
+   * Returns null when none is stored (or it was stored with another layout)
+   *
+   * Layout: lastTimestamp, prevLat, prevLon (3 * 8) + velocity filter
+   *         + movement (4 + 8) + odometer (4 * 8) + transport (6 * 8)
+   *         + match (as in the app state) + stay (8 * 8 + 2 * 4)
+   *         + trip (10 * 8 + 2 * 4)
+   */
+  async loadVelocitySmootherState(
+    sensorId: string,
+  ): Promise<VelocitySmootherState | null> {
+    const buffer = await this.store.get(`gps:velocity:${sensorId}`);
+    if (!buffer) {
+      return null;
+    }
+
+    const reader = new StateReader(buffer);
+    try {
+      const lastTimestamp = reader.double();
+      const prevLat = reader.double();
+      const prevLon = reader.double();
+      const velocity = reader.velocityFilter();
+      const movement = reader.movement();
+      const odometer = reader.odometer();
+      const transport = reader.transport();
+      const match = reader.match();
+      const stay = reader.stay();
+      const trip = reader.trip();
+      if (!movement || !reader.done) {
+        return null;
+      }
+      return {
+        lastTimestamp,
+        prevLat,
+        prevLon,
+        velocity,
+        movement,
+        odometer,
+        transport,
+        match,
+        stay,
+        trip,
+      };
+    } catch (err) {
+      if (err instanceof RangeError) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Save the velocity-smoother worker's state for a sensor
+   */
+  async saveVelocitySmootherState(
+    sensorId: string,
+    state: VelocitySmootherState,
+  ): Promise<void> {
+    const writer = new StateWriter();
+    writer.double(state.lastTimestamp);
+    writer.double(state.prevLat);
+    writer.double(state.prevLon);
+    writer.velocityFilter(state.velocity);
+    writer.movement(state.movement);
+    writer.odometer(state.odometer);
+    writer.transport(state.transport);
+    writer.match(state.match);
+    writer.stay(state.stay);
+    writer.trip(state.trip);
+
+    await this.store.set(
+      `gps:velocity:${sensorId}`,
+      writer.toBuffer(),
+      STATE_TTL,
+    );
+  }
+
+  /**
+   * Reset a sensor's odometer in both the monolith and the modular
+   * velocity-smoother state (the next processed sample reports zeros)
+   * Returns false if no state is stored for the sensor
+   */
+  async resetOdometer(sensorId: string): Promise<boolean> {
+    const [appBuffer, smootherState] = await Promise.all([
+      this.store.get(`gps:app:${sensorId}`),
+      this.loadVelocitySmootherState(sensorId),
+    ]);
+    const appState = appBuffer
+      ? await this.decodeAppState(sensorId, appBuffer)
+      : null;
+
+    if (appState) {
+      await this.store.set(
+        `gps:app:${sensorId}`,
+        this.serializeAppState({
+          ...appState,
+          odometer: createOdometerState(),
+        }),
+        STATE_TTL,
+      );
+    }
+    if (smootherState) {
+      await this.saveVelocitySmootherState(sensorId, {
+        ...smootherState,
+        odometer: createOdometerState(),
+      });
+    }
+
+    return appState !== null || smootherState !== null;
+  }
+
+  /**
+   * Load the sensor's persisted pipeline configuration
+   * On first sight, resolves it (e.g. from the config file) and persists it,
+   * so every worker (monolith or modular) applies the same settings
+   */
+  async loadConfig(
+    sensorId: string,
+    resolve: (sensorId: string) => GPSPipelineConfig,
+  ): Promise<GPSPipelineConfig> {
+    const stored = await this.store.get(`gps:config:${sensorId}`);
+    if (stored) {
+      // Fill in settings added since the config was persisted
+      const parsed = JSON.parse(stored.toString()) as GPSPipelineConfig;
+      return applyProfile(DEFAULT_PIPELINE_CONFIG, parsed.profile, parsed);
+    }
+
+    const config = resolve(sensorId);
+    await this.saveConfig(sensorId, config);
+    return config;
+  }
+
+  /**
+   * Persist the sensor's pipeline configuration (JSON)
+   */
+  async saveConfig(sensorId: string, config: GPSPipelineConfig): Promise<void> {
+    await this.store.set(
+      `gps:config:${sensorId}`,
+      JSON.stringify(config),
+      STATE_TTL,
+    );
+  }
+
+  /**
+   * Store a closed trip summary (newest first, capped at MAX_TRIPS)
+   */
+  async saveTrip(sensorId: string, trip: TripSummary): Promise<void> {
+    await this.store.pushCapped(
+      `gps:trips:${sensorId}`,
+      JSON.stringify(trip),
+      MAX_TRIPS,
+      TRIPS_TTL,
+    );
+  }
+
+  /**
+   * List stored trip summaries for a sensor (newest first)
+   */
+  async listTrips(sensorId: string, limit = MAX_TRIPS): Promise<TripSummary[]> {
+    const entries = await this.store.listRange(
+      `gps:trips:${sensorId}`,
+      0,
+      limit - 1,
+    );
+    return entries.map((entry) => JSON.parse(entry) as TripSummary);
+  }
+
+  /**
+   * Count a flagged fix's anomalies for the sensor
+   */
+  async recordAnomalies(
+    sensorId: string,
+    anomalies: AnomalyType[],
+  ): Promise<void> {
+    await this.store.hashIncrement(
+      `gps:anomalies:${sensorId}`,
+      anomalies,
+      ANOMALIES_TTL,
+    );
+  }
+
+  /**
+   * Flagged fixes per anomaly type for a sensor (zeros when none recorded)
+   */
+  async getAnomalyCounts(
+    sensorId: string,
+  ): Promise<Record<AnomalyType, number>> {
+    const stored = await this.store.hashGetAll(`gps:anomalies:${sensorId}`);
+    return Object.fromEntries(
+      ANOMALY_TYPES.map((type) => [type, parseInt(stored[type] ?? "0", 10)]),
+    ) as Record<AnomalyType, number>;
+  }
+
+  /**
+   * List all geofences
+   */
+  async listGeofences(): Promise<Geofence[]> {
+    const entries = await this.store.hashGetAll(GEOFENCES_KEY);
+    return Object.values(entries).map((entry) => JSON.parse(entry) as Geofence);
+  }
+
+  /**
+   * Load one geofence (null if it does not exist)
+   */
+  async getGeofence(id: string): Promise<Geofence | null> {
+    const entry = await this.store.hashGet(GEOFENCES_KEY, id);
+    return entry ? (JSON.parse(entry) as Geofence) : null;
+  }
+
+  /**
+   * Create or replace a geofence
+   */
+  async saveGeofence(geofence: Geofence): Promise<void> {
+    await this.store.hashSet(
+      GEOFENCES_KEY,
+      geofence.id,
+      JSON.stringify(geofence),
+    );
+  }
+
+  /**
+   * Delete a geofence
+   * Returns false if it did not exist
+   */
+  async deleteGeofence(id: string): Promise<boolean> {
+    return this.store.hashDelete(GEOFENCES_KEY, id);
+  }
+
+  /**
+   * Load the fences a sensor is inside (shared by the monolith and the
+   * modular velocity-smoother, so a restart does not re-fire entries)
+   */
+  async loadGeofenceMemberships(
+    sensorId: string,
+  ): Promise<GeofenceMemberships> {
+    const stored = await this.store.get(`gps:geofence-membership:${sensorId}`);
+    return stored ? (JSON.parse(stored.toString()) as GeofenceMemberships) : {};
+  }
+
+  /**
+   * Save the fences a sensor is inside
+   */
+  async saveGeofenceMemberships(
+    sensorId: string,
+    memberships: GeofenceMemberships,
+  ): Promise<void> {
+    await this.store.set(
+      `gps:geofence-membership:${sensorId}`,
+      JSON.stringify(memberships),
+      STATE_TTL,
+    );
+  }
+
+  /**
+   * Delete a sensor's state
    */
   async deleteState(sensorId: string): Promise<void> {
-    await Promise.all([
-      this.redis.del(`gps:pipeline:${sensorId}`),
-      this.redis.del(`gps:app:${sensorId}`),
+    await this.store.delete([
+      `gps:pipeline:${sensorId}`,
+      `gps:app:${sensorId}`,
+      `gps:position:${sensorId}`,
+      `gps:velocity:${sensorId}`,
+      `gps:config:${sensorId}`,
+      `gps:geofence-membership:${sensorId}`,
     ]);
   }
 
@@ -189,7 +1277,6 @@ export class GPSStateManager {
    * Check if state exists
    */
   async hasState(sensorId: string): Promise<boolean> {
-    const exists = await this.redis.exists(`gps:app:${sensorId}`);
-    return exists === 1;
+    return this.store.exists(`gps:app:${sensorId}`);
   }
 }
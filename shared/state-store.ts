@@ -0,0 +1,660 @@
+/**
+ * State Stores
+ * Storage backends behind GPSStateManager, selected with STATE_STORE:
+ *
+ *   redis   ioredis (default; shared by every worker and the SSE server)
+ *   memory  in-process Map, for offline runs and tests without Redis
+ *   file    append-only log on local disk (STATE_FILE), for small
+ *           single-node deployments with durable state
+ *
+ * The interface covers what the state manager needs from Redis: binary
+ * values with a TTL, capped lists (newest first) and string hashes.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type Redis from "ioredis";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_STATE_FILE = path.join(__dirname, "../state/gps-state.log");
+
+// Expired in-memory entries are swept every N writes
+const SWEEP_INTERVAL = 1000;
+
+// File store: rewrite the log once it holds this many records per live key
+// (and at least MIN_COMPACT_RECORDS records)
+const COMPACT_RATIO = 4;
+const MIN_COMPACT_RECORDS = 10000;
+
+// File store lock: retry interval, and age after which a lock left by a
+// crashed process is taken over (writes hold it for milliseconds)
+const LOCK_RETRY_MS = 5;
+const LOCK_STALE_MS = 10000;
+
+export const STATE_STORE_KINDS = ["redis", "memory", "file"] as const;
+
+export type StateStoreKind = (typeof STATE_STORE_KINDS)[number];
+
+export interface StateStore {
+  // Values (binary; strings are stored as UTF-8)
+  get(key: string): Promise<Buffer | null>;
+  set(key: string, value: Buffer | string, ttlSeconds?: number): Promise<void>;
+  expire(key: string, ttlSeconds: number): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  delete(keys: string[]): Promise<void>;
+
+  // Lists: push to the front and keep the newest maxLength items
+  pushCapped(
+    key: string,
+    value: string,
+    maxLength: number,
+    ttlSeconds?: number,
+  ): Promise<void>;
+  // Items start..stop (inclusive, 0 = newest)
+  listRange(key: string, start: number, stop: number): Promise<string[]>;
+
+  // Hashes
+  hashGet(key: string, field: string): Promise<string | null>;
+  hashGetAll(key: string): Promise<Record<string, string>>;
+  hashSet(key: string, field: string, value: string): Promise<void>;
+  // Returns false if the field did not exist
+  hashDelete(key: string, field: string): Promise<boolean>;
+  // Adds 1 to each field (refreshing the key's TTL when given)
+  hashIncrement(
+    key: string,
+    fields: string[],
+    ttlSeconds?: number,
+  ): Promise<void>;
+}
+
+/**
+ * Redis backend
+ */
+export class RedisStateStore implements StateStore {
+  constructor(private redis: Redis) {}
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.redis.getBuffer(key);
+  }
+
+  async set(
+    key: string,
+    value: Buffer | string,
+    ttlSeconds?: number,
+  ): Promise<void> {
+    if (ttlSeconds !== undefined) {
+      await this.redis.setex(key, ttlSeconds, value);
+    } else {
+      await this.redis.set(key, value);
+    }
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<void> {
+    await this.redis.expire(key, ttlSeconds);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.redis.exists(key)) === 1;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await this.redis.del(...keys);
+    }
+  }
+
+  async pushCapped(
+    key: string,
+    value: string,
+    maxLength: number,
+    ttlSeconds?: number,
+  ): Promise<void> {
+    const multi = this.redis
+      .multi()
+      .lpush(key, value)
+      .ltrim(key, 0, maxLength - 1);
+    if (ttlSeconds !== undefined) {
+      multi.expire(key, ttlSeconds);
+    }
+    await multi.exec();
+  }
+
+  async listRange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.redis.lrange(key, start, stop);
+  }
+
+  async hashGet(key: string, field: string): Promise<string | null> {
+    return this.redis.hget(key, field);
+  }
+
+  async hashGetAll(key: string): Promise<Record<string, string>> {
+    return this.redis.hgetall(key);
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    await this.redis.hset(key, field, value);
+  }
+
+  async hashDelete(key: string, field: string): Promise<boolean> {
+    return (await this.redis.hdel(key, field)) === 1;
+  }
+
+  async hashIncrement(
+    key: string,
+    fields: string[],
+    ttlSeconds?: number,
+  ): Promise<void> {
+    const multi = this.redis.multi();
+    for (const field of fields) {
+      multi.hincrby(key, field, 1);
+    }
+    if (ttlSeconds !== undefined) {
+      multi.expire(key, ttlSeconds);
+    }
+    await multi.exec();
+  }
+}
+
+type StoredData = Buffer | string[] | Map<string, string>;
+
+interface StoredEntry {
+  data: StoredData;
+  expiresAt: number; // ms (0 = no TTL)
+}
+
+/**
+ * In-memory backend (per process, lost on exit)
+ * Expired entries are dropped when read and swept periodically
+ */
+export class MemoryStateStore implements StateStore {
+  protected entries = new Map<string, StoredEntry>();
+  private writes = 0;
+
+  /**
+   * Bring the entries up to date before a read (no-op in memory)
+   */
+  protected refresh(): void {}
+
+  /**
+   * Run a read-modify-write on up-to-date entries (exclusive across
+   * processes in the file store)
+   */
+  protected update<T>(write: () => T): T {
+    this.refresh();
+    return write();
+  }
+
+  /**
+   * Called after a key was written or deleted (no-op in memory)
+   */
+  protected changed(_key: string): void {}
+
+  private live(key: string): StoredEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt !== 0 && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private write(key: string, data: StoredData, ttlSeconds?: number): void {
+    const previous = this.live(key);
+    this.entries.set(key, {
+      data,
+      expiresAt:
+        ttlSeconds !== undefined
+          ? Date.now() + ttlSeconds * 1000
+          : (previous?.expiresAt ?? 0),
+    });
+    this.changed(key);
+
+    if (++this.writes % SWEEP_INTERVAL === 0) {
+      for (const key of this.entries.keys()) {
+        this.live(key);
+      }
+    }
+  }
+
+  // Typed access (a key holding another type is an error, as in Redis)
+  private typed<T extends StoredData>(
+    key: string,
+    isType: (data: StoredData) => data is T,
+  ): T | undefined {
+    const entry = this.live(key);
+    if (entry && !isType(entry.data)) {
+      throw new Error(`WRONGTYPE: ${key} holds a different kind of value`);
+    }
+    return entry?.data as T | undefined;
+  }
+
+  private value(key: string): Buffer | undefined {
+    return this.typed(key, (data): data is Buffer => Buffer.isBuffer(data));
+  }
+
+  private list(key: string): string[] | undefined {
+    return this.typed(key, (data): data is string[] => Array.isArray(data));
+  }
+
+  private hash(key: string): Map<string, string> | undefined {
+    return this.typed(
+      key,
+      (data): data is Map<string, string> => data instanceof Map,
+    );
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    this.refresh();
+    return this.value(key) ?? null;
+  }
+
+  async set(
+    key: string,
+    value: Buffer | string,
+    ttlSeconds?: number,
+  ): Promise<void> {
+    this.update(() => {
+      // Like SET, a write without TTL clears the previous one
+      this.entries.delete(key);
+      this.write(key, Buffer.from(value), ttlSeconds);
+    });
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<void> {
+    this.update(() => {
+      const entry = this.live(key);
+      if (entry) {
+        this.write(key, entry.data, ttlSeconds);
+      }
+    });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    this.refresh();
+    return this.live(key) !== undefined;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    this.update(() => {
+      for (const key of keys) {
+        if (this.entries.delete(key)) {
+          this.changed(key);
+        }
+      }
+    });
+  }
+
+  async pushCapped(
+    key: string,
+    value: string,
+    maxLength: number,
+    ttlSeconds?: number,
+  ): Promise<void> {
+    this.update(() => {
+      const list = [value, ...(this.list(key) ?? [])].slice(0, maxLength);
+      this.write(key, list, ttlSeconds);
+    });
+  }
+
+  async listRange(key: string, start: number, stop: number): Promise<string[]> {
+    this.refresh();
+    const list = this.list(key) ?? [];
+    // Inclusive stop, negative indexes from the end (as LRANGE)
+    return list.slice(start, stop < 0 ? list.length + stop + 1 : stop + 1);
+  }
+
+  async hashGet(key: string, field: string): Promise<string | null> {
+    this.refresh();
+    return this.hash(key)?.get(field) ?? null;
+  }
+
+  async hashGetAll(key: string): Promise<Record<string, string>> {
+    this.refresh();
+    return Object.fromEntries(this.hash(key) ?? []);
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    this.update(() => {
+      const hash = new Map(this.hash(key));
+      hash.set(field, value);
+      this.write(key, hash);
+    });
+  }
+
+  async hashDelete(key: string, field: string): Promise<boolean> {
+    return this.update(() => {
+      const hash = new Map(this.hash(key));
+      if (!hash.delete(field)) {
+        return false;
+      }
+      if (hash.size > 0) {
+        this.write(key, hash);
+      } else {
+        this.entries.delete(key);
+        this.changed(key);
+      }
+      return true;
+    });
+  }
+
+  async hashIncrement(
+    key: string,
+    fields: string[],
+    ttlSeconds?: number,
+  ): Promise<void> {
+    this.update(() => {
+      const hash = new Map(this.hash(key));
+      for (const field of fields) {
+        hash.set(field, String(parseInt(hash.get(field) ?? "0", 10) + 1));
+      }
+      this.write(key, hash, ttlSeconds);
+    });
+  }
+}
+
+// One line of the file store's log: the key's full entry after a write
+// (null after a delete)
+interface LogRecord {
+  key: string;
+  entry: {
+    type: "value" | "list" | "hash";
+    data: string | string[] | Record<string, string>; // values base64
+    expiresAt: number;
+  } | null;
+}
+
+/**
+ * Local file backend: the in-memory store persisted as an append-only log
+ * of JSON lines, each holding a key's full entry after a write (the last
+ * line for a key wins). The log is replayed on start and rewritten with only
+ * the live entries once it grows COMPACT_RATIO times larger than needed.
+ * Several processes may share a file (workers and the SSE server): every
+ * read-modify-write and compaction holds an exclusive lock file, and each
+ * process picks up the others' appends and compactions on its next access.
+ */
+export class FileStateStore extends MemoryStateStore {
+  private offset = 0; // bytes of the log applied
+  private inode = 0;
+  private records = 0; // lines in the log
+  private lockDepth = 0;
+  private readonly lockPath: string;
+
+  constructor(private filePath: string) {
+    super();
+    this.lockPath = `${filePath}.lock`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.locked(() => {
+      this.truncatePartialRecord();
+      this.refresh();
+      this.compactIfNeeded();
+    });
+  }
+
+  /**
+   * Apply lines appended since the last access (from any process), or
+   * reload everything when the log was rewritten
+   */
+  protected refresh(): void {
+    let fd: number;
+    try {
+      fd = fs.openSync(this.filePath, "r");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw err;
+    }
+
+    try {
+      // Stat the open file, so a compaction renaming a new log into place
+      // between the two calls cannot mix up offsets
+      const stat = fs.fstatSync(fd);
+      if (stat.ino !== this.inode || stat.size < this.offset) {
+        this.entries.clear();
+        this.offset = 0;
+        this.records = 0;
+        this.inode = stat.ino;
+      }
+      if (stat.size === this.offset) {
+        return;
+      }
+
+      const chunk = Buffer.alloc(stat.size - this.offset);
+      fs.readSync(fd, chunk, 0, chunk.length, this.offset);
+
+      // Only complete lines (a concurrent append may be half written)
+      const end = chunk.lastIndexOf("\n");
+      if (end < 0) {
+        return;
+      }
+      for (const line of chunk.toString("utf-8", 0, end).split("\n")) {
+        if (line) {
+          this.applyLine(line);
+        }
+      }
+      this.offset += end + 1;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  protected update<T>(write: () => T): T {
+    return this.locked(() => super.update(write));
+  }
+
+  /**
+   * Run with the lock file held (re-entrant within this process). A lock
+   * older than LOCK_STALE_MS was left by a crashed process and is taken over.
+   */
+  private locked<T>(fn: () => T): T {
+    if (this.lockDepth > 0) {
+      this.lockDepth++;
+      try {
+        return fn();
+      } finally {
+        this.lockDepth--;
+      }
+    }
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(this.lockPath, "wx"));
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw err;
+        }
+      }
+      try {
+        if (Date.now() - fs.statSync(this.lockPath).mtimeMs > LOCK_STALE_MS) {
+          this.removeStaleLock();
+          continue;
+        }
+      } catch {
+        continue; // released between the attempts
+      }
+      // Synchronous sleep: the store's operations are synchronous
+      Atomics.wait(
+        new Int32Array(new SharedArrayBuffer(4)),
+        0,
+        0,
+        LOCK_RETRY_MS,
+      );
+    }
+
+    this.lockDepth = 1;
+    try {
+      return fn();
+    } finally {
+      this.lockDepth = 0;
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Move a stale lock out of the way atomically: of several waiters that saw
+   * it, only one can rename it, and all of them then race on "wx" as usual.
+   * If the renamed file turns out to be fresh, another waiter had already
+   * replaced the stale lock, so it is put back (link fails if the name has
+   * been taken again in the meantime).
+   */
+  private removeStaleLock(): void {
+    const moved = `${this.lockPath}.${process.pid}.${Date.now()}`;
+    try {
+      fs.renameSync(this.lockPath, moved);
+    } catch {
+      return; // another waiter got there first
+    }
+    try {
+      if (Date.now() - fs.statSync(moved).mtimeMs > LOCK_STALE_MS) {
+        console.warn(`⚠️  Took over stale state lock ${this.lockPath}`);
+      } else {
+        fs.linkSync(moved, this.lockPath);
+      }
+    } catch {
+      // a new lock was created meanwhile: leave it to its holder
+    } finally {
+      fs.rmSync(moved, { force: true });
+    }
+  }
+
+  /**
+   * Cut a record left half written by a process that crashed mid-append
+   * (called with the lock held, so no append is in progress), so the next
+   * append starts on a line of its own
+   */
+  private truncatePartialRecord(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    const data = fs.readFileSync(this.filePath);
+    const end = data.lastIndexOf("\n") + 1;
+    if (end < data.length) {
+      console.warn(
+        `⚠️  Dropping ${data.length - end} bytes of a partial record at the end of ${this.filePath}`,
+      );
+      fs.truncateSync(this.filePath, end);
+    }
+  }
+
+  /**
+   * Apply one log line, skipping (and logging) lines that do not parse
+   */
+  private applyLine(line: string): void {
+    let record: LogRecord;
+    try {
+      record = JSON.parse(line) as LogRecord;
+    } catch {
+      console.warn(
+        `⚠️  Skipping corrupt record in ${this.filePath}: ${line.slice(0, 80)}`,
+      );
+      return;
+    }
+    this.apply(record);
+  }
+
+  private apply(record: LogRecord): void {
+    this.records++;
+    if (!record.entry) {
+      this.entries.delete(record.key);
+      return;
+    }
+
+    const { type, data, expiresAt } = record.entry;
+    if (expiresAt !== 0 && expiresAt <= Date.now()) {
+      this.entries.delete(record.key);
+      return;
+    }
+    this.entries.set(record.key, {
+      data:
+        type === "value"
+          ? Buffer.from(data as string, "base64")
+          : type === "list"
+            ? (data as string[])
+            : new Map(Object.entries(data as Record<string, string>)),
+      expiresAt,
+    });
+  }
+
+  private record(key: string): LogRecord {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return { key, entry: null };
+    }
+
+    const { data, expiresAt } = entry;
+    return {
+      key,
+      entry: Buffer.isBuffer(data)
+        ? { type: "value", data: data.toString("base64"), expiresAt }
+        : Array.isArray(data)
+          ? { type: "list", data, expiresAt }
+          : { type: "hash", data: Object.fromEntries(data), expiresAt },
+    };
+  }
+
+  /**
+   * Append the key's entry to the log (called with the lock held; the
+   * append is read back by the next refresh)
+   */
+  protected changed(key: string): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(this.record(key)) + "\n");
+    this.compactIfNeeded();
+  }
+
+  /**
+   * Rewrite the log with only the live entries (called with the lock held,
+   * so no other process appends in between)
+   */
+  private compactIfNeeded(): void {
+    if (
+      this.records < MIN_COMPACT_RECORDS ||
+      this.records < this.entries.size * COMPACT_RATIO
+    ) {
+      return;
+    }
+
+    this.refresh();
+    const lines = [...this.entries.keys()].map(
+      (key) => JSON.stringify(this.record(key)) + "\n",
+    );
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, lines.join(""));
+    fs.renameSync(tempPath, this.filePath);
+
+    const stat = fs.statSync(this.filePath);
+    this.inode = stat.ino;
+    this.offset = stat.size;
+    this.records = lines.length;
+  }
+}
+
+/**
+ * Create the configured store (STATE_STORE, STATE_FILE)
+ * The Redis connection is only required for the redis backend
+ */
+export function createStateStore(
+  redis: Redis | null,
+  kind = process.env.STATE_STORE || "redis",
+  filePath = process.env.STATE_FILE || DEFAULT_STATE_FILE,
+): StateStore {
+  switch (kind) {
+    case "redis":
+      if (!redis) {
+        throw new Error("STATE_STORE=redis needs a Redis connection");
+      }
+      return new RedisStateStore(redis);
+    case "memory":
+      return new MemoryStateStore();
+    case "file":
+      console.log(`💾 State file: ${filePath}`);
+      return new FileStateStore(filePath);
+    default:
+      throw new Error(
+        `Unknown STATE_STORE "${kind}" (expected ${STATE_STORE_KINDS.join(", ")})`,
+      );
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Stay-Point Detection
+ * Online version of the Geolife stay-point algorithm (Li et al., 2008):
+ * a stay is a region the sensor does not leave (distanceThreshold) for at
+ * least timeThreshold. Emits stay.started once the time threshold is crossed
+ * and stay.ended when the sensor leaves the region.
+ */
+
+import type { StayPointConfig } from "./pipeline-config.js";
+import type { StayEvent } from "./events.js";
+import { fromLocalENU, haversineDistance, toLocalENU } from "./geo.js";
+
+export interface StayState {
+  // First fix of the candidate region (0/0 = no candidate yet)
+  anchorLat: number;
+  anchorLon: number;
+  anchorTime: number;
+
+  // Last fix inside the region (ms)
+  lastTime: number;
+
+  // Running sums of offsets from the anchor (m) for centroid and radius
+  count: number;
+  sumEast: number;
+  sumNorth: number;
+  sumSqEast: number;
+  sumSqNorth: number;
+
+  // Whether stay.started has been emitted for this region
+  active: boolean;
+}
+
+export interface StayUpdate {
+  state: StayState;
+  events: StayEvent[];
+}
+
+/**
+ * Create empty stay state (no candidate region yet)
+ */
+export function createStayState(): StayState {
+  return startCandidate(0, 0, 0);
+}
+
+/**
+ * Start a new candidate region at the given fix
+ */
+function startCandidate(
+  lat: number,
+  lon: number,
+  timestamp: number,
+): StayState {
+  return {
+    anchorLat: lat,
+    anchorLon: lon,
+    anchorTime: timestamp,
+    lastTime: timestamp,
+    count: 1,
+    sumEast: 0,
+    sumNorth: 0,
+    sumSqEast: 0,
+    sumSqNorth: 0,
+    active: false,
+  };
+}
+
+/**
+ * Build a stay event from the current region
+ */
+function stayEvent(
+  type: StayEvent["type"],
+  state: StayState,
+  timestamp: number,
+): StayEvent {
+  const meanEast = state.sumEast / state.count;
+  const meanNorth = state.sumNorth / state.count;
+  const variance =
+    state.sumSqEast / state.count -
+    meanEast * meanEast +
+    state.sumSqNorth / state.count -
+    meanNorth * meanNorth;
+  const centroid = fromLocalENU(
+    state.anchorLat,
+    state.anchorLon,
+    meanEast,
+    meanNorth,
+  );
+
+  return {
+    type,
+    timestamp,
+    centroidLat: centroid.lat,
+    centroidLon: centroid.lon,
+    radius: Math.sqrt(Math.max(variance, 0)),
+    startTime: state.anchorTime,
+    durationMs: state.lastTime - state.anchorTime,
+  };
+}
+
+/**
+ * Feed one smoothed position into the detector
+ */
+export function updateStay(
+  state: StayState,
+  lat: number,
+  lon: number,
+  timestamp: number,
+  config: StayPointConfig,
+): StayUpdate {
+  // First fix for this sensor
+  if (state.anchorTime === 0) {
+    return { state: startCandidate(lat, lon, timestamp), events: [] };
+  }
+
+  const distance = haversineDistance(
+    state.anchorLat,
+    state.anchorLon,
+    lat,
+    lon,
+  );
+
+  // Left the region: close any active stay and start a new candidate here
+  if (distance > config.distanceThreshold) {
+    const events = state.active
+      ? [stayEvent("stay.ended", state, timestamp)]
+      : [];
+    return { state: startCandidate(lat, lon, timestamp), events };
+  }
+
+  // Still inside: accumulate the fix
+  const { east, north } = toLocalENU(
+    state.anchorLat,
+    state.anchorLon,
+    lat,
+    lon,
+  );
+  const next: StayState = {
+    ...state,
+    lastTime: timestamp,
+    count: state.count + 1,
+    sumEast: state.sumEast + east,
+    sumNorth: state.sumNorth + north,
+    sumSqEast: state.sumSqEast + east * east,
+    sumSqNorth: state.sumSqNorth + north * north,
+  };
+
+  if (
+    !next.active &&
+    (next.lastTime - next.anchorTime) / 1000 >= config.timeThreshold
+  ) {
+    next.active = true;
+    return {
+      state: next,
+      events: [stayEvent("stay.started", next, timestamp)],
+    };
+  }
+
+  return { state: next, events: [] };
+}
@@ -0,0 +1,214 @@
+/**
+ * Transport Mode Classification
+ * Online Gaussian naive Bayes over features of the smoothed track, taken
+ * over an exponentially weighted sliding window (time constant windowSeconds):
+ *
+ *   meanSpeed      mean smoothed speed (m/s)
+ *   speedSpread    standard deviation of speed (m/s)
+ *   acceleration   mean |longitudinal acceleration| (m/s²)
+ *   headingChange  mean |turn rate| (deg/s)
+ *   stopRate       share of time below stopSpeed
+ *
+ * Class models are set from typical values for the Geolife modes (Zheng et
+ * al., 2008): walking turns often at low speed, buses stop often, subways
+ * run fast and straight. The per-mode posterior is reported as confidence.
+ * Shared by GPSPipeline and the modular velocity-smoother
+ */
+
+import type { TransportModeConfig } from "./pipeline-config.js";
+
+// Stable order for binary serialization
+export const TRANSPORT_MODES = [
+  "walk",
+  "bike",
+  "bus",
+  "car",
+  "subway",
+] as const;
+
+export type TransportMode = (typeof TRANSPORT_MODES)[number];
+
+export interface TransportModeState {
+  // Time covered by the window so far (s, capped at windowSeconds)
+  elapsed: number;
+
+  // Exponentially weighted feature moments
+  meanSpeed: number;
+  meanSquareSpeed: number;
+  meanAcceleration: number;
+  meanHeadingChange: number;
+  stopRate: number;
+}
+
+export interface TransportModeFeatures {
+  meanSpeed: number;
+  speedSpread: number;
+  acceleration: number;
+  headingChange: number;
+  stopRate: number;
+}
+
+export interface TransportModeUpdate {
+  state: TransportModeState;
+
+  // Most likely mode ("unknown" until the window has warmed up)
+  transportMode: TransportMode | "unknown";
+
+  // Posterior probability of that mode (0 while unknown)
+  confidence: number;
+}
+
+// Per-mode Gaussian [mean, standard deviation] for each feature
+type ModeModel = Record<keyof TransportModeFeatures, [number, number]>;
+
+const MODE_MODELS: Record<TransportMode, ModeModel> = {
+  walk: {
+    meanSpeed: [1.2, 0.5],
+    speedSpread: [0.5, 0.3],
+    acceleration: [0.15, 0.1],
+    headingChange: [12, 8],
+    stopRate: [0.25, 0.2],
+  },
+  bike: {
+    meanSpeed: [3.8, 1.3],
+    speedSpread: [1.2, 0.6],
+    acceleration: [0.25, 0.15],
+    headingChange: [6, 4],
+    stopRate: [0.15, 0.15],
+  },
+  bus: {
+    meanSpeed: [5.5, 2.5],
+    speedSpread: [3.5, 1.5],
+    acceleration: [0.5, 0.25],
+    headingChange: [3, 2.5],
+    stopRate: [0.35, 0.2],
+  },
+  car: {
+    meanSpeed: [9, 4.5],
+    speedSpread: [4, 2],
+    acceleration: [0.6, 0.3],
+    headingChange: [3.5, 3],
+    stopRate: [0.2, 0.2],
+  },
+  subway: {
+    meanSpeed: [11, 4],
+    speedSpread: [6, 2.5],
+    acceleration: [0.5, 0.3],
+    headingChange: [1, 1],
+    stopRate: [0.3, 0.2],
+  },
+};
+
+/**
+ * Create empty classifier state (new sensor or track segment)
+ */
+export function createTransportModeState(): TransportModeState {
+  return {
+    elapsed: 0,
+    meanSpeed: 0,
+    meanSquareSpeed: 0,
+    meanAcceleration: 0,
+    meanHeadingChange: 0,
+    stopRate: 0,
+  };
+}
+
+/**
+ * Window features from the classifier state
+ */
+export function transportModeFeatures(
+  state: TransportModeState,
+): TransportModeFeatures {
+  return {
+    meanSpeed: state.meanSpeed,
+    speedSpread: Math.sqrt(
+      Math.max(state.meanSquareSpeed - state.meanSpeed * state.meanSpeed, 0),
+    ),
+    acceleration: state.meanAcceleration,
+    headingChange: state.meanHeadingChange,
+    stopRate: state.stopRate,
+  };
+}
+
+/**
+ * Posterior probability of every mode for a feature vector (uniform prior)
+ */
+export function classifyFeatures(
+  features: TransportModeFeatures,
+): Record<TransportMode, number> {
+  const logLikelihoods = TRANSPORT_MODES.map((mode) =>
+    (Object.keys(features) as (keyof TransportModeFeatures)[]).reduce(
+      (sum, feature) => {
+        const [mean, sd] = MODE_MODELS[mode][feature];
+        const z = (features[feature] - mean) / sd;
+        return sum - 0.5 * z * z - Math.log(sd);
+      },
+      0,
+    ),
+  );
+
+  // Normalize in log space to avoid underflow
+  const max = Math.max(...logLikelihoods);
+  const weights = logLikelihoods.map((log) => Math.exp(log - max));
+  const total = weights.reduce((a, b) => a + b, 0);
+
+  return Object.fromEntries(
+    TRANSPORT_MODES.map((mode, i) => [mode, weights[i] / total]),
+  ) as Record<TransportMode, number>;
+}
+
+/**
+ * Feed one smoothed sample (speed m/s, acceleration m/s², turn rate deg/s)
+ * into the window and classify
+ */
+export function updateTransportMode(
+  state: TransportModeState,
+  speed: number,
+  acceleration: number,
+  turnRate: number,
+  dtSeconds: number,
+  config: TransportModeConfig,
+): TransportModeUpdate {
+  const dt = Math.max(dtSeconds, 0);
+  const stopped = speed < config.stopSpeed ? 1 : 0;
+
+  // First sample seeds the window, later ones decay it by exp(-dt / window)
+  const alpha =
+    state.elapsed === 0 ? 1 : 1 - Math.exp(-dt / config.windowSeconds);
+  const blend = (current: number, sample: number) =>
+    current + alpha * (sample - current);
+
+  const next: TransportModeState = {
+    elapsed: Math.min(state.elapsed + dt, config.windowSeconds),
+    meanSpeed: blend(state.meanSpeed, speed),
+    meanSquareSpeed: blend(state.meanSquareSpeed, speed * speed),
+    meanAcceleration: blend(state.meanAcceleration, Math.abs(acceleration)),
+    meanHeadingChange: blend(state.meanHeadingChange, Math.abs(turnRate)),
+    stopRate: blend(state.stopRate, stopped),
+  };
+
+  return { state: next, ...currentTransportMode(next, config) };
+}
+
+/**
+ * Mode and confidence for the current window ("unknown" until it has warmed
+ * up, or while the sensor has been stopped for most of it)
+ */
+export function currentTransportMode(
+  state: TransportModeState,
+  config: TransportModeConfig,
+): Omit<TransportModeUpdate, "state"> {
+  if (
+    state.elapsed < config.warmupSeconds ||
+    state.stopRate > config.maxStopRate
+  ) {
+    return { transportMode: "unknown", confidence: 0 };
+  }
+
+  const posterior = classifyFeatures(transportModeFeatures(state));
+  const transportMode = TRANSPORT_MODES.reduce((best, mode) =>
+    posterior[mode] > posterior[best] ? mode : best,
+  );
+
+  return { transportMode, confidence: posterior[transportMode] };
+}
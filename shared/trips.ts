@@ -0,0 +1,170 @@
+/**
+ * Trip Segmentation
+ * Splits a sensor's stream into trips: a trip starts on the first moving
+ * sample and closes after a long reporting gap or a sustained stop.
+ * Closed trips produce a summary (distance, duration, moving time, speeds).
+ */
+
+import type { TripConfig } from "./pipeline-config.js";
+import type { TripEvent } from "./events.js";
+
+export interface TripState {
+  active: boolean;
+
+  // Trip start (first moving sample)
+  startTime: number;
+  startLat: number;
+  startLon: number;
+
+  // Last moving sample (the trip ends here, trailing stops are not counted)
+  lastMovingTime: number;
+  lastMovingLat: number;
+  lastMovingLon: number;
+
+  // Running totals
+  distance: number; // m, accumulated while moving
+  movingTime: number; // ms
+  speedSum: number; // sum of smoothed speed samples (for average)
+  speedCount: number;
+  maxSpeed: number; // m/s
+}
+
+export interface TripSample {
+  timestamp: number;
+  lat: number; // smoothed
+  lon: number; // smoothed
+  stepDistance: number; // m since previous sample
+  dtSeconds: number;
+  smoothedVelocity: number;
+  isMoving: boolean;
+
+  // First sample of a track segment (the step spans a reporting gap)
+  segmentStart: boolean;
+}
+
+export interface TripUpdate {
+  state: TripState;
+  events: TripEvent[];
+}
+
+/**
+ * Create empty trip state (no trip in progress)
+ */
+export function createTripState(): TripState {
+  return {
+    active: false,
+    startTime: 0,
+    startLat: 0,
+    startLon: 0,
+    lastMovingTime: 0,
+    lastMovingLat: 0,
+    lastMovingLon: 0,
+    distance: 0,
+    movingTime: 0,
+    speedSum: 0,
+    speedCount: 0,
+    maxSpeed: 0,
+  };
+}
+
+/**
+ * Close the current trip; returns a trip.ended event unless it was too short
+ */
+function closeTrip(
+  state: TripState,
+  timestamp: number,
+  config: TripConfig,
+): TripEvent[] {
+  if (!state.active || state.distance < config.minDistance) {
+    return [];
+  }
+
+  return [
+    {
+      type: "trip.ended",
+      timestamp,
+      startTime: state.startTime,
+      endTime: state.lastMovingTime,
+      startLat: state.startLat,
+      startLon: state.startLon,
+      endLat: state.lastMovingLat,
+      endLon: state.lastMovingLon,
+      distance: state.distance,
+      durationMs: state.lastMovingTime - state.startTime,
+      movingTimeMs: state.movingTime,
+      avgSpeed: state.speedCount > 0 ? state.speedSum / state.speedCount : 0,
+      maxSpeed: state.maxSpeed,
+    },
+  ];
+}
+
+/**
+ * Feed one processed sample into the trip segmenter
+ */
+export function updateTrip(
+  state: TripState,
+  sample: TripSample,
+  config: TripConfig,
+): TripUpdate {
+  const events: TripEvent[] = [];
+  let next = state;
+
+  // Long reporting gap: the previous trip is over
+  if (next.active && sample.dtSeconds > config.maxGap) {
+    events.push(...closeTrip(next, sample.timestamp, config));
+    next = createTripState();
+  }
+
+  if (sample.isMoving) {
+    if (!next.active) {
+      next = {
+        ...createTripState(),
+        active: true,
+        startTime: sample.timestamp,
+        startLat: sample.lat,
+        startLon: sample.lon,
+        lastMovingTime: sample.timestamp,
+        lastMovingLat: sample.lat,
+        lastMovingLon: sample.lon,
+      };
+    } else if (sample.segmentStart) {
+      // The step spans a gap without data: no distance or moving time
+      next = {
+        ...next,
+        lastMovingTime: sample.timestamp,
+        lastMovingLat: sample.lat,
+        lastMovingLon: sample.lon,
+      };
+    } else {
+      next = {
+        ...next,
+        distance: next.distance + sample.stepDistance,
+        movingTime: next.movingTime + sample.dtSeconds * 1000,
+        lastMovingTime: sample.timestamp,
+        lastMovingLat: sample.lat,
+        lastMovingLon: sample.lon,
+      };
+    }
+
+    return {
+      state: {
+        ...next,
+        speedSum: next.speedSum + sample.smoothedVelocity,
+        speedCount: next.speedCount + 1,
+        maxSpeed: Math.max(next.maxSpeed, sample.smoothedVelocity),
+      },
+      events,
+    };
+  }
+
+  // Sustained stop: close the trip at its last moving sample
+  if (
+    next.active &&
+    (sample.timestamp - next.lastMovingTime) / 1000 > config.stopTimeout
+  ) {
+    events.push(...closeTrip(next, sample.timestamp, config));
+    next = createTripState();
+  }
+
+  return { state: next, events };
+}
@@ -0,0 +1,198 @@
+/**
+ * Velocity Filters
+ * Smoothing for the instantaneous speed series: exponential moving average,
+ * median, Savitzky–Golay (end-point polynomial fit) and a 1D Kalman filter.
+ * The moving average itself runs through dspx (see smoothVelocity in
+ * gps-pipeline.ts); every method shares one persisted state so a sensor can
+ * switch methods without losing its history
+ */
+
+import type { VelocitySmoothingConfig } from "./pipeline-config.js";
+
+export interface VelocityFilterState {
+  // Last N instantaneous speeds (circular, N = profile velocity window)
+  buffer: Float64Array;
+  index: number;
+
+  // Samples written so far (capped at the window size)
+  count: number;
+
+  // Last smoothed speed (m/s), held on dropped fixes
+  estimate: number;
+
+  // Estimate variance for the 1D Kalman ((m/s)², 0 = not initialized)
+  variance: number;
+}
+
+export interface VelocityFilterUpdate {
+  state: VelocityFilterState;
+  smoothedVelocity: number;
+}
+
+/**
+ * Create empty filter state for a window of the given size
+ */
+export function createVelocityFilterState(
+  windowSize: number,
+): VelocityFilterState {
+  return {
+    buffer: new Float64Array(windowSize),
+    index: 0,
+    count: 0,
+    estimate: 0,
+    variance: 0,
+  };
+}
+
+/**
+ * Append a speed sample to the window (returns new state)
+ */
+export function pushVelocity(
+  state: VelocityFilterState,
+  velocity: number,
+): VelocityFilterState {
+  const windowSize = state.buffer.length;
+  const buffer = new Float64Array(state.buffer);
+  buffer[state.index] = velocity;
+  return {
+    ...state,
+    buffer,
+    index: (state.index + 1) % windowSize,
+    count: Math.min(state.count + 1, windowSize),
+  };
+}
+
+/**
+ * Samples currently in the window, oldest first
+ */
+function windowSamples(state: VelocityFilterState): number[] {
+  const windowSize = state.buffer.length;
+  const samples: number[] = [];
+  for (let i = windowSize - state.count; i < windowSize; i++) {
+    samples.push(state.buffer[(state.index + i) % windowSize]);
+  }
+  return samples;
+}
+
+/**
+ * Median of the window
+ */
+function median(samples: number[]): number {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Solve a small dense linear system (Gaussian elimination, partial pivoting)
+ */
+function solve(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Savitzky–Golay value at the newest sample: least-squares polynomial fit
+ * over the window (uniform spacing, as produced by TimeAlignment) evaluated
+ * at the window's end, so there is no half-window delay
+ */
+function savitzkyGolay(samples: number[], order: number): number {
+  const degree = Math.max(0, Math.min(order, samples.length - 1));
+  const size = degree + 1;
+
+  // Normal equations with t = 0 at the newest sample
+  const normal = Array.from({ length: size }, () =>
+    new Array<number>(size).fill(0),
+  );
+  const rhs = new Array<number>(size).fill(0);
+  samples.forEach((value, i) => {
+    const t = i - (samples.length - 1);
+    for (let row = 0; row < size; row++) {
+      const tRow = Math.pow(t, row);
+      rhs[row] += tRow * value;
+      for (let col = 0; col < size; col++) {
+        normal[row][col] += tRow * Math.pow(t, col);
+      }
+    }
+  });
+
+  // Constant term = fitted value at t = 0 (speed cannot be negative)
+  return Math.max(0, solve(normal, rhs)[0]);
+}
+
+/**
+ * Feed one speed sample (m/s) through a non-dspx method
+ * ("moving-average" is handled by the dspx pipeline)
+ */
+export function filterVelocity(
+  state: VelocityFilterState,
+  velocity: number,
+  dtSeconds: number,
+  config: VelocitySmoothingConfig,
+): VelocityFilterUpdate {
+  const first = state.count === 0;
+  const next = pushVelocity(state, velocity);
+  let estimate: number;
+  let variance = state.variance;
+
+  switch (config.method) {
+    case "ema":
+      estimate = first
+        ? velocity
+        : state.estimate + config.emaAlpha * (velocity - state.estimate);
+      break;
+    case "median":
+      estimate = median(windowSamples(next));
+      break;
+    case "savitzky-golay":
+      estimate = savitzkyGolay(windowSamples(next), config.polynomialOrder);
+      break;
+    case "kalman": {
+      // Random walk on speed: variance grows with time between samples
+      if (variance === 0) {
+        estimate = velocity;
+        variance = config.measurementNoise;
+        break;
+      }
+      const predicted = variance + config.processNoise * Math.max(dtSeconds, 0);
+      const gain = predicted / (predicted + config.measurementNoise);
+      estimate = state.estimate + gain * (velocity - state.estimate);
+      variance = (1 - gain) * predicted;
+      break;
+    }
+    case "moving-average":
+      throw new Error("moving-average runs through the dspx pipeline");
+  }
+
+  return {
+    state: { ...next, estimate, variance },
+    smoothedVelocity: estimate,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Adaptive Noise Tests
+ * Learning the measurement noise of a simulated receiver through the
+ * position filter, and when the profile's values apply instead
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createNoiseEstimate,
+  effectiveKalmanConfig,
+  updateNoiseEstimate,
+  type NoiseEstimate,
+} from "../shared/adaptive-noise.js";
+import { fromLocalENU } from "../shared/geo.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+import {
+  createPositionFilterState,
+  updatePositionFilter,
+} from "../shared/position-filter.js";
+
+const kalman = DEFAULT_PIPELINE_CONFIG.kalman;
+const config = { ...DEFAULT_PIPELINE_CONFIG.adaptiveNoise, enabled: true };
+const ORIGIN = { lat: 39.984, lon: 116.318 };
+
+/**
+ * Deterministic standard normal samples (LCG + Box–Muller)
+ */
+function gaussian(seed: number): () => number {
+  let state = seed;
+  const uniform = () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    return (state + 1) / (2 ** 32 + 1);
+  };
+  return () =>
+    Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+/**
+ * Filter fixes scattered around a true track (ENU offsets in m, one fix per
+ * second) with the given standard deviation, learning the noise as the
+ * pipeline does
+ */
+function learn(
+  sigma: number,
+  fixes: number,
+  learnMeasurement = true,
+  track: (t: number) => { east: number; north: number } = () => ({
+    east: 0,
+    north: 0,
+  }),
+  profile = kalman,
+): NoiseEstimate {
+  const noise = gaussian(42);
+  let filter = createPositionFilterState();
+  let estimate: NoiseEstimate = createNoiseEstimate();
+  for (let t = 0; t < fixes; t++) {
+    const { east, north } = track(t);
+    const fix = fromLocalENU(
+      ORIGIN.lat,
+      ORIGIN.lon,
+      east + sigma * noise(),
+      north + sigma * noise(),
+    );
+    const current = effectiveKalmanConfig(profile, estimate, config);
+    const update = updatePositionFilter(filter, fix.lat, fix.lon, 1, current);
+    filter = update.state;
+    if (update.innovations) {
+      estimate = updateNoiseEstimate(
+        estimate,
+        update.innovations,
+        profile,
+        config,
+        learnMeasurement,
+      );
+    }
+  }
+  return estimate;
+}
+
+describe("updateNoiseEstimate", () => {
+  it("learns the receiver's measurement noise", () => {
+    // Profile assumes 25 m² (5 m); the receiver scatters with 12 m
+    const estimate = learn(12, 1000);
+    assert.ok(
+      estimate.measurementNoise > 100 && estimate.measurementNoise < 200,
+      `R = ${estimate.measurementNoise}`,
+    );
+  });
+
+  it("raises the process noise for manoeuvres the profile underrates", () => {
+    // 10 m/s around a 50 m circle (2 m/s² centripetal) with accurate fixes
+    const circle = (t: number) => ({
+      east: 50 * Math.cos(t / 5),
+      north: 50 * Math.sin(t / 5),
+    });
+    const estimate = learn(2, 500, false, circle, {
+      ...kalman,
+      processNoise: 0.05,
+      measurementNoise: 4,
+    });
+    assert.ok(estimate.processNoise > 0.5, `q = ${estimate.processNoise}`);
+  });
+
+  it("keeps the measurement noise when fixes report their own accuracy", () => {
+    const estimate = learn(12, 200, false);
+    assert.equal(estimate.measurementNoise, kalman.measurementNoise);
+    assert.equal(estimate.samples, 199);
+  });
+
+  it("stays within the configured bounds", () => {
+    const estimate = learn(200, 500);
+    assert.equal(estimate.measurementNoise, config.maxMeasurementNoise);
+  });
+});
+
+describe("effectiveKalmanConfig", () => {
+  it("uses the profile's values until enabled and learned", () => {
+    const learned = { processNoise: 0.3, measurementNoise: 64, samples: 10 };
+    assert.equal(
+      effectiveKalmanConfig(kalman, createNoiseEstimate(), config),
+      kalman,
+    );
+    assert.equal(
+      effectiveKalmanConfig(kalman, learned, { ...config, enabled: false }),
+      kalman,
+    );
+    assert.deepEqual(effectiveKalmanConfig(kalman, learned, config), {
+      ...kalman,
+      processNoise: 0.3,
+      measurementNoise: 64,
+    });
+  });
+});
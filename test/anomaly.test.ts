@@ -0,0 +1,111 @@
+/**
+ * Anomaly Detection Tests
+ * Each anomaly type on raw fixes, clean tracks staying unflagged, and the
+ * stream field encoding
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createAnomalyState,
+  detectAnomalies,
+  formatAnomalies,
+  parseAnomalies,
+  type AnomalyCheck,
+  type AnomalyState,
+} from "../shared/anomaly.js";
+import { fromLocalENU } from "../shared/geo.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+
+// maxRepeatedFixes 30, maxAcceleration 30 m/s², Null Island within 1 km
+const config = DEFAULT_PIPELINE_CONFIG.anomaly;
+const ORIGIN = { lat: 39.984, lon: 116.318 };
+const START = 1224730384000;
+
+interface Fix {
+  east: number; // m east of ORIGIN
+  seconds: number; // after START
+}
+
+/**
+ * Check fixes in order, returning every check
+ */
+function run(
+  fixes: (Fix | { lat: number; lon: number; seconds: number })[],
+  state: AnomalyState = createAnomalyState(),
+): AnomalyCheck[] {
+  return fixes.map((fix) => {
+    const { lat, lon } =
+      "east" in fix ? fromLocalENU(ORIGIN.lat, ORIGIN.lon, fix.east, 0) : fix;
+    const check = detectAnomalies(
+      state,
+      lat,
+      lon,
+      START + fix.seconds * 1000,
+      config,
+    );
+    state = check.state;
+    return check;
+  });
+}
+
+// 10 m/s east, one fix per second
+const drive = (seconds: number): Fix[] =>
+  Array.from({ length: seconds }, (_, t) => ({ east: 10 * t, seconds: t }));
+
+describe("detectAnomalies", () => {
+  it("leaves a clean track unflagged", () => {
+    const checks = run(drive(60));
+    assert.ok(checks.every((check) => check.event === null));
+  });
+
+  it("flags a run of identical coordinates once", () => {
+    const parked = Array.from({ length: 40 }, (_, t) => ({
+      east: 0,
+      seconds: t,
+    }));
+    const flagged = run(parked)
+      .map((check, i) => [i, check.anomalies] as const)
+      .filter(([, anomalies]) => anomalies.length > 0);
+    assert.deepEqual(flagged, [[29, ["repeatedCoordinates"]]]);
+  });
+
+  it("flags a timestamp going backwards without moving the state", () => {
+    const checks = run([...drive(5), { east: 45, seconds: 2 }]);
+    const last = checks[5];
+    assert.deepEqual(last.anomalies, ["timestampBackwards"]);
+    assert.equal(last.state, checks[4].state);
+    assert.equal(last.event?.previousTimestamp, START + 4000);
+  });
+
+  it("flags a fix resent with the same timestamp", () => {
+    const checks = run([...drive(5), { east: 41, seconds: 4 }]);
+    assert.deepEqual(checks[5].anomalies, ["frozenFix"]);
+  });
+
+  it("flags an impossible speed change", () => {
+    // 10 m/s, then 500 m in one second
+    const checks = run([...drive(5), { east: 540, seconds: 5 }]);
+    assert.deepEqual(checks[5].anomalies, ["impossibleAcceleration"]);
+    assert.ok((checks[5].event?.acceleration ?? 0) > config.maxAcceleration);
+  });
+
+  it("flags a jump to a known spoof location", () => {
+    const checks = run([...drive(5), { lat: 0.001, lon: 0.001, seconds: 600 }]);
+    assert.ok(checks[5].anomalies.includes("spoofLocation"));
+    assert.equal(checks[5].event?.spoofLocation, "Null Island");
+  });
+});
+
+describe("formatAnomalies / parseAnomalies", () => {
+  it("round-trips and ignores unknown names", () => {
+    const anomalies = ["frozenFix", "spoofLocation"] as const;
+    assert.deepEqual(parseAnomalies(formatAnomalies([...anomalies])), [
+      ...anomalies,
+    ]);
+    assert.deepEqual(parseAnomalies("frozenFix,bogus"), ["frozenFix"]);
+    assert.deepEqual(parseAnomalies(undefined), []);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Elevation Tests
+ * Altitude filter, dead-banded ascent/descent totals and slope
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  computeSlope,
+  createElevationState,
+  updateElevation,
+  type ElevationUpdate,
+} from "../shared/elevation.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+
+const config = DEFAULT_PIPELINE_CONFIG.altitude;
+const START = 1224730384000;
+
+/**
+ * Feed altitude(t) once per second for the given duration
+ */
+function track(
+  seconds: number,
+  altitude: (t: number) => number,
+): ElevationUpdate {
+  let state = createElevationState();
+  let update: ElevationUpdate | undefined;
+  for (let t = 0; t <= seconds; t++) {
+    update = updateElevation(state, altitude(t), START + t * 1000, config);
+    state = update.state;
+  }
+  return update!;
+}
+
+describe("updateElevation", () => {
+  it("starts at the first altitude fix", () => {
+    const update = updateElevation(createElevationState(), 52, START, config);
+    assert.equal(update.smoothedAltitude, 52);
+    assert.equal(update.verticalSpeed, 0);
+    assert.equal(update.state.ascent, 0);
+  });
+
+  it("tracks a steady climb", () => {
+    const update = track(300, (t) => 50 + 0.5 * t);
+    assert.ok(Math.abs(update.verticalSpeed - 0.5) < 0.05);
+    assert.ok(Math.abs(update.smoothedAltitude - 200) < 3);
+    // Everything but the last dead-band step is counted
+    assert.ok(update.state.ascent > 150 - 2 * config.climbThreshold);
+    assert.ok(update.state.ascent <= 150);
+    assert.equal(update.state.descent, 0);
+  });
+
+  it("does not accumulate altitude noise on flat ground", () => {
+    const noisy = (t: number) => 80 + (t % 2 === 0 ? 8 : -8);
+    const settled = track(120, noisy);
+    const update = track(600, noisy);
+
+    // Past the initial transient the dead-band absorbs the noise
+    assert.equal(update.state.ascent, settled.state.ascent);
+    assert.equal(update.state.descent, settled.state.descent);
+    assert.ok(Math.abs(update.smoothedAltitude - 80) < 3);
+  });
+});
+
+describe("computeSlope", () => {
+  it("divides vertical by horizontal speed above the threshold", () => {
+    assert.equal(computeSlope(0.5, 10, 1), 0.05);
+    assert.equal(computeSlope(0.5, 0.8, 1), 0);
+  });
+});
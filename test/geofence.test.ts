@@ -0,0 +1,170 @@
+/**
+ * Geofence Tests
+ * Definition validation, signed distance to circles and polygons, and
+ * enter / dwell / exit events with the exit margin
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { GeofenceEvent } from "../shared/events.js";
+import { fromLocalENU } from "../shared/geo.js";
+import {
+  geofenceDistance,
+  parseGeofence,
+  updateGeofences,
+  type Geofence,
+  type GeofenceMemberships,
+  type GeoPoint,
+} from "../shared/geofence.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+
+// dwellSeconds 300, exitMargin 10 m
+const config = DEFAULT_PIPELINE_CONFIG.geofence;
+const ORIGIN = { lat: 39.984, lon: 116.318 };
+const START = 1224730384000;
+
+// Position east/north of ORIGIN (m)
+function at(east: number, north: number): GeoPoint {
+  return fromLocalENU(ORIGIN.lat, ORIGIN.lon, east, north);
+}
+
+const circle: Geofence = {
+  id: "depot",
+  name: "Depot",
+  type: "circle",
+  center: at(0, 0),
+  radius: 100,
+};
+
+// 200 m square with its south-west corner at ORIGIN
+const square: Geofence = {
+  id: "yard",
+  name: "Yard",
+  type: "polygon",
+  points: [at(0, 0), at(200, 0), at(200, 200), at(0, 200)],
+};
+
+describe("parseGeofence", () => {
+  it("accepts circles and polygons", () => {
+    assert.deepEqual(
+      parseGeofence("depot", {
+        type: "circle",
+        center: ORIGIN,
+        radius: 100,
+        dwellSeconds: 60,
+      }),
+      {
+        geofence: {
+          id: "depot",
+          name: "depot",
+          dwellSeconds: 60,
+          type: "circle",
+          center: ORIGIN,
+          radius: 100,
+        },
+      },
+    );
+    assert.ok(
+      "geofence" in parseGeofence("yard", { ...square, id: undefined }),
+    );
+  });
+
+  it("rejects invalid definitions", () => {
+    const invalid = [
+      { type: "circle", center: ORIGIN, radius: -5 },
+      { type: "circle", center: { lat: 95, lon: 0 }, radius: 5 },
+      { type: "polygon", points: [ORIGIN, ORIGIN] },
+      { type: "circle", center: ORIGIN, radius: 5, dwellSeconds: 0 },
+      { type: "square" },
+    ];
+    for (const input of invalid) {
+      assert.ok("error" in parseGeofence("x", input), JSON.stringify(input));
+    }
+  });
+});
+
+describe("geofenceDistance", () => {
+  it("is negative inside and positive outside", () => {
+    const near = (actual: number, expected: number) =>
+      assert.ok(Math.abs(actual - expected) < 0.5, `${actual} != ${expected}`);
+
+    const inCircle = at(30, 40);
+    near(geofenceDistance(circle, inCircle.lat, inCircle.lon), -50);
+    const outCircle = at(0, 150);
+    near(geofenceDistance(circle, outCircle.lat, outCircle.lon), 50);
+
+    const inSquare = at(50, 100);
+    near(geofenceDistance(square, inSquare.lat, inSquare.lon), -50);
+    const outSquare = at(230, 240);
+    near(geofenceDistance(square, outSquare.lat, outSquare.lon), 50);
+  });
+});
+
+describe("updateGeofences", () => {
+  /**
+   * Feed positions (east/north of ORIGIN) one minute apart
+   */
+  function run(track: [number, number][], fences: Geofence[] = [circle]) {
+    let memberships: GeofenceMemberships = {};
+    const events: GeofenceEvent[] = [];
+    track.forEach(([east, north], minute) => {
+      const { lat, lon } = at(east, north);
+      const update = updateGeofences(
+        memberships,
+        fences,
+        lat,
+        lon,
+        START + minute * 60_000,
+        config,
+      );
+      memberships = update.memberships;
+      events.push(...update.events);
+    });
+    return { memberships, events };
+  }
+
+  it("reports entry, one dwell per visit and exit", () => {
+    const inside: [number, number][] = Array(7).fill([0, 50]);
+    const { events } = run([[0, 300], ...inside, [0, 300]]);
+
+    assert.deepEqual(
+      events.map((event) => [event.type, event.durationMs]),
+      [
+        ["geofence.entered", 0],
+        ["geofence.dwell", 5 * 60_000],
+        ["geofence.exited", 7 * 60_000],
+      ],
+    );
+    assert.ok(events.every((event) => event.enteredAt === START + 60_000));
+  });
+
+  it("does not flap on jitter along the boundary", () => {
+    // Alternating 5 m inside and 5 m outside the radius
+    const { events, memberships } = run([
+      [0, 95],
+      [0, 105],
+      [0, 95],
+      [0, 105],
+    ]);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ["geofence.entered"],
+    );
+    assert.ok(memberships.depot);
+  });
+
+  it("forgets memberships of deleted fences", () => {
+    const { memberships } = run([[0, 0]]);
+    const update = updateGeofences(
+      memberships,
+      [],
+      ORIGIN.lat,
+      ORIGIN.lon,
+      START,
+      config,
+    );
+    assert.deepEqual(update, { memberships: {}, events: [] });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * IMM Tests
+ * Model probabilities on stationary, constant-velocity and stop-and-go
+ * tracks, and the stream fields carrying them between workers
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fromLocalENU } from "../shared/geo.js";
+import {
+  createImmState,
+  IMM_MODELS,
+  movingProbability,
+  parseProbabilityFields,
+  probabilityFields,
+  updateImm,
+  type ImmState,
+  type ImmUpdate,
+} from "../shared/imm.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+
+const kalman = DEFAULT_PIPELINE_CONFIG.kalman;
+const config = { ...DEFAULT_PIPELINE_CONFIG.imm, enabled: true };
+const ORIGIN = { lat: 39.984, lon: 116.318 };
+
+// Deterministic jitter within ±3 m
+const jitter = (t: number) => 3 * Math.sin(t * 12.9898) * Math.cos(t * 4.1414);
+
+/**
+ * Feed one fix per second along east(t) (m east of ORIGIN, with jitter)
+ */
+function run(
+  east: (t: number) => number,
+  from: number,
+  to: number,
+  state: ImmState = createImmState(),
+): ImmUpdate {
+  let update: ImmUpdate | undefined;
+  for (let t = from; t < to; t++) {
+    const fix = fromLocalENU(
+      ORIGIN.lat,
+      ORIGIN.lon,
+      east(t) + jitter(t),
+      jitter(t + 0.5),
+    );
+    update = updateImm(
+      state,
+      fix.lat,
+      fix.lon,
+      t === from ? 0 : 1,
+      kalman,
+      config,
+    );
+    state = update.state;
+  }
+  return update!;
+}
+
+describe("updateImm", () => {
+  it("favours the stationary model at a standstill", () => {
+    const update = run(() => 0, 0, 60);
+    assert.ok(
+      update.probabilities.stationary > 0.7,
+      JSON.stringify(update.probabilities),
+    );
+    assert.ok(update.speed < 0.5, `speed = ${update.speed}`);
+  });
+
+  it("favours the moving models at constant speed", () => {
+    const update = run((t) => 10 * t, 0, 60);
+    assert.ok(movingProbability(update.probabilities) > 0.9);
+    assert.ok(
+      Math.abs(update.velocityEast - 10) < 0.5,
+      `v = ${update.velocityEast}`,
+    );
+  });
+
+  it("switches back to stationary after a stop", () => {
+    const driving = run((t) => 10 * t, 0, 60);
+    const stopped = run(() => 600, 60, 90, driving.state);
+    assert.ok(
+      stopped.probabilities.stationary > 0.5,
+      JSON.stringify(stopped.probabilities),
+    );
+  });
+
+  it("keeps the probabilities normalized and above the floor", () => {
+    const update = run((t) => (t < 30 ? 0 : 15 * (t - 30)), 0, 60);
+    const probabilities = IMM_MODELS.map(
+      (model) => update.probabilities[model],
+    );
+    assert.ok(Math.abs(probabilities.reduce((a, b) => a + b, 0) - 1) < 1e-9);
+    assert.ok(probabilities.every((p) => p >= config.minProbability - 1e-12));
+  });
+});
+
+describe("probabilityFields", () => {
+  it("round-trips through the stream fields", () => {
+    const probabilities = {
+      stationary: 0.1,
+      constantVelocity: 0.7,
+      manoeuvre: 0.2,
+    };
+    const fields = probabilityFields(probabilities);
+    const data: Record<string, string> = {};
+    for (let i = 0; i < fields.length; i += 2) {
+      data[fields[i]] = fields[i + 1];
+    }
+    assert.deepEqual(parseProbabilityFields(data), probabilities);
+    assert.equal(parseProbabilityFields({ sensorId: "x" }), undefined);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Kalman Filter Tests
+ * Single-axis constant-velocity predict and update steps and the RTS
+ * backward pass against values worked out by hand
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createAxis,
+  predictAxis,
+  smoothAxis,
+  updateAxis,
+  type KalmanAxis,
+} from "../shared/kalman.js";
+
+function assertAxis(actual: KalmanAxis, expected: KalmanAxis): void {
+  for (const key of Object.keys(expected) as (keyof KalmanAxis)[]) {
+    assert.ok(
+      Math.abs(actual[key] - expected[key]) < 1e-9,
+      `${key}: ${actual[key]} != ${expected[key]}`,
+    );
+  }
+}
+
+describe("predictAxis", () => {
+  it("propagates the state and adds white-noise acceleration", () => {
+    const axis = { x: 2, v: 3, p00: 4, p01: 1, p11: 2 };
+    // F P F' + q [dt³/3 dt²/2; dt²/2 dt] with dt = 2, q = 0.5
+    assertAxis(predictAxis(axis, 2, 0.5), {
+      x: 8,
+      v: 3,
+      p00: 4 + 2 * 2 * 1 + 4 * 2 + (0.5 * 8) / 3,
+      p01: 1 + 2 * 2 + (0.5 * 4) / 2,
+      p11: 2 + 0.5 * 2,
+    });
+  });
+
+  it("leaves the axis unchanged without a positive time step", () => {
+    const axis = createAxis(5, 10);
+    assert.equal(predictAxis(axis, 0, 1), axis);
+    assert.equal(predictAxis(axis, -1, 1), axis);
+  });
+});
+
+describe("updateAxis", () => {
+  it("applies the Kalman gain to position and velocity", () => {
+    const predicted = { x: 0, v: 0, p00: 20, p01: 10, p11: 11 };
+    const update = updateAxis(predicted, 10, 5);
+
+    // S = 25, K = [0.8, 0.4]
+    assert.equal(update.innovation, 10);
+    assert.equal(update.innovationVariance, 25);
+    assert.ok(Math.abs(update.positionGain - 0.8) < 1e-12);
+    assert.ok(Math.abs(update.velocityGain - 0.4) < 1e-12);
+    assertAxis(update.axis, {
+      x: 8,
+      v: 4,
+      p00: 4,
+      p01: 2,
+      p11: 7,
+    });
+  });
+
+  it("converges on a constant-velocity track", () => {
+    let axis = createAxis(0, 100);
+    for (let t = 1; t <= 60; t++) {
+      axis = updateAxis(predictAxis(axis, 1, 0.01), 3 * t, 1).axis;
+    }
+    assert.ok(Math.abs(axis.x - 180) < 0.1, `x = ${axis.x}`);
+    assert.ok(Math.abs(axis.v - 3) < 0.05, `v = ${axis.v}`);
+    assert.ok(axis.p00 < 1);
+  });
+});
+
+describe("smoothAxis", () => {
+  it("corrects a step from its smoothed successor", () => {
+    // q = 0: the gain is F⁻¹, so the smoothed state is the successor moved
+    // back by one step
+    const filtered = [
+      { x: 0, v: 0, p00: 1, p01: 0, p11: 1 },
+      { x: 2, v: 1, p00: 0.5, p01: 0.25, p11: 0.5 },
+    ];
+    const smoothed = smoothAxis(filtered, [0, 1], 0);
+
+    assert.equal(smoothed[1], filtered[1]);
+    assertAxis(smoothed[0], { x: 1, v: 1, p00: 0.5, p01: -0.25, p11: 0.5 });
+  });
+
+  it("reduces the error and variance of a noisy forward pass", () => {
+    const noise = [3, -4, 2, -1, 5, -3, 1, -2, 4, -5];
+    const truth = (t: number) => 2 * t;
+    const filtered: KalmanAxis[] = [];
+    let axis = createAxis(noise[0], 25);
+    filtered.push(axis);
+    for (let t = 1; t < 40; t++) {
+      axis = updateAxis(
+        predictAxis(axis, 1, 0.1),
+        truth(t) + noise[t % noise.length],
+        25,
+      ).axis;
+      filtered.push(axis);
+    }
+    const smoothed = smoothAxis(
+      filtered,
+      filtered.map(() => 1),
+      0.1,
+    );
+
+    const rmse = (track: KalmanAxis[]) =>
+      Math.sqrt(
+        track.reduce((sum, a, t) => sum + (a.x - truth(t)) ** 2, 0) /
+          track.length,
+      );
+    assert.ok(rmse(smoothed) < rmse(filtered));
+    for (let t = 0; t < filtered.length; t++) {
+      assert.ok(smoothed[t].p00 <= filtered[t].p00 + 1e-9, `p00 at ${t}`);
+    }
+  });
+});
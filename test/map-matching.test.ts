@@ -0,0 +1,125 @@
+/**
+ * Map Matching Tests
+ * Loading a GeoJSON road network and HMM matching a track that drifts
+ * toward a parallel, unconnected road
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { fromLocalENU, toLocalENU } from "../shared/geo.js";
+import {
+  createMatchState,
+  updateMatch,
+  type MapMatch,
+} from "../shared/map-matching.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+import { loadRoadNetwork, type RoadNetwork } from "../shared/road-network.js";
+
+const config = DEFAULT_PIPELINE_CONFIG.mapMatching;
+const ORIGIN = { lat: 39.984, lon: 116.318 };
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "gps-roads-"));
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+// GeoJSON [lon, lat] position east/north of ORIGIN (m)
+function position(east: number, north: number): [number, number] {
+  const { lat, lon } = fromLocalENU(ORIGIN.lat, ORIGIN.lon, east, north);
+  return [lon, lat];
+}
+
+/**
+ * Two parallel east-west roads 30 m apart, not connected to each other
+ */
+function loadNetwork(): RoadNetwork {
+  const road = (id: string, north: number) => ({
+    type: "Feature",
+    id,
+    properties: {},
+    geometry: {
+      type: "LineString",
+      coordinates: [-1000, -200, 200, 1000].map((east) =>
+        position(east, north),
+      ),
+    },
+  });
+  const file = path.join(tempDir, "roads.geojson");
+  fs.writeFileSync(
+    file,
+    JSON.stringify({
+      type: "FeatureCollection",
+      features: [road("main", 0), road("service", 30)],
+    }),
+  );
+  return loadRoadNetwork(file)!;
+}
+
+/**
+ * Match fixes (east/north of ORIGIN in m) in order
+ */
+function match(
+  network: RoadNetwork,
+  fixes: [number, number][],
+): (MapMatch | null)[] {
+  let state = createMatchState();
+  return fixes.map(([east, north]) => {
+    const { lat, lon } = fromLocalENU(ORIGIN.lat, ORIGIN.lon, east, north);
+    const update = updateMatch(state, network, lat, lon, config);
+    state = update.state;
+    return update.match;
+  });
+}
+
+describe("loadRoadNetwork", () => {
+  it("splits roads into segments joined at shared vertices", () => {
+    const network = loadNetwork();
+    assert.equal(network.segments.length, 6);
+    assert.equal(network.nodes.length, 8);
+    assert.deepEqual(
+      [...new Set(network.segments.map((segment) => segment.roadId))],
+      ["main", "service"],
+    );
+  });
+
+  it("returns null without a network file", () => {
+    assert.equal(loadRoadNetwork(path.join(tempDir, "missing.geojson")), null);
+  });
+});
+
+describe("updateMatch", () => {
+  it("snaps the fix onto the nearest road", () => {
+    const [matched] = match(loadNetwork(), [[50, 6]]);
+    assert.equal(matched?.roadSegmentId, "main");
+    const { east, north } = toLocalENU(
+      ORIGIN.lat,
+      ORIGIN.lon,
+      matched!.lat,
+      matched!.lon,
+    );
+    assert.ok(Math.abs(east - 50) < 0.5 && Math.abs(north) < 0.5);
+    assert.ok(matched!.confidence > 0.5 && matched!.confidence <= 1);
+  });
+
+  it("stays on the road it can reach when the track drifts", () => {
+    // 10 m/s along the main road, then 18 m north of it: nearer the
+    // service road, which cannot be reached without a connection
+    const fixes: [number, number][] = [];
+    for (let t = 0; t < 10; t++) {
+      fixes.push([10 * t, t < 5 ? 0 : 18]);
+    }
+    const matches = match(loadNetwork(), fixes);
+    assert.ok(matches.every((matched) => matched?.roadSegmentId === "main"));
+  });
+
+  it("reports no match off the road network", () => {
+    const matches = match(loadNetwork(), [
+      [0, 0],
+      [0, 500],
+    ]);
+    assert.equal(matches[1], null);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Motion Kinematics Tests
+ * Heading, longitudinal acceleration and turn rate from the smoothed track
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fromLocalENU } from "../shared/geo.js";
+import { createMotionState, updateMotion } from "../shared/motion.js";
+
+const ORIGIN = { lat: 39.984, lon: 116.318 };
+const MIN_SPEED = 0.5;
+
+// Point east/north of the origin (m)
+function at(east: number, north: number): { lat: number; lon: number } {
+  return fromLocalENU(ORIGIN.lat, ORIGIN.lon, east, north);
+}
+
+function near(actual: number | undefined, expected: number, tolerance = 0.1) {
+  assert.ok(
+    actual !== undefined && Math.abs(actual - expected) < tolerance,
+    `${actual} != ${expected}`,
+  );
+}
+
+describe("updateMotion", () => {
+  it("reports the course and acceleration along the track", () => {
+    const start = at(0, 0);
+    const north = at(0, 10);
+    const update = updateMotion(
+      createMotionState(),
+      start.lat,
+      start.lon,
+      north.lat,
+      north.lon,
+      10,
+      2,
+      MIN_SPEED,
+    );
+    near(update.heading, 0);
+    assert.equal(update.acceleration, 5);
+    // No previous course to turn from
+    assert.equal(update.turnRate, 0);
+  });
+
+  it("measures a right turn as a positive turn rate", () => {
+    const a = at(0, 0);
+    const b = at(0, 10);
+    const c = at(10, 10);
+    const first = updateMotion(
+      createMotionState(),
+      a.lat,
+      a.lon,
+      b.lat,
+      b.lon,
+      10,
+      1,
+      MIN_SPEED,
+    );
+    const second = updateMotion(
+      first.state,
+      b.lat,
+      b.lon,
+      c.lat,
+      c.lon,
+      8,
+      3,
+      MIN_SPEED,
+    );
+    near(second.heading, 90);
+    near(second.turnRate, 30);
+    near(second.acceleration, -2 / 3, 1e-9);
+  });
+
+  it("holds the last course while stationary", () => {
+    const a = at(0, 0);
+    const b = at(-10, 0);
+    const moving = updateMotion(
+      createMotionState(),
+      a.lat,
+      a.lon,
+      b.lat,
+      b.lon,
+      5,
+      1,
+      MIN_SPEED,
+    );
+    near(moving.heading, 270);
+
+    const jitter = at(-10, 1);
+    const stopped = updateMotion(
+      moving.state,
+      b.lat,
+      b.lon,
+      jitter.lat,
+      jitter.lon,
+      0.1,
+      1,
+      MIN_SPEED,
+    );
+    near(stopped.heading, 270);
+    assert.equal(stopped.turnRate, 0);
+  });
+
+  it("has no heading before the sensor has moved", () => {
+    const a = at(0, 0);
+    const update = updateMotion(
+      createMotionState(),
+      a.lat,
+      a.lon,
+      a.lat,
+      a.lon,
+      0,
+      1,
+      MIN_SPEED,
+    );
+    assert.equal(update.heading, undefined);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Movement State Machine Tests
+ * Enter/exit hysteresis and dwell times on smoothed speed, and the IMM
+ * probability input
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { MovementEvent } from "../shared/events.js";
+import {
+  createMovementState,
+  updateMovement,
+  updateMovementFromProbability,
+  type MovementState,
+} from "../shared/movement.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+
+// enter 0.7 m/s, exit 0.3 m/s, startDwell 3 s, stopDwell 10 s
+const config = DEFAULT_PIPELINE_CONFIG.movement;
+const START = 1224730384000;
+
+/**
+ * Feed one speed per second from `from` (s after START), returning isMoving
+ * per sample and the events
+ */
+function run(
+  speeds: number[],
+  state: MovementState = createMovementState(),
+  from = 0,
+): { state: MovementState; moving: boolean[]; events: MovementEvent[] } {
+  const moving: boolean[] = [];
+  const events: MovementEvent[] = [];
+  speeds.forEach((speed, t) => {
+    const update = updateMovement(
+      state,
+      speed,
+      START + (from + t) * 1000,
+      config,
+    );
+    state = update.state;
+    moving.push(update.isMoving);
+    events.push(...update.events);
+  });
+  return { state, moving, events };
+}
+
+const transitions = (events: MovementEvent[]) =>
+  events.map((event) => `${event.from}>${event.to}`);
+
+describe("updateMovement", () => {
+  it("confirms a start after startDwell", () => {
+    const { moving, events } = run([1, 1, 1, 1, 1]);
+    assert.deepEqual(moving, [false, false, false, true, true]);
+    assert.deepEqual(transitions(events), [
+      "STOPPED>STARTING",
+      "STARTING>MOVING",
+    ]);
+    assert.equal(events[1].timestamp, START + 3000);
+    assert.equal(events[1].isMoving, true);
+  });
+
+  it("does not flicker when speed hovers between the thresholds", () => {
+    const { moving, events } = run([0.5, 0.6, 0.4, 0.65, 0.35, 0.5, 0.6]);
+    assert.ok(moving.every((value) => !value));
+    assert.deepEqual(events, []);
+  });
+
+  it("cancels a start that drops below the exit threshold", () => {
+    const { state, events } = run([1, 1, 0.2, 0.5]);
+    assert.equal(state.phase, "STOPPED");
+    assert.deepEqual(transitions(events), [
+      "STOPPED>STARTING",
+      "STARTING>STOPPED",
+    ]);
+  });
+
+  it("rides through a short stop and confirms a long one", () => {
+    const moving = run([1, 1, 1, 1]).state;
+
+    const short = run([0.1, 0.1, 0.1, 0.1, 0.1, 1], moving, 4);
+    assert.ok(short.moving.every(Boolean));
+    assert.deepEqual(transitions(short.events), [
+      "MOVING>STOPPING",
+      "STOPPING>MOVING",
+    ]);
+
+    const long = run(Array(12).fill(0), moving, 4);
+    // Still moving until the stop has lasted stopDwell
+    assert.deepEqual(long.moving.slice(0, 10), Array(10).fill(true));
+    assert.equal(long.moving[10], false);
+    assert.equal(long.state.phase, "STOPPED");
+  });
+});
+
+describe("updateMovementFromProbability", () => {
+  it("applies the IMM probability thresholds instead of speed", () => {
+    const imm = DEFAULT_PIPELINE_CONFIG.imm;
+    let state = createMovementState();
+    const moving: boolean[] = [];
+    // Low speed, but the moving model dominates
+    for (let t = 0; t < 5; t++) {
+      const update = updateMovementFromProbability(
+        state,
+        0.95,
+        0.2,
+        START + t * 1000,
+        config,
+        imm,
+      );
+      state = update.state;
+      moving.push(update.isMoving);
+    }
+    assert.deepEqual(moving, [false, false, false, true, true]);
+  });
+});
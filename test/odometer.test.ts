@@ -0,0 +1,70 @@
+/**
+ * Odometer Tests
+ * Distance and moving time while moving, stopped time at a standstill and
+ * nothing for the step across a reporting gap
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createOdometerState,
+  updateOdometer,
+  type OdometerSample,
+} from "../shared/odometer.js";
+
+const moving: OdometerSample = {
+  stepDistance: 50,
+  dtSeconds: 5,
+  smoothedVelocity: 10,
+  isMoving: true,
+  segmentStart: false,
+};
+
+describe("updateOdometer", () => {
+  it("adds distance and moving time while moving", () => {
+    let state = createOdometerState();
+    state = updateOdometer(state, moving);
+    state = updateOdometer(state, { ...moving, smoothedVelocity: 12 });
+    assert.deepEqual(state, {
+      totalDistance: 100,
+      movingTime: 10_000,
+      stoppedTime: 0,
+      maxSpeed: 12,
+    });
+  });
+
+  it("counts only stopped time at a standstill", () => {
+    const state = updateOdometer(createOdometerState(), {
+      ...moving,
+      stepDistance: 3, // GPS drift
+      smoothedVelocity: 0.2,
+      isMoving: false,
+    });
+    assert.deepEqual(state, {
+      totalDistance: 0,
+      movingTime: 0,
+      stoppedTime: 5000,
+      maxSpeed: 0,
+    });
+  });
+
+  it("adds nothing for a segment start or a negative time step", () => {
+    const state = updateOdometer(createOdometerState(), moving);
+    assert.equal(
+      updateOdometer(state, {
+        ...moving,
+        stepDistance: 4000,
+        dtSeconds: 900,
+        segmentStart: true,
+      }),
+      state,
+    );
+    assert.equal(
+      updateOdometer(state, { ...moving, stepDistance: 0, dtSeconds: -1 })
+        .movingTime,
+      state.movingTime,
+    );
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Command-line Option Tests
+ * "--name value" parsing shared by the evaluation and tuning commands:
+ * plain, numeric and list options, and stripping options before the
+ * trajectory arguments are parsed
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  listOption,
+  numberOption,
+  option,
+  withoutOptions,
+} from "../data/options.js";
+
+const args = [
+  "--objective",
+  "rts",
+  "--iterations",
+  "40",
+  "--scenarios",
+  "line,,walk",
+  "--dry-run",
+  "128",
+  "20081023",
+];
+
+describe("option", () => {
+  it("returns the value following the option", () => {
+    assert.equal(option(args, "objective"), "rts");
+    assert.equal(option(args, "profile"), undefined);
+  });
+});
+
+describe("numberOption", () => {
+  it("parses the value or falls back when absent", () => {
+    assert.equal(numberOption(args, "iterations", 60), 40);
+    assert.equal(numberOption(args, "seed", 1), 1);
+  });
+
+  for (const value of ["-1", "many", "Infinity"]) {
+    it(`exits on ${value}`, (t) => {
+      const error = t.mock.method(console, "error", () => {});
+      t.mock.method(process, "exit", (code?: number) => {
+        throw new Error(`exit ${code}`);
+      });
+
+      assert.throws(
+        () => numberOption(["--iterations", value], "iterations", 60),
+        /exit 1/,
+      );
+      assert.match(
+        String(error.mock.calls[0].arguments[0]),
+        /--iterations must be a non-negative number/,
+      );
+    });
+  }
+});
+
+describe("listOption", () => {
+  it("splits on commas and drops empty entries", () => {
+    assert.deepEqual(listOption(args, "scenarios"), ["line", "walk"]);
+    assert.equal(listOption(args, "profiles"), undefined);
+  });
+});
+
+describe("withoutOptions", () => {
+  it("removes the given options with their values, and flags", () => {
+    assert.deepEqual(
+      withoutOptions(
+        args,
+        ["objective", "iterations", "scenarios"],
+        ["dry-run"],
+      ),
+      ["128", "20081023"],
+    );
+  });
+
+  it("keeps options it was not asked to remove", () => {
+    assert.deepEqual(withoutOptions(args, ["objective", "scenarios"]), [
+      "--iterations",
+      "40",
+      "--dry-run",
+      "128",
+      "20081023",
+    ]);
+  });
+});
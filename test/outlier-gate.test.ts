@@ -0,0 +1,134 @@
+/**
+ * Outlier Gate Tests
+ * Speed and innovation checks in drop and downweight mode, with the filter's
+ * innovation covariance and the fixed isotropic one, and held out-of-order
+ * fixes
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fromLocalENU, toLocalENU } from "../shared/geo.js";
+import { gateFix, holdOutOfOrderFix } from "../shared/outlier-gate.js";
+import {
+  DEFAULT_PIPELINE_CONFIG,
+  type GatingConfig,
+} from "../shared/pipeline-config.js";
+import type { InnovationPrediction } from "../shared/position-filter.js";
+
+const PREV = { lat: 39.984, lon: 116.318 };
+
+const drop: GatingConfig = { ...DEFAULT_PIPELINE_CONFIG.gating, mode: "drop" };
+const downweight: GatingConfig = { ...drop, mode: "downweight" };
+
+// Fix `east` m east of the previous position
+function fixAt(east: number): { lat: number; lon: number } {
+  return fromLocalENU(PREV.lat, PREV.lon, east, 0);
+}
+
+// Prediction `east` m east of the previous position, σ = 5 m per axis
+function predictionAt(east: number): InnovationPrediction {
+  return { ...fixAt(east), varianceEast: 25, varianceNorth: 25 };
+}
+
+function gate(
+  east: number,
+  config: GatingConfig,
+  prediction?: InnovationPrediction,
+  dtSeconds = 1,
+  consecutiveRejects = 0,
+) {
+  const fix = fixAt(east);
+  return gateFix(
+    fix.lat,
+    fix.lon,
+    PREV.lat,
+    PREV.lon,
+    dtSeconds,
+    consecutiveRejects,
+    config,
+    prediction,
+  );
+}
+
+describe("gateFix", () => {
+  it("accepts a fix near the prediction unchanged", () => {
+    const fix = fixAt(12);
+    assert.deepEqual(gate(12, drop, predictionAt(10)), {
+      rejected: false,
+      weight: 1,
+      ...fix,
+    });
+  });
+
+  it("drops a fix implying an impossible speed", () => {
+    const result = gate(1000, drop, predictionAt(1000), 1);
+    assert.equal(result.rejected, true);
+    assert.equal(result.reason, "speed");
+    assert.equal(result.weight, 0);
+    assert.deepEqual({ lat: result.lat, lon: result.lon }, PREV);
+  });
+
+  it("gates on the filter's innovation covariance", () => {
+    // 33 m from a prediction with σ = 5 m: d² = 43.6 > 13.8
+    assert.equal(gate(33, drop, predictionAt(0)).reason, "innovation");
+
+    // The fixed covariance (σ² = 15² + 20²) lets it through
+    assert.equal(
+      gate(33, { ...drop, covariance: "fixed" }, predictionAt(0)).rejected,
+      false,
+    );
+  });
+
+  it("pulls a down-weighted fix onto the gate boundary around the prediction", () => {
+    const prediction = predictionAt(20);
+    const result = gate(60, downweight, prediction);
+    assert.equal(result.reason, "innovation");
+
+    // Between the prediction and the fix, at the gate boundary
+    const { east, north } = toLocalENU(
+      prediction.lat,
+      prediction.lon,
+      result.lat,
+      result.lon,
+    );
+    assert.ok(Math.abs(north) < 1e-6);
+    assert.ok(Math.abs(east - 40 * result.weight) < 1e-3);
+    assert.ok(Math.abs((east * east) / prediction.varianceEast - 13.8) < 1e-3);
+  });
+
+  it("pulls toward the previous position with the fixed covariance", () => {
+    const result = gate(
+      200,
+      { ...downweight, covariance: "fixed" },
+      undefined,
+      2,
+    );
+    assert.equal(result.rejected, true);
+    const { east } = toLocalENU(PREV.lat, PREV.lon, result.lat, result.lon);
+    assert.ok(Math.abs(east - 200 * result.weight) < 1e-3);
+  });
+
+  it("re-anchors after too many consecutive rejections", () => {
+    const result = gate(
+      1000,
+      drop,
+      predictionAt(0),
+      1,
+      drop.maxConsecutiveRejects,
+    );
+    assert.equal(result.rejected, false);
+  });
+});
+
+describe("holdOutOfOrderFix", () => {
+  it("holds the previous position like a dropped fix", () => {
+    assert.deepEqual(holdOutOfOrderFix(PREV.lat, PREV.lon), {
+      rejected: true,
+      reason: "outOfOrder",
+      weight: 0,
+      ...PREV,
+    });
+  });
+});
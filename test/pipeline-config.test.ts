@@ -0,0 +1,107 @@
+/**
+ * Motion Profile Tests
+ * Resolution of sensor assignments and profile overrides, and the shipped
+ * config/gps-pipeline.json
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_PIPELINE_CONFIG,
+  applyProfile,
+  configKey,
+  loadConfigFile,
+  profileForSensor,
+  resolveSensorConfig,
+  type GPSConfigFile,
+} from "../shared/pipeline-config.js";
+
+const file: GPSConfigFile = {
+  defaultProfile: "walk",
+  profiles: {
+    walk: { velocityWindowSize: 7 },
+    car: { kalman: { processNoise: 4 }, movementThreshold: 1.5 },
+  },
+  sensors: {
+    "128-*": "walk",
+    "128-2008*": "car",
+    "128-20081023": "walk",
+  },
+};
+
+describe("profileForSensor", () => {
+  it("prefers an exact match, then the longest prefix", () => {
+    assert.equal(profileForSensor(file, "128-20081023"), "walk");
+    assert.equal(profileForSensor(file, "128-20081024"), "car");
+    assert.equal(profileForSensor(file, "128-2009"), "walk");
+  });
+
+  it("falls back to the default profile", () => {
+    assert.equal(profileForSensor(file, "010-20081023"), "walk");
+  });
+});
+
+describe("resolveSensorConfig", () => {
+  it("merges nested overrides on top of the defaults", () => {
+    const config = resolveSensorConfig(file, "128-20081024");
+    assert.equal(config.profile, "car");
+    assert.equal(config.movementThreshold, 1.5);
+    assert.deepEqual(config.kalman, {
+      ...DEFAULT_PIPELINE_CONFIG.kalman,
+      processNoise: 4,
+    });
+    assert.equal(
+      config.velocityWindowSize,
+      DEFAULT_PIPELINE_CONFIG.velocityWindowSize,
+    );
+  });
+
+  it("uses the built-in defaults for an unknown profile", () => {
+    const config = resolveSensorConfig(
+      { ...file, sensors: { x: "missing" } },
+      "x",
+    );
+    assert.equal(config, DEFAULT_PIPELINE_CONFIG);
+  });
+
+  it("keys identical settings alike", () => {
+    assert.equal(
+      configKey(resolveSensorConfig(file, "128-2009")),
+      configKey(
+        applyProfile(DEFAULT_PIPELINE_CONFIG, "walk", {
+          velocityWindowSize: 7,
+        }),
+      ),
+    );
+    assert.notEqual(
+      configKey(resolveSensorConfig(file, "128-2009")),
+      configKey(resolveSensorConfig(file, "128-20081024")),
+    );
+  });
+});
+
+describe("config/gps-pipeline.json", () => {
+  it("resolves every shipped profile to a complete configuration", () => {
+    const shipped = loadConfigFile("config/gps-pipeline.json");
+    for (const name of Object.keys(shipped.profiles)) {
+      const config = applyProfile(
+        DEFAULT_PIPELINE_CONFIG,
+        name,
+        shipped.profiles[name],
+      );
+      for (const [key, value] of Object.entries(DEFAULT_PIPELINE_CONFIG)) {
+        const resolved = (config as unknown as Record<string, unknown>)[key];
+        assert.equal(typeof resolved, typeof value, `${name}.${key}`);
+        if (value && typeof value === "object") {
+          assert.deepEqual(
+            Object.keys(resolved as object).sort(),
+            Object.keys(value).sort(),
+            `${name}.${key}`,
+          );
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Position Filter Tests
+ * Measurement variance from reported accuracy or HDOP, and the horizontal
+ * error reported from the filter covariance
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fromLocalENU, toLocalENU } from "../shared/geo.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+import {
+  createPositionFilterState,
+  hasReportedAccuracy,
+  measurementVariance,
+  updatePositionFilter,
+  type PositionUpdate,
+} from "../shared/position-filter.js";
+
+const config = DEFAULT_PIPELINE_CONFIG.kalman;
+const ORIGIN = { lat: 39.984, lon: 116.318 };
+
+describe("measurementVariance", () => {
+  it("prefers the reported accuracy, then HDOP, then the profile", () => {
+    assert.equal(measurementVariance(config, 3, 2), 9);
+    assert.equal(measurementVariance(config, undefined, 2), 100);
+    assert.equal(measurementVariance(config), config.measurementNoise);
+  });
+
+  it("ignores unusable accuracy values", () => {
+    assert.equal(measurementVariance(config, 0, 2), 100);
+    assert.equal(measurementVariance(config, NaN), config.measurementNoise);
+    assert.equal(hasReportedAccuracy(-1, undefined), false);
+    assert.equal(hasReportedAccuracy(undefined, 1.2), true);
+  });
+});
+
+describe("updatePositionFilter", () => {
+  /**
+   * Start at ORIGIN, then feed one fix 20 m east with the given variance
+   */
+  function jump(variance: number): PositionUpdate {
+    const first = updatePositionFilter(
+      createPositionFilterState(),
+      ORIGIN.lat,
+      ORIGIN.lon,
+      0,
+      config,
+    );
+    const fix = fromLocalENU(ORIGIN.lat, ORIGIN.lon, 20, 0);
+    return updatePositionFilter(
+      first.state,
+      fix.lat,
+      fix.lon,
+      1,
+      config,
+      variance,
+    );
+  }
+
+  it("starts at the first fix with its measurement error", () => {
+    const update = updatePositionFilter(
+      createPositionFilterState(),
+      ORIGIN.lat,
+      ORIGIN.lon,
+      0,
+      config,
+      16,
+    );
+    assert.equal(update.lat, ORIGIN.lat);
+    assert.equal(update.lon, ORIGIN.lon);
+    // DRMS of two axes with 16 m² each
+    assert.ok(Math.abs(update.horizontalError - Math.sqrt(32)) < 1e-9);
+  });
+
+  it("trusts an accurate fix more than a poor one", () => {
+    const accurate = jump(4);
+    const poor = jump(400);
+    const moved = (update: PositionUpdate) =>
+      toLocalENU(ORIGIN.lat, ORIGIN.lon, update.lat, update.lon).east;
+
+    assert.ok(moved(accurate) > 15, `${moved(accurate)}`);
+    assert.ok(moved(poor) < 10, `${moved(poor)}`);
+    assert.ok(accurate.horizontalError < poor.horizontalError);
+  });
+});
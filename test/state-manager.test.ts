@@ -0,0 +1,172 @@
+/**
+ * App State Tests
+ * Versioned app state blobs through GPSStateManager on an in-memory store:
+ * round trip, odometer reset, migration of the 68-byte pre-versioning blob
+ * and every decode failure reason
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { createOdometerState } from "../shared/odometer.js";
+import {
+  STATE_DECODE_REASONS,
+  VersionedStateFormat,
+} from "../shared/state-format.js";
+import { GPSStateManager, type AppState } from "../shared/state-manager.js";
+import { MemoryStateStore } from "../shared/state-store.js";
+
+type Pipeline = Parameters<GPSStateManager["loadState"]>[1];
+
+// Stands in for the dspx pipelines: no pipeline state is stored, so
+// loadState never touches it and saveState stores an empty buffer
+const pipeline = {
+  saveState: async () => Buffer.alloc(0),
+  loadState: async () => {},
+} as unknown as Pipeline;
+
+const SENSOR = "sensor-1";
+
+/**
+ * Blob as written by the pre-versioning worker: velocity window (5 doubles),
+ * window index (uint32), lastTimestamp, prevLat, prevLon (doubles)
+ */
+function legacyBlob(
+  window: number[],
+  index: number,
+  lastTimestamp: number,
+  lat: number,
+  lon: number,
+): Buffer {
+  const buffer = Buffer.alloc(68);
+  window.forEach((velocity, i) => buffer.writeDoubleLE(velocity, i * 8));
+  buffer.writeUInt32LE(index, 40);
+  buffer.writeDoubleLE(lastTimestamp, 44);
+  buffer.writeDoubleLE(lat, 52);
+  buffer.writeDoubleLE(lon, 60);
+  return buffer;
+}
+
+describe("GPSStateManager app state", () => {
+  let store: MemoryStateStore;
+  let manager: GPSStateManager;
+
+  beforeEach(() => {
+    store = new MemoryStateStore();
+    manager = new GPSStateManager(store);
+  });
+
+  const load = () => manager.loadState(SENSOR, pipeline, pipeline);
+
+  async function counts(): Promise<Record<string, number>> {
+    return manager.getStateDecodeCounts();
+  }
+
+  it("round-trips every field", async () => {
+    const state: AppState = {
+      ...manager.createInitialState(39.9, 116.4, 1224730384000),
+      rejectCount: 2,
+      match: {
+        lastLat: 39.9,
+        lastLon: 116.4,
+        candidates: [{ segment: 3, offset: 12.5, logProbability: -1.5 }],
+      },
+    };
+    await manager.saveState(SENSOR, pipeline, pipeline, state);
+
+    assert.deepEqual(await load(), state);
+    assert.deepEqual(await counts(), {
+      header: 0,
+      version: 0,
+      migration: 0,
+      field: 0,
+      migrated: 0,
+    });
+  });
+
+  it("migrates the 68-byte pre-versioning blob", async () => {
+    await store.set(
+      `gps:app:${SENSOR}`,
+      legacyBlob([1, 2, 3, 4, 0], 4, 1224730384000, 39.984, 116.318),
+    );
+
+    const state = await load();
+    assert.equal(state.lastTimestamp, 1224730384000);
+    assert.equal(state.prevLat, 39.984);
+    assert.equal(state.prevLon, 116.318);
+    assert.deepEqual([...state.velocity.buffer], [1, 2, 3, 4, 0]);
+    assert.equal(state.velocity.index, 4);
+    assert.equal(state.velocity.count, 5);
+    assert.equal(state.velocity.estimate, 2);
+    assert.deepEqual(
+      { ...state, velocity: undefined },
+      {
+        ...manager.createInitialState(39.984, 116.318, 1224730384000),
+        velocity: undefined,
+      },
+    );
+    assert.equal((await counts()).migrated, 1);
+
+    // Saved back in the current format
+    await manager.saveState(SENSOR, pipeline, pipeline, state);
+    assert.deepEqual(await load(), state);
+    assert.equal((await counts()).migrated, 1);
+  });
+
+  it("resets the odometer and keeps the rest of the state", async () => {
+    const state: AppState = {
+      ...manager.createInitialState(39.9, 116.4, 1224730384000),
+      odometer: {
+        totalDistance: 1200,
+        movingTime: 90_000,
+        stoppedTime: 30_000,
+        maxSpeed: 14,
+      },
+    };
+    await manager.saveState(SENSOR, pipeline, pipeline, state);
+
+    assert.equal(await manager.resetOdometer(SENSOR), true);
+    assert.deepEqual(await load(), {
+      ...state,
+      odometer: createOdometerState(),
+    });
+    assert.equal(await manager.resetOdometer("unknown"), false);
+  });
+
+  describe("discards undecodable blobs by reason", () => {
+    const format = new VersionedStateFormat("GPSA", 1);
+    const blobs: Record<(typeof STATE_DECODE_REASONS)[number], Buffer> = {
+      // Magic followed by a truncated header
+      header: Buffer.from("GPSA\x01", "latin1"),
+      // Newer than this build
+      version: new VersionedStateFormat("GPSA", 2).encode(new Map()),
+      // Headerless, but not the 68-byte layout
+      migration: Buffer.alloc(64),
+      // Current version with fields missing
+      field: format.encode(new Map([["lastTimestamp", Buffer.alloc(8)]])),
+    };
+
+    for (const reason of STATE_DECODE_REASONS) {
+      it(reason, async () => {
+        await store.set(`gps:app:${SENSOR}`, blobs[reason]);
+
+        const state = await load();
+        assert.deepEqual(state, manager.createInitialState(0, 0, 0));
+        const decodeCounts = await counts();
+        for (const other of STATE_DECODE_REASONS) {
+          assert.equal(decodeCounts[other], other === reason ? 1 : 0, other);
+        }
+      });
+    }
+
+    it("rejects an out-of-range window index in the legacy blob", async () => {
+      await store.set(
+        `gps:app:${SENSOR}`,
+        legacyBlob([0, 0, 0, 0, 0], 5, 1224730384000, 39.9, 116.4),
+      );
+      await load();
+      assert.equal((await counts()).migration, 1);
+    });
+  });
+});
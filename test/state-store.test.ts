@@ -0,0 +1,190 @@
+/**
+ * State Store Tests
+ * Round trips through the in-memory and file backends (no Redis needed):
+ * reopening and compacting the log, recovering from a half-written record,
+ * concurrent writers sharing one file and taking over a stale lock
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { promisify } from "node:util";
+import {
+  FileStateStore,
+  MemoryStateStore,
+  type StateStore,
+} from "../shared/state-store.js";
+
+const run = promisify(execFile);
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "gps-state-"));
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+let files = 0;
+const tempLog = () => path.join(tempDir, `state-${++files}.log`);
+
+/**
+ * Write one of every kind of value
+ */
+async function populate(store: StateStore): Promise<void> {
+  await store.set("value", Buffer.from([0, 1, 2, 255]), 3600);
+  await store.pushCapped("list", "a", 2);
+  await store.pushCapped("list", "b", 2);
+  await store.pushCapped("list", "c", 2);
+  await store.hashSet("hash", "name", "depot");
+  await store.hashIncrement("counts", ["jump", "speed"]);
+  await store.hashIncrement("counts", ["jump"]);
+}
+
+async function assertPopulated(store: StateStore): Promise<void> {
+  assert.deepEqual(await store.get("value"), Buffer.from([0, 1, 2, 255]));
+  assert.deepEqual(await store.listRange("list", 0, -1), ["c", "b"]);
+  assert.equal(await store.hashGet("hash", "name"), "depot");
+  assert.deepEqual(await store.hashGetAll("counts"), { jump: "2", speed: "1" });
+}
+
+describe("MemoryStateStore", () => {
+  it("round-trips values, lists and hashes", async () => {
+    const store = new MemoryStateStore();
+    await populate(store);
+    await assertPopulated(store);
+
+    assert.equal(await store.hashDelete("hash", "name"), true);
+    assert.equal(await store.hashDelete("hash", "name"), false);
+    assert.equal(await store.exists("hash"), false);
+    await store.delete(["value"]);
+    assert.equal(await store.get("value"), null);
+  });
+
+  it("expires keys after their TTL", async () => {
+    const store = new MemoryStateStore();
+    await store.set("short", "x", 0.05);
+    await store.set("kept", "y");
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    assert.equal(await store.exists("short"), false);
+    assert.equal((await store.get("kept"))?.toString(), "y");
+  });
+
+  it("rejects reading a key as another type", async () => {
+    const store = new MemoryStateStore();
+    await store.set("value", "x");
+    await assert.rejects(store.hashGet("value", "field"), /WRONGTYPE/);
+  });
+});
+
+describe("FileStateStore", () => {
+  it("keeps its state across reopening", async () => {
+    const file = tempLog();
+    await populate(new FileStateStore(file));
+    await assertPopulated(new FileStateStore(file));
+  });
+
+  it("sees writes from another instance on the same file", async () => {
+    const file = tempLog();
+    const writer = new FileStateStore(file);
+    const reader = new FileStateStore(file);
+    await populate(writer);
+    await assertPopulated(reader);
+  });
+
+  it("compacts the log to the live keys", async () => {
+    const file = tempLog();
+    const store = new FileStateStore(file);
+    await store.set("expired", "x", 0.05);
+    for (let i = 0; i < 12000; i++) {
+      await store.set(`key${i % 5}`, String(i));
+    }
+    const lines = fs.readFileSync(file, "utf-8").split("\n").length - 1;
+    assert.ok(lines < 12000, `log not compacted (${lines} lines)`);
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    const reopened = new FileStateStore(file);
+    assert.equal((await reopened.get("key4"))?.toString(), "11999");
+    assert.equal(await reopened.exists("expired"), false);
+  });
+
+  it("recovers from a record left half written by a crash", async () => {
+    const file = tempLog();
+    await populate(new FileStateStore(file));
+    fs.appendFileSync(file, '{"key":"value","entry":{"type":"va');
+
+    const store = new FileStateStore(file);
+    await assertPopulated(store);
+    await store.set("after", "ok");
+    await assertPopulated(new FileStateStore(file));
+    assert.equal(
+      (await new FileStateStore(file).get("after"))?.toString(),
+      "ok",
+    );
+  });
+
+  it("skips corrupt records in the middle of the log", async () => {
+    const file = tempLog();
+    await populate(new FileStateStore(file));
+    fs.appendFileSync(file, "not json\n");
+    await new FileStateStore(file).set("after", "ok");
+
+    const store = new FileStateStore(file);
+    await assertPopulated(store);
+    assert.equal((await store.get("after"))?.toString(), "ok");
+  });
+
+  it("loses no updates from concurrent writer processes", async () => {
+    const file = tempLog();
+    await runWriters(file);
+
+    const counts = await new FileStateStore(file).hashGetAll("counts");
+    assert.deepEqual(counts, { a: "200", b: "200", total: "400" });
+  });
+
+  it("takes over a stale lock left by a crashed process", async () => {
+    const file = tempLog();
+    await new FileStateStore(file).set("before", "ok");
+    const lock = `${file}.lock`;
+    fs.writeFileSync(lock, "");
+    const crashed = new Date(Date.now() - 60_000);
+    fs.utimesSync(lock, crashed, crashed);
+
+    // Both writers find the stale lock; only one may take it over
+    await runWriters(file);
+
+    const store = new FileStateStore(file);
+    assert.deepEqual(await store.hashGetAll("counts"), {
+      a: "200",
+      b: "200",
+      total: "400",
+    });
+    assert.equal((await store.get("before"))?.toString(), "ok");
+    const leftovers = fs
+      .readdirSync(tempDir)
+      .filter((name) => name.startsWith(`${path.basename(file)}.`));
+    assert.deepEqual(leftovers, []);
+  });
+});
+
+/**
+ * Run two writer processes against one file, each incrementing its own
+ * counter and a shared total 200 times
+ */
+async function runWriters(file: string): Promise<void> {
+  const script = path.join(tempDir, "writer.mts");
+  const storeModule = path.resolve("shared/state-store.ts");
+  fs.writeFileSync(
+    script,
+    `import { FileStateStore } from ${JSON.stringify(storeModule)};
+const store = new FileStateStore(process.argv[2]);
+for (let i = 0; i < 200; i++) {
+  await store.hashIncrement("counts", [process.argv[3], "total"]);
+  await store.set(\`filler\${i % 3}\`, "x".repeat(100));
+}
+`,
+  );
+
+  const tsx = path.resolve("node_modules/.bin/tsx");
+  await Promise.all(["a", "b"].map((name) => run(tsx, [script, file, name])));
+}
@@ -0,0 +1,95 @@
+/**
+ * Stay-Point Tests
+ * stay.started once the sensor has dwelt long enough within the region,
+ * stay.ended when it leaves, nothing for short visits
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { StayEvent } from "../shared/events.js";
+import { fromLocalENU, haversineDistance } from "../shared/geo.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+import { createStayState, updateStay } from "../shared/stay-point.js";
+
+const config = DEFAULT_PIPELINE_CONFIG.stayPoint;
+const PLACE = { lat: 39.984, lon: 116.318 };
+const START = 1224730384000;
+const MINUTE = 60_000;
+
+interface Fix {
+  east: number;
+  north: number;
+  minute: number;
+}
+
+/**
+ * Feed fixes (offsets from PLACE in m) and collect the events
+ */
+function run(fixes: Fix[]): StayEvent[] {
+  let state = createStayState();
+  const events: StayEvent[] = [];
+  for (const { east, north, minute } of fixes) {
+    const { lat, lon } = fromLocalENU(PLACE.lat, PLACE.lon, east, north);
+    const update = updateStay(state, lat, lon, START + minute * MINUTE, config);
+    state = update.state;
+    events.push(...update.events);
+  }
+  return events;
+}
+
+// One fix per minute jittering around PLACE (±20 m)
+function dwell(minutes: number): Fix[] {
+  return Array.from({ length: minutes + 1 }, (_, minute) => ({
+    east: minute % 2 === 0 ? 20 : -20,
+    north: minute % 3 === 0 ? 20 : -10,
+    minute,
+  }));
+}
+
+describe("updateStay", () => {
+  it("starts a stay after the time threshold and ends it on leaving", () => {
+    const events = run([...dwell(30), { east: 1000, north: 0, minute: 31 }]);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ["stay.started", "stay.ended"],
+    );
+
+    const [started, ended] = events;
+    assert.equal(started.startTime, START);
+    assert.equal(started.timestamp, START + 20 * MINUTE);
+    assert.equal(started.durationMs, 20 * MINUTE);
+    assert.equal(ended.timestamp, START + 31 * MINUTE);
+    assert.equal(ended.durationMs, 30 * MINUTE);
+
+    // Centroid near PLACE, radius about the jitter
+    assert.ok(
+      haversineDistance(
+        PLACE.lat,
+        PLACE.lon,
+        ended.centroidLat,
+        ended.centroidLon,
+      ) < 10,
+    );
+    assert.ok(ended.radius > 10 && ended.radius < 30, `${ended.radius}`);
+  });
+
+  it("ignores a visit shorter than the time threshold", () => {
+    assert.deepEqual(
+      run([...dwell(15), { east: 1000, north: 0, minute: 16 }]),
+      [],
+    );
+  });
+
+  it("restarts the region when the sensor moves on", () => {
+    // Two 10-minute visits 1 km apart: together past the threshold, but
+    // neither region on its own
+    const leave = dwell(10).map((fix) => ({ ...fix, east: fix.east + 1000 }));
+    const events = run([
+      ...dwell(10),
+      ...leave.map((fix) => ({ ...fix, minute: fix.minute + 11 })),
+    ]);
+    assert.deepEqual(events, []);
+  });
+});
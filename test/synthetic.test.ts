@@ -0,0 +1,226 @@
+/**
+ * Synthetic Trajectory Tests
+ * Seeded random streams, scenario simulation, ground-truth interpolation
+ * and noisy fix sampling used by the accuracy evaluation and tuning
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { haversineDistance } from "../shared/geo.js";
+import {
+  DEFAULT_NOISE,
+  SCENARIOS,
+  createRandom,
+  gaussian,
+  generateRuns,
+  sampleFixes,
+  simulateScenario,
+  truthAt,
+  type NoiseOptions,
+} from "../data/synthetic.js";
+
+const line = simulateScenario(SCENARIOS.line);
+const start = line.timestamps[0];
+
+// Noise-free sampling: every fix on the truth
+const exact: NoiseOptions = {
+  ...DEFAULT_NOISE,
+  sigma: 0,
+  dropoutRate: 0,
+  outlierRate: 0,
+};
+
+describe("createRandom", () => {
+  it("repeats the same stream for the same seed", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const c = createRandom(43);
+    const first = Array.from({ length: 5 }, a);
+    assert.deepEqual(Array.from({ length: 5 }, b), first);
+    assert.notDeepEqual(Array.from({ length: 5 }, c), first);
+  });
+
+  it("draws uniformly from [0, 1)", () => {
+    const random = createRandom(1);
+    const values = Array.from({ length: 10000 }, random);
+    assert.ok(values.every((value) => value >= 0 && value < 1));
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    assert.ok(Math.abs(mean - 0.5) < 0.01, `mean ${mean}`);
+  });
+});
+
+describe("gaussian", () => {
+  it("has zero mean and unit variance", () => {
+    const random = createRandom(7);
+    const values = Array.from({ length: 20000 }, () => gaussian(random));
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance =
+      values.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+      values.length;
+    assert.ok(Math.abs(mean) < 0.03, `mean ${mean}`);
+    assert.ok(Math.abs(variance - 1) < 0.05, `variance ${variance}`);
+  });
+});
+
+describe("simulateScenario", () => {
+  it("samples the legs every 0.1 s", () => {
+    // 20 + 120 + 30 s
+    assert.equal(line.timestamps.length, 1700);
+    assert.equal(line.timestamps[1] - start, 100);
+  });
+
+  it("accelerates to each leg's speed and heads east", () => {
+    const speeds = line.speed;
+    assert.equal(speeds[199], 0); // standing for the first 20 s
+    // 14 m/s reached after 14 / 1.5 ≈ 9.3 s
+    assert.ok(Math.abs(speeds[200 + 100] - 14) < 1e-9);
+    assert.ok(speeds[speeds.length - 1] < 1e-9);
+    assert.ok(Math.max(...speeds) <= 14 + 1e-9);
+
+    const last = line.east.length - 1;
+    assert.ok(Math.abs(line.north[last]) < 1e-6);
+    // 120 s at 14 m/s: the slow-down in the stop leg makes up for the
+    // distance lost speeding up
+    assert.ok(Math.abs(line.east[last] - 1680) < 1e-6);
+  });
+
+  it("turns and comes back to the original heading on S-curves", () => {
+    const curve = simulateScenario(SCENARIOS.curve);
+    const last = curve.east.length - 1;
+    // The left turn cancels the right one: displaced south, heading east
+    assert.ok(curve.north[last] < -50, `north ${curve.north[last]}`);
+    const dEast = curve.east[last] - curve.east[last - 300];
+    const dNorth = curve.north[last] - curve.north[last - 300];
+    assert.ok(Math.abs(dNorth) < 0.01 * dEast);
+  });
+});
+
+describe("truthAt", () => {
+  it("interpolates between simulation steps", () => {
+    const i = 500;
+    const sample = truthAt(line, line.timestamps[i] + 25);
+    assert.ok(
+      Math.abs(sample.east - (0.75 * line.east[i] + 0.25 * line.east[i + 1])) <
+        1e-9,
+    );
+    assert.ok(
+      Math.abs(
+        sample.speed - (0.75 * line.speed[i] + 0.25 * line.speed[i + 1]),
+      ) < 1e-9,
+    );
+    assert.equal(sample.isMoving, true);
+  });
+
+  it("clamps to the ends of the track", () => {
+    const before = truthAt(line, start - 60_000);
+    assert.equal(before.east, 0);
+    assert.equal(before.isMoving, false);
+
+    const end = line.timestamps[line.timestamps.length - 1];
+    const after = truthAt(line, end + 60_000);
+    assert.deepEqual(after, truthAt(line, end));
+  });
+});
+
+describe("sampleFixes", () => {
+  it("samples the truth at the sample interval without noise", () => {
+    const { fixes, outliers } = sampleFixes(
+      line,
+      { ...exact, sampleInterval: 2 },
+      createRandom(1),
+    );
+    assert.equal(fixes.length, 85); // 0..168 s
+    assert.ok(outliers.every((outlier) => !outlier));
+    for (const fix of fixes) {
+      assert.equal((fix.timestamp - start) % 2000, 0);
+      const truth = truthAt(line, fix.timestamp);
+      assert.ok(
+        haversineDistance(fix.lat, fix.lon, truth.lat, truth.lon) < 1e-6,
+      );
+    }
+  });
+
+  it("displaces outliers by the outlier distance", () => {
+    const { fixes, outliers } = sampleFixes(
+      line,
+      { ...exact, outlierRate: 1 },
+      createRandom(1),
+    );
+    assert.ok(outliers.every(Boolean));
+    for (const fix of fixes) {
+      const truth = truthAt(line, fix.timestamp);
+      const error = haversineDistance(fix.lat, fix.lon, truth.lat, truth.lon);
+      assert.ok(
+        Math.abs(error - exact.outlierDistance) < 0.5,
+        `error ${error}`,
+      );
+    }
+  });
+
+  it("skips fixes for the dropout length", () => {
+    const { fixes } = sampleFixes(
+      line,
+      { ...exact, dropoutRate: 0.05, dropoutSeconds: 10 },
+      createRandom(3),
+    );
+    assert.ok(fixes.length < 170);
+    const gaps = fixes
+      .slice(1)
+      .map((fix, i) => fix.timestamp - fixes[i].timestamp)
+      .filter((gap) => gap > 1000);
+    assert.ok(gaps.length > 0);
+    // A dropout drops at least the 10 s it lasts
+    assert.ok(
+      gaps.every((gap) => gap >= 11_000),
+      `gaps ${gaps}`,
+    );
+  });
+
+  it("scatters fixes by sigma on each axis", () => {
+    const { fixes } = sampleFixes(
+      line,
+      { ...exact, sampleInterval: 0.1, sigma: 5 },
+      createRandom(5),
+    );
+    let sumSq = 0;
+    for (const fix of fixes) {
+      const truth = truthAt(line, fix.timestamp);
+      sumSq += haversineDistance(fix.lat, fix.lon, truth.lat, truth.lon) ** 2;
+    }
+    // Horizontal RMS error is σ√2
+    const rms = Math.sqrt(sumSq / fixes.length);
+    assert.ok(Math.abs(rms - 5 * Math.SQRT2) < 0.3, `rms ${rms}`);
+  });
+});
+
+describe("generateRuns", () => {
+  it("is repeatable for a seed", () => {
+    assert.deepEqual(generateRuns(), generateRuns());
+    assert.notDeepEqual(
+      generateRuns({ ...DEFAULT_NOISE, seed: 2 })[0].fixes,
+      generateRuns()[0].fixes,
+    );
+  });
+
+  it("keeps a scenario's noise when others are left out", () => {
+    const all = generateRuns();
+    const [walk] = generateRuns(DEFAULT_NOISE, ["walk"]);
+    assert.deepEqual(
+      walk,
+      all.find((run) => run.scenario === "walk"),
+    );
+    assert.deepEqual(
+      all.map((run) => run.scenario),
+      Object.keys(SCENARIOS),
+    );
+  });
+
+  it("rejects an unknown scenario", () => {
+    assert.throws(
+      () => generateRuns(DEFAULT_NOISE, ["teleport"]),
+      /Unknown scenario "teleport"/,
+    );
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Transport Mode Tests
+ * Naive Bayes posteriors at each mode's typical features, warm-up and
+ * stopped windows, and classifying a simulated walk
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+import {
+  classifyFeatures,
+  createTransportModeState,
+  TRANSPORT_MODES,
+  updateTransportMode,
+  type TransportModeUpdate,
+} from "../shared/transport-mode.js";
+
+const config = DEFAULT_PIPELINE_CONFIG.transportMode;
+
+/**
+ * Feed one sample per second: speed, acceleration and turn rate at time t
+ */
+function run(
+  seconds: number,
+  sample: (t: number) => [number, number, number],
+): TransportModeUpdate {
+  let state = createTransportModeState();
+  let update: TransportModeUpdate | undefined;
+  for (let t = 0; t < seconds; t++) {
+    const [speed, acceleration, turnRate] = sample(t);
+    update = updateTransportMode(
+      state,
+      speed,
+      acceleration,
+      turnRate,
+      1,
+      config,
+    );
+    state = update.state;
+  }
+  return update!;
+}
+
+describe("classifyFeatures", () => {
+  it("picks the mode whose typical features are given", () => {
+    const typical = {
+      walk: [1.2, 0.5, 0.15, 12, 0.25],
+      bike: [3.8, 1.2, 0.25, 6, 0.15],
+      bus: [5.5, 3.5, 0.5, 3, 0.35],
+      car: [9, 4, 0.6, 3.5, 0.2],
+      subway: [11, 6, 0.5, 1, 0.3],
+    };
+    for (const mode of TRANSPORT_MODES) {
+      const [meanSpeed, speedSpread, acceleration, headingChange, stopRate] =
+        typical[mode];
+      const posterior = classifyFeatures({
+        meanSpeed,
+        speedSpread,
+        acceleration,
+        headingChange,
+        stopRate,
+      });
+      const best = TRANSPORT_MODES.reduce((a, b) =>
+        posterior[b] > posterior[a] ? b : a,
+      );
+      assert.equal(best, mode);
+      const total = TRANSPORT_MODES.reduce((sum, m) => sum + posterior[m], 0);
+      assert.ok(Math.abs(total - 1) < 1e-12);
+    }
+  });
+});
+
+describe("updateTransportMode", () => {
+  // Walking pace with gentle speed changes and frequent turns
+  const walk = (t: number): [number, number, number] => [
+    1.2 + 0.5 * Math.sin(t / 4),
+    0.125 * Math.cos(t / 4),
+    t % 10 < 5 ? 15 : -10,
+  ];
+
+  it("reports unknown until the window has warmed up", () => {
+    const update = run(config.warmupSeconds - 1, walk);
+    assert.equal(update.transportMode, "unknown");
+    assert.equal(update.confidence, 0);
+  });
+
+  it("classifies a walk", () => {
+    const update = run(180, walk);
+    assert.equal(update.transportMode, "walk");
+    assert.ok(update.confidence > 0.5, `confidence = ${update.confidence}`);
+  });
+
+  it("reports unknown while stopped most of the window", () => {
+    const update = run(400, (t) => (t < 60 ? walk(t) : [0.1, 0, 0]));
+    assert.equal(update.transportMode, "unknown");
+  });
+});
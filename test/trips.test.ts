@@ -0,0 +1,139 @@
+/**
+ * Trip Segmentation Tests
+ * Trips closed by a sustained stop or a long reporting gap, their summaries,
+ * segment resets and the minimum distance
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { TripEvent } from "../shared/events.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../shared/pipeline-config.js";
+import {
+  createTripState,
+  updateTrip,
+  type TripSample,
+  type TripState,
+} from "../shared/trips.js";
+
+const config = DEFAULT_PIPELINE_CONFIG.trip;
+const START = 1224730384000;
+
+/**
+ * Feed samples through the segmenter, collecting the events
+ */
+function run(
+  samples: TripSample[],
+  state = createTripState(),
+): { state: TripState; events: TripEvent[] } {
+  const events: TripEvent[] = [];
+  for (const sample of samples) {
+    const update = updateTrip(state, sample, config);
+    state = update.state;
+    events.push(...update.events);
+  }
+  return { state, events };
+}
+
+/**
+ * Samples every 10 s from `from` (s after START) for `seconds`, at a
+ * constant speed (0 = stopped)
+ */
+function drive(from: number, seconds: number, speed: number): TripSample[] {
+  const samples: TripSample[] = [];
+  for (let t = from + 10; t <= from + seconds; t += 10) {
+    samples.push({
+      timestamp: START + t * 1000,
+      lat: 39.9,
+      lon: 116.3 + t * 1e-5,
+      stepDistance: speed * 10,
+      dtSeconds: 10,
+      smoothedVelocity: speed,
+      isMoving: speed > 0,
+      segmentStart: false,
+    });
+  }
+  return samples;
+}
+
+describe("updateTrip", () => {
+  it("closes a trip after a sustained stop, at its last moving sample", () => {
+    const { state, events } = run([
+      ...drive(0, 600, 10),
+      ...drive(600, 400, 0),
+    ]);
+    assert.equal(state.active, false);
+    assert.equal(events.length, 1);
+
+    const [trip] = events;
+    // Started on the first moving sample (10 s), ended at 600 s
+    assert.equal(trip.startTime, START + 10_000);
+    assert.equal(trip.endTime, START + 600_000);
+    assert.equal(trip.durationMs, 590_000);
+    assert.equal(trip.movingTimeMs, 590_000);
+    assert.equal(trip.distance, 5900);
+    assert.equal(trip.avgSpeed, 10);
+    assert.equal(trip.maxSpeed, 10);
+    // Detected once the stop outlasted stopTimeout
+    assert.ok(trip.timestamp - trip.endTime > config.stopTimeout * 1000);
+    assert.ok(
+      trip.timestamp - trip.endTime <= config.stopTimeout * 1000 + 10_000,
+    );
+  });
+
+  it("keeps the trip open across a short stop", () => {
+    const { state, events } = run([
+      ...drive(0, 300, 10),
+      ...drive(300, 120, 0),
+      ...drive(420, 300, 10),
+    ]);
+    assert.deepEqual(events, []);
+    assert.equal(state.active, true);
+    assert.equal(state.distance, 5900);
+  });
+
+  it("closes the trip on a long reporting gap", () => {
+    const before = run(drive(0, 300, 10));
+    const gap = config.maxGap + 60;
+    const after = run(
+      [{ ...drive(300 + gap - 10, 10, 10)[0], dtSeconds: gap }],
+      before.state,
+    );
+
+    assert.equal(after.events.length, 1);
+    assert.equal(after.events[0].endTime, START + 300_000);
+    // A new trip starts at the fix after the gap
+    assert.equal(after.state.active, true);
+    assert.equal(after.state.startTime, START + (300 + gap) * 1000);
+    assert.equal(after.state.distance, 0);
+  });
+
+  it("adds nothing for the step across a segment reset", () => {
+    const before = run(drive(0, 300, 10));
+    // 10 minutes without fixes (past the pipeline's maxGap, short of the
+    // trip's): the first fix after it jumps 6 km
+    const after = run(
+      [
+        {
+          ...drive(890, 10, 10)[0],
+          stepDistance: 6000,
+          dtSeconds: 600,
+          segmentStart: true,
+        },
+        ...drive(900, 60, 10),
+      ],
+      before.state,
+    );
+
+    assert.deepEqual(after.events, []);
+    assert.equal(after.state.distance, 2900 + 600);
+    assert.equal(after.state.movingTime, 290_000 + 60_000);
+    assert.equal(after.state.lastMovingTime, START + 960_000);
+  });
+
+  it("discards trips shorter than the minimum distance", () => {
+    const { events } = run([...drive(0, 60, 1), ...drive(60, 400, 0)]);
+    assert.deepEqual(events, []);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Velocity Filter Tests
+ * The sample window and each non-dspx smoothing method (EMA, median,
+ * Savitzky–Golay, 1D Kalman) against values worked out by hand
+ *
+ * Usage: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_PIPELINE_CONFIG,
+  type VelocitySmoothingMethod,
+} from "../shared/pipeline-config.js";
+import {
+  createVelocityFilterState,
+  filterVelocity,
+  pushVelocity,
+  type VelocityFilterUpdate,
+} from "../shared/velocity-filter.js";
+
+/**
+ * Smooth a speed series (one sample per second), returning the last update
+ */
+function smooth(
+  method: VelocitySmoothingMethod,
+  speeds: number[],
+  windowSize = 5,
+): VelocityFilterUpdate {
+  const config = { ...DEFAULT_PIPELINE_CONFIG.velocitySmoothing, method };
+  let state = createVelocityFilterState(windowSize);
+  let update: VelocityFilterUpdate | undefined;
+  for (const speed of speeds) {
+    update = filterVelocity(state, speed, 1, config);
+    state = update.state;
+  }
+  return update!;
+}
+
+describe("pushVelocity", () => {
+  it("keeps the last samples in a circular window", () => {
+    let state = createVelocityFilterState(3);
+    for (const speed of [1, 2, 3, 4, 5]) {
+      state = pushVelocity(state, speed);
+    }
+    assert.deepEqual([...state.buffer], [4, 5, 3]);
+    assert.equal(state.index, 2);
+    assert.equal(state.count, 3);
+  });
+});
+
+describe("filterVelocity", () => {
+  it("ema: weights the newest sample by emaAlpha", () => {
+    // 10 + 0.3 * (20 - 10)
+    assert.equal(smooth("ema", [10, 20]).smoothedVelocity, 13);
+  });
+
+  it("median: ignores a single spike", () => {
+    assert.equal(smooth("median", [5, 6, 50, 5, 4]).smoothedVelocity, 5);
+    assert.equal(smooth("median", [5, 7]).smoothedVelocity, 6);
+  });
+
+  it("savitzky-golay: follows a polynomial without lag", () => {
+    // Order 2 reproduces a quadratic exactly at the newest sample
+    const quadratic = smooth("savitzky-golay", [0, 1, 4, 9, 16, 25]);
+    assert.ok(Math.abs(quadratic.smoothedVelocity - 25) < 1e-9);
+
+    // A stop after an early spike fits below zero: clamped
+    assert.equal(smooth("savitzky-golay", [0, 3, 0, 0, 0]).smoothedVelocity, 0);
+  });
+
+  it("kalman: blends by the predicted and measurement variance", () => {
+    // Initialized at the first sample with variance 1; then
+    // P⁻ = 1 + 0.5 · 1, K = 1.5 / 2.5 = 0.6
+    const update = smooth("kalman", [10, 20]);
+    assert.ok(Math.abs(update.smoothedVelocity - 16) < 1e-12);
+    assert.ok(Math.abs(update.state.variance - 0.6) < 1e-12);
+  });
+
+  it("holds the estimate in the shared state across methods", () => {
+    const update = smooth("ema", [10, 20]);
+    assert.equal(update.state.estimate, update.smoothedVelocity);
+    assert.equal(update.state.count, 2);
+  });
+
+  it("leaves the moving average to dspx", () => {
+    assert.throws(() => smooth("moving-average", [1]), /dspx/);
+  });
+});
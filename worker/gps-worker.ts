@@ -8,45 +8,131 @@
  * 4. Moving average on velocity
  * 5. Save state to Redis
  *
- * Publishes processed results for real-time visualization
+ * Publishes every resampled (TimeAlignment) result for real-time visualization,
+ * and pipeline events (stay.started / stay.ended, trip.ended, anomaly.detected)
+ * on a separate channel. Closed trip summaries are also stored per sensor for
+ * the trips API, and anomaly alerts are counted per sensor.
  */
 
 import Redis from "ioredis";
-import { GPSPipeline } from "../shared/gps-pipeline.js";
+import { GPSPipeline, type ProcessedGPS } from "../shared/gps-pipeline.js";
 import { GPSStateManager } from "../shared/state-manager.js";
+import { createStateStore } from "../shared/state-store.js";
+import { loadRoadNetwork, type RoadNetwork } from "../shared/road-network.js";
+import { updateGeofences, type Geofence } from "../shared/geofence.js";
+import type { GeofenceEvent } from "../shared/events.js";
+import {
+  configKey,
+  loadConfigFile,
+  resolveSensorConfig,
+  type GPSConfigFile,
+  type GPSPipelineConfig,
+} from "../shared/pipeline-config.js";
 
 // Redis configuration
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
 const INPUT_STREAM = "gps:raw";
 const OUTPUT_CHANNEL = "gps:processed";
+const EVENTS_CHANNEL = "gps:events";
 const CONSUMER_GROUP = "gps-workers";
 const CONSUMER_NAME = `worker-${process.pid}`;
 
 // Processing configuration
 const BATCH_SIZE = 10; // Process N points per iteration
 const BLOCK_MS = 5000; // Block 5 seconds waiting for data
+const GEOFENCE_REFRESH_MS = 5000; // Re-read geofence definitions at most this often
 
 interface RawGPSPoint {
   sensorId: string;
   lat: number;
   lon: number;
+  altitude?: number; // meters
+  accuracy?: number; // horizontal 1σ error (m)
+  hdop?: number;
   timestamp: number;
 }
 
 class GPSWorker {
   private redis: Redis;
   private stateManager: GPSStateManager;
-  private pipeline: GPSPipeline;
+  private configFile: GPSConfigFile;
+  // Road graph for map matching (null without a network file)
+  private roadNetwork: RoadNetwork | null;
+  // One pipeline per distinct profile configuration
+  private pipelines = new Map<string, GPSPipeline>();
+  // Geofence definitions (cached, managed through the SSE server API)
+  private geofences: Geofence[] = [];
+  private geofencesLoadedAt = 0;
   private running = false;
   private pelCleanupInterval?: NodeJS.Timeout;
 
   constructor() {
     this.redis = new Redis(REDIS_URL);
-    this.stateManager = new GPSStateManager(this.redis);
-    this.pipeline = new GPSPipeline();
+    this.stateManager = new GPSStateManager(createStateStore(this.redis));
+    this.configFile = loadConfigFile();
+    this.roadNetwork = loadRoadNetwork();
     console.log("Worker initialized with pid: ", process.pid);
   }
 
+  /**
+   * Get (or lazily create) the pipeline for a profile configuration
+   */
+  private getPipeline(config: GPSPipelineConfig): GPSPipeline {
+    const key = configKey(config);
+    let pipeline = this.pipelines.get(key);
+    if (!pipeline) {
+      pipeline = new GPSPipeline(config, this.roadNetwork);
+      this.pipelines.set(key, pipeline);
+      console.log(`🧭 Created pipeline for profile: ${config.profile}`);
+    }
+    return pipeline;
+  }
+
+  /**
+   * Get the geofences, re-read from Redis every GEOFENCE_REFRESH_MS so API
+   * changes apply within seconds
+   */
+  private async getGeofences(): Promise<Geofence[]> {
+    if (Date.now() - this.geofencesLoadedAt >= GEOFENCE_REFRESH_MS) {
+      this.geofences = await this.stateManager.listGeofences();
+      this.geofencesLoadedAt = Date.now();
+    }
+    return this.geofences;
+  }
+
+  /**
+   * Evaluate the geofences against each smoothed position, persisting the
+   * sensor's membership so a restart does not re-fire events
+   */
+  private async evaluateGeofences(
+    sensorId: string,
+    results: ProcessedGPS[],
+    config: GPSPipelineConfig,
+  ): Promise<GeofenceEvent[]> {
+    const geofences = await this.getGeofences();
+    if (geofences.length === 0 || results.length === 0) {
+      return [];
+    }
+
+    let memberships = await this.stateManager.loadGeofenceMemberships(sensorId);
+    const events: GeofenceEvent[] = [];
+    for (const processed of results) {
+      const update = updateGeofences(
+        memberships,
+        geofences,
+        processed.smoothedLat,
+        processed.smoothedLon,
+        processed.timestamp,
+        config.geofence,
+      );
+      memberships = update.memberships;
+      events.push(...update.events);
+    }
+    await this.stateManager.saveGeofenceMemberships(sensorId, memberships);
+
+    return events;
+  }
+
   /**
    * Recover pending messages that were not acknowledged
    * Called on startup to handle crashed/interrupted processing
@@ -150,6 +236,7 @@ class GPSWorker {
     console.log(`   Consumer: ${CONSUMER_NAME}`);
     console.log(`   Input stream: ${INPUT_STREAM}`);
     console.log(`   Output channel: ${OUTPUT_CHANNEL}`);
+    console.log(`   Events channel: ${EVENTS_CHANNEL}`);
 
     await this.initializeConsumerGroup();
 
@@ -221,6 +308,9 @@ class GPSWorker {
       sensorId: data.sensorId,
       lat: parseFloat(data.lat),
       lon: parseFloat(data.lon),
+      altitude: data.altitude ? parseFloat(data.altitude) : undefined,
+      accuracy: data.accuracy ? parseFloat(data.accuracy) : undefined,
+      hdop: data.hdop ? parseFloat(data.hdop) : undefined,
       timestamp: parseFloat(data.timestamp),
     };
 
@@ -236,11 +326,18 @@ class GPSWorker {
       return;
     }
 
+    // Resolve the sensor's motion profile (persisted on first sight)
+    const config = await this.stateManager.loadConfig(
+      rawPoint.sensorId,
+      (sensorId) => resolveSensorConfig(this.configFile, sensorId),
+    );
+    const pipeline = this.getPipeline(config);
+
     // Load state (pipeline + app state)
     let appState = await this.stateManager.loadState(
       rawPoint.sensorId,
-      this.pipeline.getPositionPipeline(),
-      this.pipeline.getVelocityPipeline(),
+      pipeline.getPositionPipeline(),
+      pipeline.getVelocityPipeline(),
     );
 
     // Initialize app state if this is the first point
@@ -249,14 +346,18 @@ class GPSWorker {
         rawPoint.lat,
         rawPoint.lon,
         rawPoint.timestamp,
+        config.velocityWindowSize,
       );
     }
 
     // Process through pipeline (dspx manages pipeline state internally)
-    const { result: processed, newAppState } = await this.pipeline.process(
+    const { results, newAppState, events } = await pipeline.process(
       {
         lat: rawPoint.lat,
         lon: rawPoint.lon,
+        altitude: rawPoint.altitude,
+        accuracy: rawPoint.accuracy,
+        hdop: rawPoint.hdop,
         timestamp: rawPoint.timestamp,
       },
       appState,
@@ -266,19 +367,45 @@ class GPSWorker {
     // Save updated state (pipeline + app state)
     await this.stateManager.saveState(
       rawPoint.sensorId,
-      this.pipeline.getPositionPipeline(),
-      this.pipeline.getVelocityPipeline(),
+      pipeline.getPositionPipeline(),
+      pipeline.getVelocityPipeline(),
       newAppState,
     );
 
-    // Publish result (use TOON binary format for efficiency)
-    const resultBuffer = this.serializeToon({
-      ...processed,
-      sensorId: rawPoint.sensorId,
-      messageId,
-    });
+    // Publish every resampled result, in time order (use TOON binary format for efficiency)
+    for (const processed of results) {
+      const resultBuffer = this.serializeToon({
+        ...processed,
+        sensorId: rawPoint.sensorId,
+        messageId,
+      });
 
-    await this.redis.publish(OUTPUT_CHANNEL, resultBuffer);
+      await this.redis.publish(OUTPUT_CHANNEL, resultBuffer);
+    }
+
+    // Publish pipeline and geofence events (stay-points, trips, anomaly
+    // alerts, geofences)
+    const geofenceEvents = await this.evaluateGeofences(
+      rawPoint.sensorId,
+      results,
+      config,
+    );
+    for (const event of [...events, ...geofenceEvents]) {
+      if (event.type === "trip.ended") {
+        await this.stateManager.saveTrip(rawPoint.sensorId, event);
+      }
+      if (event.type === "anomaly.detected") {
+        await this.stateManager.recordAnomalies(
+          rawPoint.sensorId,
+          event.anomalies,
+        );
+      }
+      await this.redis.publish(
+        EVENTS_CHANNEL,
+        this.serializeToon({ ...event, sensorId: rawPoint.sensorId }),
+      );
+      console.log(`📌 ${rawPoint.sensorId} | ${event.type}`);
+    }
 
     // Simulate slow processing to test crash recovery
     // Remove this delay in production
@@ -287,12 +414,22 @@ class GPSWorker {
     // Acknowledge message
     await this.redis.xack(INPUT_STREAM, CONSUMER_GROUP, messageId);
 
-    // Log progress
+    // Log progress (the last result carries this fix)
+    const processed = results[results.length - 1];
+    if (!processed) {
+      return;
+    }
+    if (processed.rejected) {
+      console.log(
+        `⛔ ${rawPoint.sensorId} | Rejected fix (${processed.rejectReason})`,
+      );
+    }
     const status = processed.isMoving ? "🚗 MOVING" : "🅿️  STOPPED";
     console.log(
       `✅ ${rawPoint.sensorId} | ` +
         `${status} | ` +
         `v=${processed.smoothedVelocity.toFixed(2)} m/s | ` +
+        `${results.length} sample(s) | ` +
         `[${processed.smoothedLat.toFixed(6)}, ${processed.smoothedLon.toFixed(
           6,
         )}]`,
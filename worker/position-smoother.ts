@@ -1,25 +1,75 @@
 /**
  * Position Smoother Worker
- * Stage 1: Applies Kalman filter to raw GPS coordinates
+ * Stage 1: Resamples raw GPS coordinates with TimeAlignment and applies a Kalman
+ * filter in a local ENU frame, emitting one message per resampled sample
+ * Raw fixes are checked for spoofing / device faults first; alerts are
+ * published on gps:events and counted per sensor
+ * Filter settings come from the sensor's motion profile (see shared/pipeline-config.ts)
  *
- * Input:  gps:raw (sensorId, lat, lon, timestamp)
- * Output: gps:position-smoothed (sensorId, lat, lon, smoothedLat, smoothedLon, timestamp)
+ * Input:  gps:raw (sensorId, lat, lon, altitude?, accuracy?, hdop?, timestamp)
+ * Output: gps:position-smoothed (sensorId, lat, lon, smoothedLat, smoothedLon, horizontalError, velocityEast, velocityNorth,
+ *         interpolated, segmentStart, rejected, rejectReason, smoothedAltitude?, verticalSpeed?, ascent, descent,
+ *         stationaryProbability?, constantVelocityProbability?, manoeuvreProbability?, anomalies?, timestamp)
  */
 
 import Redis from "ioredis";
-import { createDspPipeline } from "dspx";
+import type { createDspPipeline } from "dspx";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createPositionPipeline } from "../shared/gps-pipeline.js";
+import {
+  GPSStateManager,
+  type PositionSmootherState,
+} from "../shared/state-manager.js";
+import { createStateStore } from "../shared/state-store.js";
+import {
+  configKey,
+  loadConfigFile,
+  resolveSensorConfig,
+  type GPSConfigFile,
+  type GPSPipelineConfig,
+} from "../shared/pipeline-config.js";
+import { gateFix, holdOutOfOrderFix } from "../shared/outlier-gate.js";
+import { createElevationState, updateElevation } from "../shared/elevation.js";
+import {
+  createPositionFilterState,
+  hasReportedAccuracy,
+  interpolatedVariance,
+  isPositionFilterInitialized,
+  measurementVariance,
+  predictInnovation,
+  updatePositionFilter,
+} from "../shared/position-filter.js";
+import {
+  createNoiseEstimate,
+  effectiveKalmanConfig,
+  updateNoiseEstimate,
+  type NoiseEstimate,
+} from "../shared/adaptive-noise.js";
+import {
+  createImmState,
+  immEstimate,
+  isImmInitialized,
+  probabilityFields,
+  updateImm,
+} from "../shared/imm.js";
+import {
+  createAnomalyState,
+  detectAnomalies,
+  formatAnomalies,
+} from "../shared/anomaly.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const LOG_FILE = path.join(__dirname, "../logs/position-smoother.log");
+const NOISE_LOG_FILE = path.join(__dirname, "../logs/noise.log");
 
 // Redis configuration
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
 const INPUT_STREAM = "gps:raw";
 const OUTPUT_STREAM = "gps:position-smoothed";
+const EVENTS_CHANNEL = "gps:events"; // anomaly.detected alerts
 const CONSUMER_GROUP = "position-smoothers";
 const CONSUMER_NAME = `position-smoother-${process.pid}`;
 
@@ -28,14 +78,33 @@ const BATCH_SIZE = 10;
 const BLOCK_MS = 5000;
 const LOG_BATCH_SIZE = 100; // Log every 100 samples
 
-interface KalmanState {
-  lastTimestamp: number;
+// A sensor's TimeAlignment pipeline and the profile it was built for
+interface SensorPipeline {
+  configKey: string;
+  pipeline: ReturnType<typeof createDspPipeline>;
+}
+
+interface AlignedSample {
+  // Raw track position reported for the sample (interpolated between fixes)
+  lat: number;
+  lon: number;
+  timestamp: number;
+
+  // TimeAlignment output fed to the Kalman filter (absent for dropped fixes)
+  alignedLat?: number;
+  alignedLon?: number;
+
+  // Whether this sample carries the fix itself
+  measured: boolean;
 }
 
 interface RawGPSPoint {
   sensorId: string;
   lat: number;
   lon: number;
+  altitude?: number; // meters
+  accuracy?: number; // horizontal 1σ error (m)
+  hdop?: number;
   timestamp: number;
 }
 
@@ -46,22 +115,22 @@ interface LatencyStats {
 
 class PositionSmootherWorker {
   private redis: Redis;
-  private pipeline: ReturnType<typeof createDspPipeline>;
-  private states = new Map<string, KalmanState>();
+  private stateManager: GPSStateManager;
+  private configFile: GPSConfigFile;
+  // One TimeAlignment pipeline per sensor (resampling interpolates between
+  // the sensor's own fixes, so pipelines cannot be shared)
+  private pipelines = new Map<string, SensorPipeline>();
+  private states = new Map<string, PositionSmootherState>();
   private running = false;
   private latencyStats: LatencyStats[] = [];
 
+  // Latest learned Kalman noise per sensor since the last flush (adaptive mode)
+  private noiseStats = new Map<string, NoiseEstimate>();
+
   constructor() {
     this.redis = new Redis(REDIS_URL);
-
-    // Initialize Kalman filter pipeline (2D: lat, lon)
-    this.pipeline = createDspPipeline();
-    this.pipeline.KalmanFilter({
-      dimensions: 2,
-      processNoise: 0.0001,
-      measurementNoise: 0.0001,
-      initialError: 0.0001,
-    });
+    this.stateManager = new GPSStateManager(createStateStore(this.redis));
+    this.configFile = loadConfigFile();
 
     // Ensure log directory exists
     const logDir = path.dirname(LOG_FILE);
@@ -75,6 +144,24 @@ class PositionSmootherWorker {
     }
   }
 
+  /**
+   * Get (or lazily create) a sensor's TimeAlignment pipeline, rebuilt when
+   * its profile configuration changes
+   * Uses the same pipeline builder as the monolithic GPSPipeline
+   */
+  private getPipeline(
+    sensorId: string,
+    config: GPSPipelineConfig
+  ): ReturnType<typeof createDspPipeline> {
+    const key = configKey(config);
+    let entry = this.pipelines.get(sensorId);
+    if (!entry || entry.configKey !== key) {
+      entry = { configKey: key, pipeline: createPositionPipeline(config) };
+      this.pipelines.set(sensorId, entry);
+    }
+    return entry.pipeline;
+  }
+
   private async initializeConsumerGroup(): Promise<void> {
     try {
       await this.redis.xgroup(
@@ -162,6 +249,9 @@ class PositionSmootherWorker {
       sensorId: data.sensorId,
       lat: parseFloat(data.lat),
       lon: parseFloat(data.lon),
+      altitude: data.altitude ? parseFloat(data.altitude) : undefined,
+      accuracy: data.accuracy ? parseFloat(data.accuracy) : undefined,
+      hdop: data.hdop ? parseFloat(data.hdop) : undefined,
       timestamp: parseFloat(data.timestamp),
     };
 
@@ -176,51 +266,300 @@ class PositionSmootherWorker {
       return;
     }
 
-    // Get or create state for this sensor
+    // Resolve the sensor's motion profile (shared with the monolith)
+    const config = await this.stateManager.loadConfig(
+      rawPoint.sensorId,
+      (sensorId) => resolveSensorConfig(this.configFile, sensorId)
+    );
+    const pipeline = this.getPipeline(rawPoint.sensorId, config);
+
+    // Get or restore state for this sensor (after a restart, the filter
+    // and TimeAlignment state continue from the last persisted fix)
     let state = this.states.get(rawPoint.sensorId);
     if (!state) {
-      state = { lastTimestamp: 0 };
+      state = (await this.stateManager.loadPositionSmootherState(
+        rawPoint.sensorId,
+        pipeline
+      )) ?? {
+        lastTimestamp: 0,
+        prevLat: 0,
+        prevLon: 0,
+        rejectCount: 0,
+        position: createPositionFilterState(),
+        imm: createImmState(),
+        elevation: createElevationState(),
+        noise: createNoiseEstimate(),
+        anomaly: createAnomalyState(),
+      };
       this.states.set(rawPoint.sensorId, state);
     }
 
+    // Spoofing / device fault checks on the raw fix (flagged fixes are
+    // still processed, except out-of-order ones - see below)
+    const anomaly = detectAnomalies(
+      state.anomaly,
+      rawPoint.lat,
+      rawPoint.lon,
+      rawPoint.timestamp,
+      config.anomaly
+    );
+    state.anomaly = anomaly.state;
+    if (anomaly.event) {
+      await this.stateManager.recordAnomalies(
+        rawPoint.sensorId,
+        anomaly.anomalies
+      );
+      await this.redis.publish(
+        EVENTS_CHANNEL,
+        JSON.stringify({ ...anomaly.event, sensorId: rawPoint.sensorId })
+      );
+      console.log(
+        `🚨 ${rawPoint.sensorId} | ${formatAnomalies(anomaly.anomalies)}`
+      );
+    }
+
     // Calculate time delta
     const dt =
       state.lastTimestamp > 0
         ? (rawPoint.timestamp - state.lastTimestamp) / 1000
         : 0.1;
 
-    // Apply Kalman filter
-    const kalmanStart = performance.now();
-    const measurement = new Float32Array([rawPoint.lat, rawPoint.lon]);
-    const deltas = new Float32Array([dt, dt]);
+    // A fix older than the timeline (out of order) is dropped without
+    // output: the timeline never moves backwards, and the downstream stages
+    // never see time go backwards
+    const outOfOrder = dt < 0;
+
+    // Long gap: reset the filter and start a new track segment
+    const gap = dt > config.maxGap;
+    if (gap) {
+      state.position = createPositionFilterState();
+      state.imm = createImmState();
+      state.rejectCount = 0;
+    }
+
+    // Gate the raw fix against the filter's prediction, then apply
+    // TimeAlignment + Kalman filter
+    const gateKalman = effectiveKalmanConfig(
+      config.kalman,
+      state.noise,
+      config.adaptiveNoise
+    );
+    const gate = outOfOrder
+      ? holdOutOfOrderFix(state.prevLat, state.prevLon)
+      : gateFix(
+          rawPoint.lat,
+          rawPoint.lon,
+          state.prevLat,
+          state.prevLon,
+          dt,
+          state.rejectCount,
+          gap ? { ...config.gating, mode: "off" } : config.gating,
+          predictInnovation(
+            state.position,
+            dt,
+            gateKalman,
+            measurementVariance(gateKalman, rawPoint.accuracy, rawPoint.hdop)
+          )
+        );
+    const dropped = gate.weight === 0;
+
+    // Dropped fixes never reach the filter (position holds at previous estimate);
+    // otherwise every uniformly resampled TimeAlignment output is filtered and
+    // published (the last one carries the fix, earlier ones are interpolated)
+    const samples: AlignedSample[] = [];
+    if (outOfOrder) {
+      // No output (the anomaly alert above still goes out)
+    } else if (dropped) {
+      samples.push({
+        lat: rawPoint.lat,
+        lon: rawPoint.lon,
+        timestamp: rawPoint.timestamp,
+        measured: true,
+      });
+    } else {
+      // After a gap, a single resampling step so TimeAlignment does not fill it
+      const alignDt = gap ? 1 / config.targetSampleRate : dt;
+      const measurement = new Float32Array([gate.lat, gate.lon]);
+      const deltas = new Float32Array([alignDt, alignDt]);
+
+      const aligned = await pipeline.process(measurement, deltas, {
+        channels: 2,
+      });
+
+      const count = Math.floor(aligned.length / 2);
+      const stepMs = 1000 / config.targetSampleRate;
+      for (let k = 0; k < count; k++) {
+        const measured = k === count - 1;
+        samples.push({
+          lat: measured ? rawPoint.lat : aligned[2 * k],
+          lon: measured ? rawPoint.lon : aligned[2 * k + 1],
+          alignedLat: aligned[2 * k],
+          alignedLon: aligned[2 * k + 1],
+          timestamp: rawPoint.timestamp - (count - 1 - k) * stepMs,
+          measured,
+        });
+      }
+    }
 
-    const smoothedPosition = await this.pipeline.process(measurement, deltas, {
-      channels: 2,
-    });
+    // Smooth altitude (vertical speed comes from the altitude filter state)
+    const elevationFields: string[] = [];
+    if (
+      !dropped &&
+      rawPoint.altitude !== undefined &&
+      isFinite(rawPoint.altitude)
+    ) {
+      const update = updateElevation(
+        state.elevation,
+        rawPoint.altitude,
+        rawPoint.timestamp,
+        config.altitude
+      );
+      state.elevation = update.state;
+      elevationFields.push(
+        "altitude",
+        rawPoint.altitude.toString(),
+        "smoothedAltitude",
+        update.smoothedAltitude.toString(),
+        "verticalSpeed",
+        update.verticalSpeed.toString()
+      );
+    }
 
-    const smoothedLat = smoothedPosition[0];
-    const smoothedLon = smoothedPosition[1];
-    latency.kalmanMs = performance.now() - kalmanStart;
+    for (const sample of samples) {
+      const kalmanStart = performance.now();
+
+      // Kalman filter in metres (velocity comes from the filter state)
+      const segmentStart =
+        sample.alignedLat !== undefined &&
+        !isPositionFilterInitialized(state.position);
+      if (sample.alignedLat !== undefined && sample.alignedLon !== undefined) {
+        const sampleDt =
+          state.lastTimestamp > 0
+            ? (sample.timestamp - state.lastTimestamp) / 1000
+            : dt;
+        const kalman = effectiveKalmanConfig(
+          config.kalman,
+          state.noise,
+          config.adaptiveNoise
+        );
+        // Interpolated samples are weighted by the size of their burst
+        const variance = sample.measured
+          ? measurementVariance(kalman, rawPoint.accuracy, rawPoint.hdop)
+          : interpolatedVariance(kalman, samples.length);
+        const update = updatePositionFilter(
+          state.position,
+          sample.alignedLat,
+          sample.alignedLon,
+          sampleDt,
+          kalman,
+          variance
+        );
+        state.position = update.state;
+
+        // Learn from measured, accepted fixes only (same as the monolith)
+        if (
+          config.adaptiveNoise.enabled &&
+          sample.measured &&
+          !gate.rejected &&
+          update.innovations
+        ) {
+          state.noise = updateNoiseEstimate(
+            state.noise,
+            update.innovations,
+            config.kalman,
+            config.adaptiveNoise,
+            !hasReportedAccuracy(rawPoint.accuracy, rawPoint.hdop)
+          );
+          this.noiseStats.set(rawPoint.sensorId, state.noise);
+        }
+        state.prevLat = update.lat;
+        state.prevLon = update.lon;
+
+        // IMM stage (same as the monolith: its mixture replaces the output)
+        if (config.imm.enabled) {
+          const imm = updateImm(
+            state.imm,
+            sample.alignedLat,
+            sample.alignedLon,
+            sampleDt,
+            kalman,
+            config.imm,
+            variance
+          );
+          state.imm = imm.state;
+          state.prevLat = imm.lat;
+          state.prevLon = imm.lon;
+        }
+        state.lastTimestamp = sample.timestamp;
+      }
+      latency.kalmanMs += performance.now() - kalmanStart;
+
+      // Output estimate: the IMM mixture when enabled, else the single filter
+      const mixed =
+        config.imm.enabled && isImmInitialized(state.imm)
+          ? immEstimate(state.imm)
+          : undefined;
+      const horizontalError = mixed
+        ? mixed.horizontalError
+        : Math.sqrt(state.position.east.p00 + state.position.north.p00);
+
+      // Publish to next stage
+      await this.redis.xadd(
+        OUTPUT_STREAM,
+        "*",
+        "sensorId",
+        rawPoint.sensorId,
+        "lat",
+        sample.lat.toString(),
+        "lon",
+        sample.lon.toString(),
+        "smoothedLat",
+        state.prevLat.toString(),
+        "smoothedLon",
+        state.prevLon.toString(),
+        "horizontalError",
+        horizontalError.toString(),
+        "velocityEast",
+        (mixed?.velocityEast ?? state.position.east.v).toString(),
+        "velocityNorth",
+        (mixed?.velocityNorth ?? state.position.north.v).toString(),
+        "interpolated",
+        sample.measured ? "0" : "1",
+        "segmentStart",
+        segmentStart ? "1" : "0",
+        "rejected",
+        sample.measured && gate.rejected ? "1" : "0",
+        "rejectReason",
+        (sample.measured && gate.reason) || "",
+        ...(sample.measured ? elevationFields : []),
+        "ascent",
+        state.elevation.ascent.toString(),
+        "descent",
+        state.elevation.descent.toString(),
+        ...(mixed ? probabilityFields(mixed.probabilities) : []),
+        ...(sample.measured && anomaly.anomalies.length > 0
+          ? ["anomalies", formatAnomalies(anomaly.anomalies)]
+          : []),
+        "timestamp",
+        sample.timestamp.toString()
+      );
+    }
 
-    // Update state
-    state.lastTimestamp = rawPoint.timestamp;
+    // Update state (a dropped fix leaves the timeline untouched; a fix
+    // absorbed by TimeAlignment with no output yet still advances it)
+    if (!dropped) {
+      state.lastTimestamp = rawPoint.timestamp;
+    }
+    // (out-of-order fixes do not count towards re-anchoring on a relocation)
+    if (!outOfOrder) {
+      state.rejectCount = gate.rejected ? state.rejectCount + 1 : 0;
+    }
 
-    // Publish to next stage
-    await this.redis.xadd(
-      OUTPUT_STREAM,
-      "*",
-      "sensorId",
+    // Persist the state for restarts and predictions (GET /api/sensors/:id/predict)
+    await this.stateManager.savePositionSmootherState(
       rawPoint.sensorId,
-      "lat",
-      rawPoint.lat.toString(),
-      "lon",
-      rawPoint.lon.toString(),
-      "smoothedLat",
-      smoothedLat.toString(),
-      "smoothedLon",
-      smoothedLon.toString(),
-      "timestamp",
-      rawPoint.timestamp.toString()
+      pipeline,
+      state
     );
 
     // Acknowledge message
@@ -233,10 +572,18 @@ class PositionSmootherWorker {
       this.flushLatencyLog(rawPoint.sensorId);
     }
 
+    if (gate.rejected) {
+      console.log(
+        `⛔ ${rawPoint.sensorId} | Rejected fix (${gate.reason}, ` +
+          `${dropped ? "dropped" : `weight=${gate.weight.toFixed(2)}`})`
+      );
+    }
+
     console.log(
-      `✅ ${rawPoint.sensorId} | Smoothed: [${smoothedLat.toFixed(
+      `✅ ${rawPoint.sensorId} | Smoothed: [${state.prevLat.toFixed(
         6
-      )}, ${smoothedLon.toFixed(6)}] | ${latency.totalMs.toFixed(2)}ms`
+      )}, ${state.prevLon.toFixed(6)}] | ${samples.length} sample(s) | ` +
+        `${latency.totalMs.toFixed(2)}ms`
     );
   }
 
@@ -261,7 +608,28 @@ class PositionSmootherWorker {
         `Total=${avg(totalTimes).toFixed(2)}ms`
     );
 
+    // Learned Kalman noise per sensor (adaptive mode)
+    if (this.noiseStats.size > 0 && !fs.existsSync(NOISE_LOG_FILE)) {
+      fs.writeFileSync(
+        NOISE_LOG_FILE,
+        "timestamp,sensorId,processNoise,measurementNoise,samples\n"
+      );
+    }
+    for (const [noiseSensorId, noise] of this.noiseStats) {
+      fs.appendFileSync(
+        NOISE_LOG_FILE,
+        `${timestamp},${noiseSensorId},${noise.processNoise.toFixed(4)},` +
+          `${noise.measurementNoise.toFixed(2)},${noise.samples}\n`
+      );
+      console.log(
+        `🎛️  [Position Smoother] Noise ${noiseSensorId}: ` +
+          `q=${noise.processNoise.toFixed(3)} m²/s³, ` +
+          `R=${noise.measurementNoise.toFixed(1)} m² (${noise.samples} fixes)`
+      );
+    }
+
     this.latencyStats = [];
+    this.noiseStats.clear();
   }
 
   async stop(): Promise<void> {
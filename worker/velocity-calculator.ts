@@ -1,15 +1,29 @@
 /**
  * Velocity Calculator Worker
- * Stage 2: Calculates instantaneous velocity using Haversine distance
+ * Stage 2: Takes velocity from the position filter state (falling back to
+ * Haversine distance over dt), plus heading, longitudinal acceleration and turn rate
  *
- * Input:  gps:position-smoothed (sensorId, smoothedLat, smoothedLon, timestamp)
- * Output: gps:velocity-calculated (sensorId, smoothedLat, smoothedLon, velocity, timestamp)
+ * Input:  gps:position-smoothed (sensorId, smoothedLat, smoothedLon, velocityEast?, velocityNorth?, timestamp)
+ * Output: gps:velocity-calculated (input fields forwarded unchanged, including anomalies?, + velocity, heading?, acceleration,
+ *         turnRate)
  */
 
 import Redis from "ioredis";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { GPSStateManager } from "../shared/state-manager.js";
+import { createStateStore } from "../shared/state-store.js";
+import {
+  loadConfigFile,
+  resolveSensorConfig,
+  type GPSConfigFile,
+} from "../shared/pipeline-config.js";
+import {
+  createMotionState,
+  updateMotion,
+  type MotionState,
+} from "../shared/motion.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -34,6 +48,9 @@ interface VelocityState {
   lastLat: number;
   lastLon: number;
   lastTimestamp: number;
+
+  // Last heading and speed (for acceleration / turn rate)
+  motion: MotionState;
 }
 
 interface SmoothedGPSPoint {
@@ -42,6 +59,8 @@ interface SmoothedGPSPoint {
   lon: number;
   smoothedLat: number;
   smoothedLon: number;
+  velocityEast: number; // m/s from the ENU Kalman state (NaN if absent)
+  velocityNorth: number;
   timestamp: number;
 }
 
@@ -76,12 +95,16 @@ interface LatencyStats {
 
 class VelocityCalculatorWorker {
   private redis: Redis;
+  private stateManager: GPSStateManager;
+  private configFile: GPSConfigFile;
   private states = new Map<string, VelocityState>();
   private running = false;
   private latencyStats: LatencyStats[] = [];
 
   constructor() {
     this.redis = new Redis(REDIS_URL);
+    this.stateManager = new GPSStateManager(createStateStore(this.redis));
+    this.configFile = loadConfigFile();
 
     // Ensure log directory exists
     const logDir = path.dirname(LOG_FILE);
@@ -184,6 +207,8 @@ class VelocityCalculatorWorker {
       lon: parseFloat(data.lon),
       smoothedLat: parseFloat(data.smoothedLat),
       smoothedLon: parseFloat(data.smoothedLon),
+      velocityEast: parseFloat(data.velocityEast),
+      velocityNorth: parseFloat(data.velocityNorth),
       timestamp: parseFloat(data.timestamp),
     };
 
@@ -198,9 +223,19 @@ class VelocityCalculatorWorker {
       return;
     }
 
-    // Get or create state for this sensor
+    // Resolve the sensor's motion profile (shared with the monolith)
+    const config = await this.stateManager.loadConfig(
+      point.sensorId,
+      (sensorId) => resolveSensorConfig(this.configFile, sensorId)
+    );
+
+    // Get or create state for this sensor (a new track segment starts fresh)
+    if (data.segmentStart === "1") {
+      this.states.delete(point.sensorId);
+    }
     let state = this.states.get(point.sensorId);
     let velocity = 0;
+    let dt = 0;
 
     if (state) {
       // Calculate velocity using Haversine distance
@@ -211,36 +246,53 @@ class VelocityCalculatorWorker {
         point.smoothedLat,
         point.smoothedLon
       );
-      const dt = (point.timestamp - state.lastTimestamp) / 1000;
+      dt = (point.timestamp - state.lastTimestamp) / 1000;
       velocity = dt > 0 ? distance / dt : 0;
       latency.haversineMs = performance.now() - haversineStart;
     }
 
+    // Prefer the position filter's velocity state when upstream provides it
+    if (!isNaN(point.velocityEast) && !isNaN(point.velocityNorth)) {
+      velocity = Math.hypot(point.velocityEast, point.velocityNorth);
+    }
+
+    // Heading, acceleration and turn rate from the smoothed track
+    const motion = updateMotion(
+      state?.motion ?? createMotionState(),
+      state?.lastLat ?? point.smoothedLat,
+      state?.lastLon ?? point.smoothedLon,
+      point.smoothedLat,
+      point.smoothedLon,
+      velocity,
+      dt,
+      config.movementThreshold
+    );
+
     // Update state
     this.states.set(point.sensorId, {
       lastLat: point.smoothedLat,
       lastLon: point.smoothedLon,
       lastTimestamp: point.timestamp,
+      motion: motion.state,
     });
 
-    // Publish to next stage
+    // Publish to next stage (upstream fields such as rejected/altitude
+    // are forwarded unchanged so the final stage sees them)
+    const headingFields =
+      motion.heading !== undefined
+        ? ["heading", motion.heading.toString()]
+        : [];
     await this.redis.xadd(
       OUTPUT_STREAM,
       "*",
-      "sensorId",
-      point.sensorId,
-      "lat",
-      point.lat.toString(),
-      "lon",
-      point.lon.toString(),
-      "smoothedLat",
-      point.smoothedLat.toString(),
-      "smoothedLon",
-      point.smoothedLon.toString(),
+      ...fields,
       "velocity",
       velocity.toString(),
-      "timestamp",
-      point.timestamp.toString()
+      ...headingFields,
+      "acceleration",
+      motion.acceleration.toString(),
+      "turnRate",
+      motion.turnRate.toString()
     );
 
     // Acknowledge message
@@ -1,16 +1,64 @@
 /**
  * Velocity Smoother Worker
- * Stage 3: Applies moving average to velocity data
+ * Stage 3: Smooths velocity (moving average, EMA, median, Savitzky–Golay or
+ * 1D Kalman), applies the movement state machine and classifies the
+ * transport mode, snaps the smoothed track to the road network, detects
+ * stay-points and trips and evaluates the geofences
+ * Smoothing method, window and movement thresholds come from the sensor's
+ * motion profile; filter state is persisted so a restart resumes seamlessly
  *
- * Input:  gps:velocity-calculated (sensorId, smoothedLat, smoothedLon, velocity, timestamp)
- * Output: gps:processed (sensorId, lat, lon, smoothedLat, smoothedLon, velocity, smoothedVelocity, isMoving, timestamp)
+ * Input:  gps:velocity-calculated (sensorId, smoothedLat, smoothedLon, velocity, IMM probabilities?, timestamp)
+ * Output: gps:processed (sensorId, lat, lon, interpolated, segmentStart, smoothedLat, smoothedLon, horizontalError, velocity, smoothedVelocity, isMoving, movementState, rejected, rejectReason,
+ *         heading?, acceleration, turnRate, smoothedAltitude?, verticalSpeed?, slope?, ascent, descent,
+ *         totalDistance, movingTimeMs, stoppedTimeMs, maxSpeed, modelProbabilities?, transportMode,
+ *         transportModeConfidence, matchedLat?, matchedLon?, roadSegmentId?, matchConfidence?, anomalies?, timestamp)
  */
 
 import Redis from "ioredis";
-import { createDspPipeline } from "dspx";
+import type { createDspPipeline } from "dspx";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import {
+  createVelocityPipeline,
+  smoothVelocity,
+} from "../shared/gps-pipeline.js";
+import {
+  GPSStateManager,
+  type VelocitySmootherState,
+} from "../shared/state-manager.js";
+import { createStateStore } from "../shared/state-store.js";
+import {
+  configKey,
+  loadConfigFile,
+  resolveSensorConfig,
+  type GPSConfigFile,
+  type GPSPipelineConfig,
+} from "../shared/pipeline-config.js";
+import { computeSlope } from "../shared/elevation.js";
+import {
+  createMovementState,
+  updateMovement,
+  updateMovementFromProbability,
+} from "../shared/movement.js";
+import {
+  movingProbability,
+  parseProbabilityFields,
+  type ModelProbabilities,
+} from "../shared/imm.js";
+import { createVelocityFilterState } from "../shared/velocity-filter.js";
+import { createOdometerState, updateOdometer } from "../shared/odometer.js";
+import {
+  createTransportModeState,
+  updateTransportMode,
+} from "../shared/transport-mode.js";
+import { haversineDistance } from "../shared/geo.js";
+import { loadRoadNetwork, type RoadNetwork } from "../shared/road-network.js";
+import { createMatchState, updateMatch } from "../shared/map-matching.js";
+import { createStayState, updateStay } from "../shared/stay-point.js";
+import { createTripState, updateTrip } from "../shared/trips.js";
+import { updateGeofences, type Geofence } from "../shared/geofence.js";
+import { parseAnomalies, type AnomalyType } from "../shared/anomaly.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -20,29 +68,37 @@ const LOG_FILE = path.join(__dirname, "../logs/velocity-smoother.log");
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
 const INPUT_STREAM = "gps:velocity-calculated";
 const OUTPUT_CHANNEL = "gps:processed";
+const EVENTS_CHANNEL = "gps:events"; // movement.changed transitions, stay-point, trip and geofence events
 const CONSUMER_GROUP = "velocity-smoothers";
 const CONSUMER_NAME = `velocity-smoother-${process.pid}`;
 
 // Processing configuration
 const BATCH_SIZE = 10;
 const BLOCK_MS = 5000;
-const VELOCITY_WINDOW_SIZE = 5;
-const MOVEMENT_THRESHOLD = 0.5; // 0.5 m/s
 const LOG_BATCH_SIZE = 100;
-
-interface VelocitySmootherState {
-  velocityBuffer: Float32Array;
-  velocityIndex: number;
-  lastTimestamp: number;
-}
+const GEOFENCE_REFRESH_MS = 5000; // Re-read geofence definitions at most this often
 
 interface VelocityGPSPoint {
   sensorId: string;
   lat: number;
   lon: number;
+  interpolated: boolean;
+  segmentStart: boolean;
   smoothedLat: number;
   smoothedLon: number;
+  horizontalError: number;
   velocity: number;
+  rejected: boolean;
+  rejectReason: string;
+  anomalies: AnomalyType[];
+  heading?: number;
+  acceleration: number;
+  turnRate: number;
+  smoothedAltitude?: number;
+  verticalSpeed?: number;
+  ascent: number;
+  descent: number;
+  modelProbabilities?: ModelProbabilities;
   timestamp: number;
 }
 
@@ -53,20 +109,25 @@ interface LatencyStats {
 
 class VelocitySmootherWorker {
   private redis: Redis;
-  private pipeline: ReturnType<typeof createDspPipeline>;
-  private states = new Map<string, VelocitySmootherState>();
+  private stateManager: GPSStateManager;
+  private configFile: GPSConfigFile;
+  // Road graph for map matching (null without a network file)
+  private roadNetwork: RoadNetwork | null;
+  // One moving average pipeline per distinct profile configuration
+  // (per-sensor filter state lives in Redis, so restarts and odometer
+  // resets through the SSE server are picked up on the next message)
+  private pipelines = new Map<string, ReturnType<typeof createDspPipeline>>();
+  // Geofence definitions (cached, managed through the SSE server API)
+  private geofences: Geofence[] = [];
+  private geofencesLoadedAt = 0;
   private running = false;
   private latencyStats: LatencyStats[] = [];
 
   constructor() {
     this.redis = new Redis(REDIS_URL);
-
-    // Initialize moving average pipeline (1D)
-    this.pipeline = createDspPipeline();
-    this.pipeline.MovingAverage({
-      mode: "moving",
-      windowSize: VELOCITY_WINDOW_SIZE,
-    });
+    this.stateManager = new GPSStateManager(createStateStore(this.redis));
+    this.configFile = loadConfigFile();
+    this.roadNetwork = loadRoadNetwork();
 
     // Ensure log directory exists
     const logDir = path.dirname(LOG_FILE);
@@ -80,6 +141,34 @@ class VelocitySmootherWorker {
     }
   }
 
+  /**
+   * Get the geofences, re-read from Redis every GEOFENCE_REFRESH_MS so API
+   * changes apply within seconds
+   */
+  private async getGeofences(): Promise<Geofence[]> {
+    if (Date.now() - this.geofencesLoadedAt >= GEOFENCE_REFRESH_MS) {
+      this.geofences = await this.stateManager.listGeofences();
+      this.geofencesLoadedAt = Date.now();
+    }
+    return this.geofences;
+  }
+
+  /**
+   * Get (or lazily create) the moving average pipeline for a profile
+   * Uses the same pipeline builder as the monolithic GPSPipeline
+   */
+  private getPipeline(
+    config: GPSPipelineConfig
+  ): ReturnType<typeof createDspPipeline> {
+    const key = configKey(config);
+    let pipeline = this.pipelines.get(key);
+    if (!pipeline) {
+      pipeline = createVelocityPipeline(config);
+      this.pipelines.set(key, pipeline);
+    }
+    return pipeline;
+  }
+
   private async initializeConsumerGroup(): Promise<void> {
     try {
       await this.redis.xgroup(
@@ -167,9 +256,27 @@ class VelocitySmootherWorker {
       sensorId: data.sensorId,
       lat: parseFloat(data.lat),
       lon: parseFloat(data.lon),
+      interpolated: data.interpolated === "1",
+      segmentStart: data.segmentStart === "1",
       smoothedLat: parseFloat(data.smoothedLat),
       smoothedLon: parseFloat(data.smoothedLon),
+      horizontalError: parseFloat(data.horizontalError) || 0,
       velocity: parseFloat(data.velocity),
+      rejected: data.rejected === "1",
+      rejectReason: data.rejectReason || "",
+      anomalies: parseAnomalies(data.anomalies),
+      heading: data.heading ? parseFloat(data.heading) : undefined,
+      acceleration: parseFloat(data.acceleration) || 0,
+      turnRate: parseFloat(data.turnRate) || 0,
+      smoothedAltitude: data.smoothedAltitude
+        ? parseFloat(data.smoothedAltitude)
+        : undefined,
+      verticalSpeed: data.verticalSpeed
+        ? parseFloat(data.verticalSpeed)
+        : undefined,
+      ascent: parseFloat(data.ascent) || 0,
+      descent: parseFloat(data.descent) || 0,
+      modelProbabilities: parseProbabilityFields(data),
       timestamp: parseFloat(data.timestamp),
     };
 
@@ -179,62 +286,251 @@ class VelocitySmootherWorker {
       return;
     }
 
-    // Get or create state for this sensor
-    let state = this.states.get(point.sensorId);
-    if (!state) {
-      state = {
-        velocityBuffer: new Float32Array(VELOCITY_WINDOW_SIZE),
-        velocityIndex: 0,
+    // Resolve the sensor's motion profile (shared with the monolith)
+    const config = await this.stateManager.loadConfig(
+      point.sensorId,
+      (sensorId) => resolveSensorConfig(this.configFile, sensorId)
+    );
+    const pipeline = this.getPipeline(config);
+
+    // Load state for this sensor (created on first sight)
+    let state: VelocitySmootherState =
+      (await this.stateManager.loadVelocitySmootherState(point.sensorId)) ?? {
         lastTimestamp: 0,
+        prevLat: point.smoothedLat,
+        prevLon: point.smoothedLon,
+        velocity: createVelocityFilterState(config.velocityWindowSize),
+        movement: createMovementState(),
+        odometer: createOdometerState(),
+        transport: createTransportModeState(),
+        match: createMatchState(),
+        stay: createStayState(),
+        trip: createTripState(),
       };
-      this.states.set(point.sensorId, state);
-    }
+    const newSegment = point.segmentStart || state.lastTimestamp === 0;
 
-    // Update circular buffer
-    state.velocityBuffer[state.velocityIndex] = point.velocity;
-    state.velocityIndex = (state.velocityIndex + 1) % VELOCITY_WINDOW_SIZE;
+    // A new track segment starts with a fresh filter, mode window and
+    // match (movement hysteresis carries over, like the monolith)
+    if (point.segmentStart) {
+      state = {
+        ...state,
+        velocity: createVelocityFilterState(config.velocityWindowSize),
+        transport: createTransportModeState(),
+        match: createMatchState(),
+      };
+    }
 
     // Calculate time delta
     const dt =
       state.lastTimestamp > 0
         ? (point.timestamp - state.lastTimestamp) / 1000
-        : 0.1;
+        : 0;
 
-    // Apply moving average
+    // Apply the profile's smoothing method
     const movingAvgStart = performance.now();
-    const velocityArray = new Float32Array(state.velocityBuffer);
-    const velocityDeltas = new Float32Array(VELOCITY_WINDOW_SIZE).fill(dt);
+    const smoothing = await smoothVelocity(
+      pipeline,
+      state.velocity,
+      point.velocity,
+      point.timestamp,
+      dt,
+      config
+    );
+    const smoothedVelocity = smoothing.smoothedVelocity;
+    const movement =
+      config.imm.useForMovement && point.modelProbabilities
+        ? updateMovementFromProbability(
+            state.movement,
+            movingProbability(point.modelProbabilities),
+            smoothedVelocity,
+            point.timestamp,
+            config.movement,
+            config.imm
+          )
+        : updateMovement(
+            state.movement,
+            smoothedVelocity,
+            point.timestamp,
+            config.movement
+          );
+    const isMoving = movement.isMoving;
+    latency.movingAvgMs = performance.now() - movingAvgStart;
 
-    const smoothedVelocityArray = await this.pipeline.process(
-      velocityArray,
-      velocityDeltas,
-      { channels: 1 }
+    // Transport mode over the recent window
+    const transport = updateTransportMode(
+      state.transport,
+      smoothedVelocity,
+      point.acceleration,
+      point.turnRate,
+      dt,
+      config.transportMode
     );
 
-    const smoothedVelocity =
-      smoothedVelocityArray[smoothedVelocityArray.length - 1] || 0;
-    const isMoving = smoothedVelocity > MOVEMENT_THRESHOLD;
-    latency.movingAvgMs = performance.now() - movingAvgStart;
+    // Map matching against the road network
+    const matching =
+      this.roadNetwork && config.mapMatching.enabled
+        ? updateMatch(
+            state.match,
+            this.roadNetwork,
+            point.smoothedLat,
+            point.smoothedLon,
+            config.mapMatching
+          )
+        : { state: state.match, match: null };
+
+    // Stay-point detection on the smoothed track
+    const stay = updateStay(
+      state.stay,
+      point.smoothedLat,
+      point.smoothedLon,
+      point.timestamp,
+      config.stayPoint
+    );
+
+    // Trip segmentation (closes on long gaps and sustained stops)
+    const stepDistance = haversineDistance(
+      state.prevLat,
+      state.prevLon,
+      point.smoothedLat,
+      point.smoothedLon
+    );
+    const trip = updateTrip(
+      state.trip,
+      {
+        timestamp: point.timestamp,
+        lat: point.smoothedLat,
+        lon: point.smoothedLon,
+        stepDistance,
+        dtSeconds: dt,
+        smoothedVelocity,
+        isMoving,
+        segmentStart: newSegment,
+      },
+      config.trip
+    );
+
+    // Odometer along the smoothed track
+    const odometer = updateOdometer(state.odometer, {
+      stepDistance,
+      dtSeconds: dt,
+      smoothedVelocity,
+      isMoving,
+      segmentStart: newSegment,
+    });
 
     // Update state
-    state.lastTimestamp = point.timestamp;
+    const newState: VelocitySmootherState = {
+      lastTimestamp: point.timestamp,
+      prevLat: point.smoothedLat,
+      prevLon: point.smoothedLon,
+      velocity: smoothing.state,
+      movement: movement.state,
+      odometer,
+      transport: transport.state,
+      match: matching.state,
+      stay: stay.state,
+      trip: trip.state,
+    };
+    await this.stateManager.saveVelocitySmootherState(point.sensorId, newState);
 
     // Prepare final result
     const result = {
       sensorId: point.sensorId,
       lat: point.lat,
       lon: point.lon,
+      interpolated: point.interpolated,
+      segmentStart: point.segmentStart,
       smoothedLat: point.smoothedLat,
       smoothedLon: point.smoothedLon,
+      horizontalError: point.horizontalError,
       velocity: point.velocity,
       smoothedVelocity,
       isMoving,
+      movementState: movement.state.phase,
+      rejected: point.rejected,
+      rejectReason: point.rejectReason || undefined,
+      anomalies: point.anomalies.length > 0 ? point.anomalies : undefined,
+      heading: point.heading,
+      acceleration: point.acceleration,
+      turnRate: point.turnRate,
+      smoothedAltitude: point.smoothedAltitude,
+      verticalSpeed: point.verticalSpeed,
+      slope:
+        point.verticalSpeed !== undefined
+          ? computeSlope(
+              point.verticalSpeed,
+              smoothedVelocity,
+              config.movementThreshold
+            )
+          : undefined,
+      ascent: point.ascent,
+      descent: point.descent,
+      totalDistance: odometer.totalDistance,
+      movingTimeMs: odometer.movingTime,
+      stoppedTimeMs: odometer.stoppedTime,
+      maxSpeed: odometer.maxSpeed,
+      modelProbabilities: point.modelProbabilities,
+      transportMode: transport.transportMode,
+      transportModeConfidence: transport.confidence,
+      matchedLat: matching.match?.lat,
+      matchedLon: matching.match?.lon,
+      roadSegmentId: matching.match?.roadSegmentId,
+      matchConfidence: matching.match?.confidence,
       timestamp: point.timestamp,
     };
 
     // Publish to Redis pub/sub (for SSE server)
     await this.redis.publish(OUTPUT_CHANNEL, JSON.stringify(result));
 
+    // Publish movement transitions
+    for (const event of movement.events) {
+      await this.redis.publish(
+        EVENTS_CHANNEL,
+        JSON.stringify({ ...event, sensorId: point.sensorId })
+      );
+      console.log(`📌 ${point.sensorId} | ${event.from} → ${event.to}`);
+    }
+
+    // Publish stay-point and trip events (closed trips are also stored for
+    // the trips API)
+    for (const event of [...stay.events, ...trip.events]) {
+      if (event.type === "trip.ended") {
+        await this.stateManager.saveTrip(point.sensorId, event);
+      }
+      await this.redis.publish(
+        EVENTS_CHANNEL,
+        JSON.stringify({ ...event, sensorId: point.sensorId })
+      );
+      console.log(`📌 ${point.sensorId} | ${event.type}`);
+    }
+
+    // Geofences against the smoothed position (membership persisted so a
+    // restart does not re-fire events)
+    const geofences = await this.getGeofences();
+    if (geofences.length > 0) {
+      const update = updateGeofences(
+        await this.stateManager.loadGeofenceMemberships(point.sensorId),
+        geofences,
+        point.smoothedLat,
+        point.smoothedLon,
+        point.timestamp,
+        config.geofence
+      );
+      await this.stateManager.saveGeofenceMemberships(
+        point.sensorId,
+        update.memberships
+      );
+      for (const event of update.events) {
+        await this.redis.publish(
+          EVENTS_CHANNEL,
+          JSON.stringify({ ...event, sensorId: point.sensorId })
+        );
+        console.log(
+          `📌 ${point.sensorId} | ${event.type} ${event.geofenceName}`
+        );
+      }
+    }
+
     // Acknowledge message
     await this.redis.xack(INPUT_STREAM, CONSUMER_GROUP, messageId);
 